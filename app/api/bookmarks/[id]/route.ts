@@ -0,0 +1,80 @@
+/**
+ * Question Bookmark API Route
+ *
+ * Edits the note and tags on a bookmarked question, or removes the bookmark.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { normalizeBookmarkTags } from '@/lib/bookmarks';
+import { updateBookmarkSchema, type UpdateBookmarkFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const bookmarkParamsSchema = z.object({
+  id: z.string().cuid('Invalid bookmark ID'),
+});
+
+// PATCH handler - Update a bookmark's note and tags
+const patchHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: bookmarkParamsSchema,
+    body: updateBookmarkSchema,
+  },
+});
+
+export const PATCH = patchHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Bookmark ID is required', 400);
+  }
+  const { note, tags } = request.body as UpdateBookmarkFormData;
+  const user = request.user!;
+
+  const bookmark = await prisma.questionBookmark.findUnique({
+    where: { id },
+  });
+
+  if (!bookmark || bookmark.userId !== user.id) {
+    return sendError('Bookmark not found', 404);
+  }
+
+  const updated = await prisma.questionBookmark.update({
+    where: { id },
+    data: {
+      ...(note !== undefined && { note }),
+      ...(tags && { tags: normalizeBookmarkTags(tags) }),
+    },
+  });
+
+  return sendSuccess({ bookmark: updated });
+});
+
+// DELETE handler - Remove a bookmark
+const deleteHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: bookmarkParamsSchema,
+  },
+});
+
+export const DELETE = deleteHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Bookmark ID is required', 400);
+  }
+  const user = request.user!;
+
+  const { count } = await prisma.questionBookmark.deleteMany({
+    where: { id, userId: user.id },
+  });
+
+  if (count === 0) {
+    return sendError('Bookmark not found', 404);
+  }
+
+  return sendSuccess({ message: 'Bookmark removed' });
+});
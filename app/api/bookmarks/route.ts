@@ -0,0 +1,81 @@
+/**
+ * Question Bookmarks API Route
+ *
+ * Lists the student's bookmarked questions, filterable by subject, topic and
+ * tag, and bookmarks a question from an attempt review.
+ */
+
+import { createApiRoute, sendSuccess, sendError, parsePagination, createPaginationMeta } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import {
+  findBookmarkableQuestion,
+  getBookmarkSubjects,
+  listBookmarks,
+  normalizeBookmarkTags,
+} from '@/lib/bookmarks';
+import {
+  bookmarkQuerySchema,
+  bookmarkQuestionSchema,
+  type BookmarkQueryFormData,
+  type BookmarkQuestionFormData,
+} from '@/lib/validations/exam';
+
+// GET handler - List bookmarks
+const getHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    query: bookmarkQuerySchema,
+  },
+});
+
+export const GET = getHandler(async (request) => {
+  const query = request.query as BookmarkQueryFormData;
+  const user = request.user!;
+  const { skip, take } = parsePagination(request.query!);
+
+  const [{ bookmarks, total }, subjects] = await Promise.all([
+    listBookmarks(user.id, query, skip, take),
+    getBookmarkSubjects(user.id),
+  ]);
+
+  return sendSuccess(
+    { bookmarks, subjects },
+    createPaginationMeta(
+      parseInt(query.page || '1'),
+      take,
+      total
+    )
+  );
+});
+
+// POST handler - Bookmark a question
+const postHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    body: bookmarkQuestionSchema,
+  },
+});
+
+export const POST = postHandler(async (request) => {
+  const { questionId, note, tags } = request.body as BookmarkQuestionFormData;
+  const user = request.user!;
+
+  // Questions can be bookmarked once the test they were served in is submitted
+  const bankQuestionId = await findBookmarkableQuestion(user.id, questionId);
+  if (!bankQuestionId) {
+    return sendError('Question not found in your submitted attempts', 404);
+  }
+
+  // Bookmarking again updates the note and tags given
+  const data = {
+    ...(note !== undefined && { note }),
+    ...(tags && { tags: normalizeBookmarkTags(tags) }),
+  };
+  const bookmark = await prisma.questionBookmark.upsert({
+    where: { userId_questionId: { userId: user.id, questionId: bankQuestionId } },
+    update: data,
+    create: { userId: user.id, questionId: bankQuestionId, ...data },
+  });
+
+  return sendSuccess({ bookmark }, undefined, 201);
+});
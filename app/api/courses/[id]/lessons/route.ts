@@ -7,6 +7,7 @@
 import { z } from 'zod';
 import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
 import { prisma } from '@/lib/prisma';
+import { checkEntitlement } from '@/lib/entitlements';
 
 // Params validation schema
 const lessonParamsSchema = z.object({
@@ -47,34 +48,22 @@ export const GET = getHandler(async (request, context) => {
     return sendError('Course not found', 404);
   }
 
-  // Check if user is enrolled or has access
-  let hasAccess = course.isPublished;
-  
-  if (request.user) {
-    // Check if user is the instructor or admin
-    if (request.user.role === 'ADMIN' || request.user.id === course.instructorId) {
-      hasAccess = true;
-    } else {
-      // Check if user is enrolled
-      const enrollment = await prisma.courseEnrollment.findUnique({
-        where: {
-          userId_courseId: {
-            userId: request.user.id,
-            courseId,
-          },
-        },
-      });
-      hasAccess = !!enrollment;
-    }
-  }
+  const isManager = !!request.user &&
+    (request.user.role === 'ADMIN' || request.user.role === 'SUPER_ADMIN' || request.user.id === course.instructorId);
 
-  if (!hasAccess) {
-    return sendError('Access denied', 403);
+  if (!course.isPublished && !isManager) {
+    return sendError('Course not found', 404);
   }
 
+  // Enrollment, purchase or subscription unlocks lesson content; free lessons are previews
+  const entitlement = await checkEntitlement(request.user, { type: 'course', id: courseId });
+
   // Get lessons
   const lessons = await prisma.lesson.findMany({
-    where: { courseId },
+    where: {
+      courseId,
+      ...(!isManager && { isPublished: true }),
+    },
     orderBy: { sortOrder: 'asc' },
     select: {
       id: true,
@@ -84,27 +73,28 @@ export const GET = getHandler(async (request, context) => {
       isFree: true,
       sortOrder: true,
       isPublished: true,
-      // Include content only if user has access
-      ...(hasAccess && {
-        content: true,
-        videoUrl: true,
-      }),
+      topics: true,
+      content: true,
+      videoUrl: true,
     },
   });
 
-  // Filter lessons based on access level
-  const filteredLessons = lessons.filter((lesson) => {
-    // Show all lessons to instructor/admin
-    if (request.user && (request.user.role === 'ADMIN' || request.user.id === course.instructorId)) {
-      return true;
-    }
-    
-    // Show published lessons and previews to others
-    return lesson.isPublished || lesson.isFree;
+  const visibleLessons = lessons.map(({ content, videoUrl, ...lesson }) => {
+    const isUnlocked = entitlement.granted || lesson.isFree;
+
+    return {
+      ...lesson,
+      isLocked: !isUnlocked,
+      ...(isUnlocked && { content, videoUrl }),
+    };
   });
 
   return sendSuccess({
-    lessons: filteredLessons,
+    lessons: visibleLessons,
+    access: {
+      hasAccess: entitlement.granted,
+      source: entitlement.source,
+    },
   });
 });
 
@@ -161,6 +151,7 @@ export const POST = postHandler(async (request, context) => {
       isFree: lesson.isFree,
       isPublished: lesson.isPublished,
       sortOrder: lesson.sortOrder,
+      topics: lesson.topics,
       createdAt: lesson.createdAt,
     },
   }, undefined, 201);
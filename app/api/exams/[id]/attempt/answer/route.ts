@@ -0,0 +1,151 @@
+/**
+ * Adaptive Answer API Route
+ *
+ * Records the answer to the question an adaptive attempt is waiting on and
+ * serves the next one, picked by the updated ability estimate. Once a stop
+ * rule is met the attempt is graded and closed.
+ */
+
+import { z } from 'zod';
+import { ApiConflictError, createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { answerSubmissionSchema, type AnswerSubmissionFormData } from '@/lib/validations/exam';
+import {
+  closeExpiredAttempts,
+  completeTestAttempt,
+  getAttemptDeadline,
+  getAttemptWindowEnd,
+  isAttemptExpired,
+} from '@/lib/exam-attempt';
+import {
+  answerAdaptiveQuestion,
+  getAdaptiveServedQuestions,
+  getCurrentAdaptiveQuestionId,
+} from '@/lib/adaptive';
+import { parseQuestionsOrder } from '@/lib/randomization';
+
+// Params validation schema
+const answerParamsSchema = z.object({
+  id: z.string().cuid('Invalid exam ID'),
+});
+
+// Query validation schema - the test series being attempted within the exam
+const answerQuerySchema = z.object({
+  testSeriesId: z.string().cuid('Invalid test series ID'),
+});
+
+// POST handler - Answer the current adaptive question
+const postHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: answerParamsSchema,
+    query: answerQuerySchema,
+    body: answerSubmissionSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id: examId } = context?.params || {};
+
+  if (!examId) {
+    return sendError('Exam ID is required', 400);
+  }
+  const { answer } = request.body as AnswerSubmissionFormData;
+  const { testSeriesId } = request.query as z.infer<typeof answerQuerySchema>;
+  const user = request.user!;
+
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+    include: {
+      testSeries: {
+        where: { id: testSeriesId },
+        include: {
+          questions: { orderBy: { createdAt: 'asc' } },
+          sections: { orderBy: { order: 'asc' } },
+          liveTest: { select: { endTime: true, resultsReleasedAt: true } },
+        },
+      },
+    },
+  });
+
+  if (!exam || !exam.testSeries?.[0]) {
+    return sendError('Exam or test series not found', 404);
+  }
+
+  const testSeries = exam.testSeries[0];
+
+  if (!testSeries.isAdaptive) {
+    return sendError('Questions are only answered one at a time in adaptive tests', 400);
+  }
+
+  const attempt = await prisma.testAttempt.findFirst({
+    where: {
+      userId: user.id,
+      testSeriesId: testSeries.id,
+      completedAt: null,
+    },
+  });
+
+  if (!attempt) {
+    return sendError('No active attempt found', 404);
+  }
+
+  const endTime = getAttemptDeadline(attempt, testSeries, getAttemptWindowEnd(exam, testSeries.liveTest));
+  if (endTime && isAttemptExpired(endTime)) {
+    await closeExpiredAttempts({ id: attempt.id });
+    return sendError('Exam time has expired', 400);
+  }
+
+  const answered = await prisma.questionAttempt.findMany({
+    where: { testAttemptId: attempt.id },
+    select: { questionId: true },
+  });
+  const currentId = getCurrentAdaptiveQuestionId(
+    parseQuestionsOrder(attempt.questionsOrder),
+    new Set(answered.map(qa => qa.questionId))
+  );
+
+  // Answers are final: only the question the attempt is waiting on can be answered
+  const question = testSeries.questions.find(q => q.id === currentId);
+  if (!question || answer.questionId !== question.id) {
+    return sendError('Answer the current question of this attempt', 400);
+  }
+
+  const step = await answerAdaptiveQuestion(attempt, { ...testSeries, exam }, question, answer);
+  if (step instanceof ApiConflictError) {
+    return sendError(step);
+  }
+
+  if (step.stopReason) {
+    const { attempt: completedAttempt } = await completeTestAttempt(step.attempt, { ...testSeries, exam });
+
+    return sendSuccess({
+      finished: true,
+      stopReason: step.stopReason,
+      attemptId: completedAttempt.id,
+      resultsReleased: completedAttempt.resultsReleasedAt !== null,
+      question: null,
+    });
+  }
+
+  const order = parseQuestionsOrder(step.attempt.questionsOrder);
+  const [next] = getAdaptiveServedQuestions(testSeries.questions, order, new Set());
+
+  return sendSuccess({
+    finished: false,
+    stopReason: null,
+    attemptId: step.attempt.id,
+    questionNumber: order?.questions.length ?? 0,
+    question: next && {
+      id: next.id,
+      title: next.title,
+      questionText: next.questionText,
+      type: next.type,
+      options: next.options,
+      marks: next.marks,
+      negativeMarks: next.negativeMarks,
+      difficulty: next.difficulty,
+      sectionId: next.sectionId,
+    },
+  });
+});
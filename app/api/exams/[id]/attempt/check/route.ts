@@ -0,0 +1,109 @@
+/**
+ * Practice Answer Check API Route
+ *
+ * Checks an answer the moment it is given in a practice attempt and returns
+ * whether it was right, the explanation and how other students fared.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { answerSubmissionSchema, type AnswerSubmissionFormData } from '@/lib/validations/exam';
+import {
+  closeExpiredAttempts,
+  getAttemptDeadline,
+  getAttemptWindowEnd,
+  isAttemptExpired,
+  toUserAnswer,
+} from '@/lib/exam-attempt';
+import { checkPracticeAnswer } from '@/lib/practice';
+import { isEmptyAnswer } from '@/lib/scoring';
+
+// Params validation schema
+const checkParamsSchema = z.object({
+  id: z.string().cuid('Invalid exam ID'),
+});
+
+// Query validation schema - the test series being attempted within the exam
+const checkQuerySchema = z.object({
+  testSeriesId: z.string().cuid('Invalid test series ID'),
+});
+
+// POST handler - Check a practice answer
+const postHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: checkParamsSchema,
+    query: checkQuerySchema,
+    body: answerSubmissionSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id: examId } = context?.params || {};
+
+  if (!examId) {
+    return sendError('Exam ID is required', 400);
+  }
+  const { answer } = request.body as AnswerSubmissionFormData;
+  const { testSeriesId } = request.query as z.infer<typeof checkQuerySchema>;
+  const user = request.user!;
+
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+    include: {
+      testSeries: {
+        where: { id: testSeriesId },
+        include: {
+          questions: {
+            where: { id: answer.questionId, isActive: true },
+          },
+          sections: { orderBy: { order: 'asc' } },
+          liveTest: { select: { endTime: true } },
+        },
+      },
+    },
+  });
+
+  if (!exam || !exam.testSeries?.[0]) {
+    return sendError('Exam or test series not found', 404);
+  }
+
+  const testSeries = exam.testSeries[0];
+
+  const attempt = await prisma.testAttempt.findFirst({
+    where: {
+      userId: user.id,
+      testSeriesId: testSeries.id,
+      completedAt: null,
+    },
+  });
+
+  if (!attempt) {
+    return sendError('No active attempt found', 404);
+  }
+
+  if (!attempt.isPractice) {
+    return sendError('Answers are only checked in practice attempts', 400);
+  }
+
+  // Practice attempts have no timer, but still end with the exam window
+  const endTime = getAttemptDeadline(attempt, testSeries, getAttemptWindowEnd(exam, testSeries.liveTest));
+  if (endTime && isAttemptExpired(endTime)) {
+    await closeExpiredAttempts({ id: attempt.id });
+    return sendError('Exam time has expired', 400);
+  }
+
+  const question = testSeries.questions[0];
+  if (!question) {
+    return sendError(`Question ${answer.questionId} is not part of this exam`, 400);
+  }
+
+  if (isEmptyAnswer(toUserAnswer(answer))) {
+    return sendError('Answer the question before checking it', 400);
+  }
+
+  const feedback = await checkPracticeAnswer(attempt, { ...testSeries, exam }, question, answer);
+
+  return sendSuccess({ feedback });
+});
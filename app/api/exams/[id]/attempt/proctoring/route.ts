@@ -0,0 +1,108 @@
+/**
+ * Exam Attempt Proctoring API Route
+ *
+ * Receives the proctoring events the exam client collects during an attempt
+ * and submits the attempt once the exam's violation limit is reached.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { proctoringEventsSchema, type ProctoringEventsFormData } from '@/lib/validations/exam';
+import {
+  closeExpiredAttempts,
+  getAttemptDeadline,
+  getAttemptWindowEnd,
+  isAttemptExpired,
+} from '@/lib/exam-attempt';
+import { recordProctoringEvents } from '@/lib/proctoring';
+
+// Params validation schema
+const proctoringParamsSchema = z.object({
+  id: z.string().cuid('Invalid exam ID'),
+});
+
+// Query validation schema - the test series being attempted within the exam
+const proctoringQuerySchema = z.object({
+  testSeriesId: z.string().cuid('Invalid test series ID'),
+});
+
+// POST handler - Report proctoring events
+const postHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: proctoringParamsSchema,
+    query: proctoringQuerySchema,
+    body: proctoringEventsSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id: examId } = context?.params || {};
+
+  if (!examId) {
+    return sendError('Exam ID is required', 400);
+  }
+  const { events } = request.body as ProctoringEventsFormData;
+  const { testSeriesId } = request.query as z.infer<typeof proctoringQuerySchema>;
+  const user = request.user!;
+
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+    include: {
+      testSeries: {
+        where: { id: testSeriesId },
+        include: {
+          questions: true,
+          sections: { orderBy: { order: 'asc' } },
+          liveTest: { select: { endTime: true, resultsReleasedAt: true } },
+        },
+      },
+    },
+  });
+
+  if (!exam || !exam.testSeries?.[0]) {
+    return sendError('Exam or test series not found', 404);
+  }
+
+  if (!exam.proctoringEnabled) {
+    return sendError('Proctoring is not enabled for this exam', 400);
+  }
+
+  const testSeries = exam.testSeries[0];
+
+  const attempt = await prisma.testAttempt.findFirst({
+    where: {
+      userId: user.id,
+      testSeriesId: testSeries.id,
+      completedAt: null,
+    },
+  });
+
+  if (!attempt) {
+    return sendError('No active attempt found', 404);
+  }
+
+  // Events arriving within the submission grace period still count
+  const endTime = getAttemptDeadline(attempt, testSeries, getAttemptWindowEnd(exam, testSeries.liveTest));
+  if (endTime && isAttemptExpired(endTime)) {
+    await closeExpiredAttempts({ id: attempt.id });
+    return sendError('Exam time has expired', 400);
+  }
+
+  const { attempt: updated, proctoring, autoSubmitted } = await recordProctoringEvents(
+    attempt,
+    { ...testSeries, exam },
+    events
+  );
+
+  return sendSuccess({
+    attemptId: updated.id,
+    proctoring,
+    autoSubmitted,
+    ...(autoSubmitted && {
+      message: `Your attempt was submitted after ${proctoring.violationCount} proctoring violations`,
+      completedAt: updated.completedAt,
+    }),
+  });
+});
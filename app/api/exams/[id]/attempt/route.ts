@@ -1,22 +1,59 @@
 /**
  * Exam Attempt API Route
  * 
- * Handles starting, submitting, and managing exam attempts.
+ * Handles starting, resuming, autosaving, and submitting exam attempts.
  */
 
 import { z } from 'zod';
 import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
 import { prisma } from '@/lib/prisma';
+import { saveProgressSchema, type SaveProgressFormData } from '@/lib/validations/exam';
+import {
+  closeExpiredAttempts,
+  completeTestAttempt,
+  getAttemptDeadline,
+  getAttemptLimitError,
+  getAttemptLimits,
+  getAttemptWindowEnd,
+  getOpenQuestionIds,
+  getSecondsRemaining,
+  getServedQuestions,
+  isAttemptExpired,
+  saveAttemptProgress,
+  serializeAttemptProgress,
+  serializeSectionState,
+} from '@/lib/exam-attempt';
+import { checkEntitlement, createPaymentRequiredError } from '@/lib/entitlements';
+import { getResultsEmbargo } from '@/lib/attempt-review';
+import { getLiveResultEmbargo, getLiveTestStartError } from '@/lib/live-tests';
+import { serializeProctoringState } from '@/lib/proctoring';
+import { getActiveAccommodation, getAttemptAccommodations } from '@/lib/accommodations';
+import { getPracticeFeedback, isPracticeExam } from '@/lib/practice';
+import {
+  buildAdaptiveQuestionsOrder,
+  getAdaptivePool,
+  getAdaptiveQuestionCount,
+  getAdaptiveServedQuestions,
+  getAttemptAbility,
+} from '@/lib/adaptive';
+import { buildQuestionsOrder, parseQuestionsOrder } from '@/lib/randomization';
 
 // Params validation schema
 const attemptParamsSchema = z.object({
-  id: z.string().uuid('Invalid exam ID'),
+  id: z.string().cuid('Invalid exam ID'),
 });
 
+// Query validation schema - the test series being attempted within the exam
+const attemptQuerySchema = z.object({
+  testSeriesId: z.string().cuid('Invalid test series ID'),
+});
+
+type AttemptQueryParams = z.infer<typeof attemptQuerySchema>;
+
 // Submit attempt schema
 const submitAttemptSchema = z.object({
   answers: z.array(z.object({
-    questionId: z.string().uuid('Invalid question ID'),
+    questionId: z.string().cuid('Invalid question ID'),
     userAnswer: z.any(), // Can be string, array, or object depending on question type
     timeTaken: z.number().min(0, 'Time taken must be non-negative'),
     isMarked: z.boolean().default(false),
@@ -28,6 +65,7 @@ const postHandler = createApiRoute({
   requireAuth: true,
   validation: {
     params: attemptParamsSchema,
+    query: attemptQuerySchema,
   },
 });
 
@@ -37,15 +75,18 @@ export const POST = postHandler(async (request, context) => {
   if (!examId) {
     return sendError('Exam ID is required', 400);
   }
+  const { testSeriesId } = request.query as AttemptQueryParams;
   const user = request.user!;
 
-  // Get the exam with its test series
+  // Get the exam with the requested test series
   const exam = await prisma.exam.findUnique({
     where: { id: examId },
     include: {
       testSeries: {
+        where: { id: testSeriesId, isPublished: true },
         include: {
           questions: {
+            where: { isActive: true },
             select: {
               id: true,
               title: true,
@@ -55,8 +96,13 @@ export const POST = postHandler(async (request, context) => {
               marks: true,
               negativeMarks: true,
               difficulty: true,
+              difficultyLevel: true,
+              sectionId: true,
             },
+            orderBy: { createdAt: 'asc' },
           },
+          sections: { orderBy: { order: 'asc' } },
+          liveTest: true,
         },
       },
     },
@@ -70,10 +116,10 @@ export const POST = postHandler(async (request, context) => {
     return sendError('Exam is not available', 400);
   }
 
-  // Get the first available test series for this exam
-  const testSeries = exam.testSeries?.[0];
-  if (!testSeries) {
-    return sendError('No test series available for this exam', 400);
+  // The test series must belong to this exam; custom tests only to their builder
+  const testSeries = exam.testSeries[0];
+  if (!testSeries || (testSeries.isPersonal && testSeries.creatorId !== user.id)) {
+    return sendError('Test series not found in this exam', 404);
   }
 
   // Check date availability
@@ -87,6 +133,19 @@ export const POST = postHandler(async (request, context) => {
     return sendError('Exam has ended', 400);
   }
 
+  // For paid exams, check if user has access; a lapsed enrollment or
+  // subscription also stops an in-progress attempt from being resumed
+  const entitlement = await checkEntitlement(user, { type: 'test_series', id: testSeries.id });
+  if (!entitlement.granted) {
+    return sendError(createPaymentRequiredError(entitlement, 'Purchase this test series or subscribe to attempt it'));
+  }
+
+  const windowEnd = getAttemptWindowEnd(exam, testSeries.liveTest);
+  const accommodation = await getActiveAccommodation(user.id, now);
+
+  // Close this user's attempts that ran out of time without being submitted
+  await closeExpiredAttempts({ userId: user.id, testSeriesId: testSeries.id }, now);
+
   // Check if user already has an active attempt
   const activeAttempt = await prisma.testAttempt.findFirst({
     where: {
@@ -97,22 +156,83 @@ export const POST = postHandler(async (request, context) => {
   });
 
   if (activeAttempt) {
-    // Return existing active attempt
+    // Resume the existing active attempt with its saved progress
+    const savedAnswers = await prisma.questionAttempt.findMany({
+      where: { testAttemptId: activeAttempt.id },
+    });
+    const endTime = getAttemptDeadline(activeAttempt, testSeries, windowEnd);
+    const sectionState = serializeSectionState(activeAttempt, testSeries.sections, windowEnd);
+    const order = parseQuestionsOrder(activeAttempt.questionsOrder);
+
     return sendSuccess({
       attempt: {
         id: activeAttempt.id,
         testSeriesId: activeAttempt.testSeriesId,
         startedAt: activeAttempt.startedAt,
-        endTime: new Date(activeAttempt.startedAt.getTime() + testSeries.duration * 60 * 1000),
-        questions: testSeries.questions,
+        isPractice: activeAttempt.isPractice,
+        endTime,
+        timeRemaining: endTime ? getSecondsRemaining(endTime) : null,
+        // Adaptive attempts are served the question they are waiting on
+        questions: testSeries.isAdaptive
+          ? getAdaptiveServedQuestions(
+              testSeries.questions,
+              order,
+              new Set(savedAnswers.map(answer => answer.questionId))
+            )
+          : getServedQuestions(testSeries.questions, order, testSeries.sections, sectionState),
+        adaptive: testSeries.isAdaptive
+          ? { questionNumber: order?.questions.length ?? 0, questionCount: activeAttempt.totalQuestions }
+          : null,
+        sectionState,
+        progress: serializeAttemptProgress(activeAttempt, savedAnswers),
+        proctoring: serializeProctoringState(exam, activeAttempt),
+        accommodations: getAttemptAccommodations(accommodation, activeAttempt),
+        practiceFeedback: activeAttempt.isPractice
+          ? await getPracticeFeedback(activeAttempt, savedAnswers)
+          : [],
       },
     });
   }
 
-  // For paid exams, check if user has access
-  if (!exam.isFree) {
-    // TODO: Implement payment/subscription validation
-    // For now, we'll allow access for testing
+  // Enforce retake and attempt limits against completed attempts
+  const completedAttempts = await prisma.testAttempt.count({
+    where: {
+      userId: user.id,
+      testSeriesId: testSeries.id,
+      completedAt: { not: null },
+    },
+  });
+
+  // Live tests are taken once, by registered students, between the common start and end
+  if (testSeries.liveTest) {
+    const registration = await prisma.liveTestRegistration.findUnique({
+      where: { liveTestId_userId: { liveTestId: testSeries.liveTest.id, userId: user.id } },
+    });
+
+    const liveError = completedAttempts > 0
+      ? 'You have already taken this live test'
+      : getLiveTestStartError(testSeries.liveTest, registration !== null, now);
+    if (liveError) {
+      return sendError(liveError, 403);
+    }
+  }
+
+  const limitError = getAttemptLimitError(getAttemptLimits(exam, testSeries), completedAttempts);
+  if (limitError) {
+    return sendError(limitError, 403);
+  }
+
+  // Fix the question and option order for this attempt; adaptive attempts
+  // start with one question and are served the rest as they answer
+  const questionsOrder = testSeries.isAdaptive
+    ? buildAdaptiveQuestionsOrder(testSeries.questions, { randomizeOptions: exam.randomizeOptions })
+    : buildQuestionsOrder(testSeries.questions, {
+        randomizeQuestions: exam.randomizeQuestions || testSeries.randomizeQuestions,
+        randomizeOptions: exam.randomizeOptions,
+      });
+
+  if (questionsOrder.questions.length === 0) {
+    return sendError('This test has no questions yet', 400);
   }
 
   // Create new attempt
@@ -121,45 +241,78 @@ export const POST = postHandler(async (request, context) => {
       userId: user.id,
       testSeriesId: testSeries.id,
       startedAt: new Date(),
+      totalQuestions: testSeries.isAdaptive
+        ? getAdaptiveQuestionCount(testSeries, getAdaptivePool(testSeries.questions).length)
+        : testSeries.questions.length,
+      questionsOrder: { ...questionsOrder },
+      // Accommodation extra time is fixed for the whole attempt
+      extraTimePerHour: accommodation?.extraTimePerHour ?? 0,
+      // Adaptive tests pick questions by answers that are never shown as checked
+      isPractice: isPracticeExam(exam) && !testSeries.isAdaptive,
     },
   });
 
+  const endTime = getAttemptDeadline(attempt, testSeries, windowEnd);
+  const sectionState = serializeSectionState(attempt, testSeries.sections, windowEnd);
+
   return sendSuccess({
     attempt: {
       id: attempt.id,
       testSeriesId: attempt.testSeriesId,
       startedAt: attempt.startedAt,
-      endTime: new Date(attempt.startedAt.getTime() + testSeries.duration * 60 * 1000),
-      questions: testSeries.questions,
+      isPractice: attempt.isPractice,
+      endTime,
+      timeRemaining: endTime ? getSecondsRemaining(endTime) : null,
+      questions: testSeries.isAdaptive
+        ? getAdaptiveServedQuestions(testSeries.questions, questionsOrder, new Set())
+        : getServedQuestions(testSeries.questions, questionsOrder, testSeries.sections, sectionState),
+      adaptive: testSeries.isAdaptive
+        ? { questionNumber: 1, questionCount: attempt.totalQuestions }
+        : null,
+      sectionState,
+      progress: serializeAttemptProgress(attempt, []),
+      proctoring: serializeProctoringState(exam, attempt),
+      accommodations: getAttemptAccommodations(accommodation, attempt),
+      practiceFeedback: [],
     },
   }, undefined, 201);
 });
 
-// PUT handler - Submit exam attempt
-const putHandler = createApiRoute({
+// PATCH handler - Autosave exam attempt progress
+const patchHandler = createApiRoute({
   requireAuth: true,
   validation: {
     params: attemptParamsSchema,
-    body: submitAttemptSchema,
+    query: attemptQuerySchema,
+    body: saveProgressSchema,
   },
 });
 
-export const PUT = putHandler(async (request, context) => {
+export const PATCH = patchHandler(async (request, context) => {
   const { id: examId } = context?.params || {};
   
   if (!examId) {
     return sendError('Exam ID is required', 400);
   }
-  const { answers } = request.body!;
+  const { examId: bodyExamId, ...progress } = request.body as SaveProgressFormData;
+  const { testSeriesId } = request.query as AttemptQueryParams;
   const user = request.user!;
 
-  // First get the exam to find its test series
+  if (bodyExamId !== examId) {
+    return sendError('Exam ID does not match the attempt', 400);
+  }
+
   const exam = await prisma.exam.findUnique({
     where: { id: examId },
     include: {
       testSeries: {
+        where: { id: testSeriesId },
         include: {
-          questions: true,
+          questions: {
+            select: { id: true, sectionId: true },
+          },
+          sections: { orderBy: { order: 'asc' } },
+          liveTest: { select: { endTime: true } },
         },
       },
     },
@@ -171,7 +324,6 @@ export const PUT = putHandler(async (request, context) => {
 
   const testSeries = exam.testSeries[0];
 
-  // Get the active attempt
   const attempt = await prisma.testAttempt.findFirst({
     where: {
       userId: user.id,
@@ -184,111 +336,149 @@ export const PUT = putHandler(async (request, context) => {
     return sendError('No active attempt found', 404);
   }
 
-  // Check if exam time has expired
-  const endTime = new Date(attempt.startedAt.getTime() + testSeries.duration * 60 * 1000);
-  const now = new Date();
-  
-  if (now > endTime) {
+  const windowEnd = getAttemptWindowEnd(exam, testSeries.liveTest);
+  const endTime = getAttemptDeadline(attempt, testSeries, windowEnd);
+  const timeRemaining = endTime ? getSecondsRemaining(endTime) : null;
+  if (endTime && timeRemaining === 0) {
+    // Close abandoned attempts so the answers saved in time still get graded
+    if (isAttemptExpired(endTime)) {
+      await closeExpiredAttempts({ id: attempt.id });
+    }
     return sendError('Exam time has expired', 400);
   }
 
-  // Calculate score
-  let totalScore = 0;
-  let correctAnswers = 0;
-  let incorrectAnswers = 0;
-  let skippedAnswers = 0;
+  // Only accept answers for questions that belong to this test series
+  const questionIds = new Set(testSeries.questions.map(q => q.id));
+  const unknownQuestion = progress.answers.find(answer => !questionIds.has(answer.questionId));
+  if (unknownQuestion) {
+    return sendError(`Question ${unknownQuestion.questionId} is not part of this exam`, 400);
+  }
 
-  const questionAnswers = [];
+  // Sectional attempts only save answers to open sections; a client still
+  // sending a closed section's answers catches up from the returned section state
+  const openQuestionIds = getOpenQuestionIds(attempt, testSeries, windowEnd);
+  const servedCount = openQuestionIds ? openQuestionIds.size : testSeries.questions.length;
 
-  for (const answer of answers) {
-    const question = testSeries.questions.find(q => q.id === answer.questionId);
-    
-    if (!question) {
-      continue;
-    }
+  if (progress.currentQuestion >= servedCount) {
+    return sendError('Current question index is out of range', 400);
+  }
 
-    let isCorrect = false;
-    let isSkipped = false;
-    let score = 0;
-
-    // Check if answer is provided
-    if (!answer.userAnswer || 
-        (Array.isArray(answer.userAnswer) && answer.userAnswer.length === 0) ||
-        answer.userAnswer === '') {
-      isSkipped = true;
-      skippedAnswers++;
-    } else {
-      // Compare with correct answer based on question type
-      if (question.type === 'MULTIPLE_CHOICE' || question.type === 'SINGLE_CHOICE') {
-        isCorrect = answer.userAnswer === question.correctAnswer;
-      } else if (question.type === 'TRUE_FALSE') {
-        isCorrect = answer.userAnswer === question.correctAnswer;
-      } else if (question.type === 'NUMERICAL') {
-        const userAnswerStr = String(answer.userAnswer);
-        const correctAnswerStr = String(question.correctAnswer);
-        isCorrect = parseFloat(userAnswerStr) === parseFloat(correctAnswerStr);
-      }
-
-      if (isCorrect) {
-        score = Number(question.marks);
-        correctAnswers++;
-      } else {
-        score = -Number(question.negativeMarks);
-        incorrectAnswers++;
-      }
-    }
+  // Practice answers are only recorded when they are checked, adaptive ones when answered
+  const answers = attempt.isPractice || testSeries.isAdaptive ? [] : progress.answers;
+  const savedAttempt = await saveAttemptProgress(
+    attempt.id,
+    {
+      ...progress,
+      answers: openQuestionIds
+        ? answers.filter(answer => openQuestionIds.has(answer.questionId))
+        : answers,
+    },
+    parseQuestionsOrder(attempt.questionsOrder)
+  );
 
-    totalScore += score;
-
-    // Store question attempt
-    questionAnswers.push({
-      questionId: question.id,
-      userAnswer: answer.userAnswer,
-      isCorrect,
-      isSkipped,
-      isMarked: answer.isMarked,
-      timeTaken: answer.timeTaken,
-      marksAwarded: score,
-    });
-  }
+  return sendSuccess({
+    attemptId: savedAttempt.id,
+    savedAt: savedAttempt.lastSavedAt,
+    timeRemaining,
+    sectionState: serializeSectionState(savedAttempt, testSeries.sections, windowEnd),
+  });
+});
+
+// PUT handler - Submit exam attempt
+const putHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: attemptParamsSchema,
+    query: attemptQuerySchema,
+    body: submitAttemptSchema,
+  },
+});
 
-  const percentage = (totalScore / testSeries.totalMarks) * 100;
-  const isPassed = totalScore >= testSeries.passingMarks;
+export const PUT = putHandler(async (request, context) => {
+  const { id: examId } = context?.params || {};
+  
+  if (!examId) {
+    return sendError('Exam ID is required', 400);
+  }
+  const { answers } = request.body!;
+  const { testSeriesId } = request.query as AttemptQueryParams;
+  const user = request.user!;
 
-  // Update attempt with results
-  const completedAttempt = await prisma.testAttempt.update({
-    where: { id: attempt.id },
-    data: {
-      completedAt: new Date(),
-      score: totalScore,
-      percentage,
-      isPassed,
-      correctAnswers,
-      incorrectAnswers,
-      skippedQuestions: skippedAnswers,
+  // Get the exam with the requested test series
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+    include: {
+      testSeries: {
+        where: { id: testSeriesId },
+        include: {
+          questions: true,
+          sections: { orderBy: { order: 'asc' } },
+          liveTest: { select: { endTime: true, resultsReleasedAt: true } },
+        },
+      },
     },
   });
 
-  // Create question attempts
-  await prisma.questionAttempt.createMany({
-    data: questionAnswers.map(qa => ({
-      testAttemptId: attempt.id,
-      ...qa,
-    })),
+  if (!exam || !exam.testSeries?.[0]) {
+    return sendError('Exam or test series not found', 404);
+  }
+
+  const testSeries = exam.testSeries[0];
+
+  // Get the active attempt
+  const attempt = await prisma.testAttempt.findFirst({
+    where: {
+      userId: user.id,
+      testSeriesId: testSeries.id,
+      completedAt: null,
+    },
   });
 
+  if (!attempt) {
+    return sendError('No active attempt found', 404);
+  }
+
+  // Past the deadline only the answers saved in time are graded
+  const { attempt: completedAttempt, graded, autoSubmitted } = await completeTestAttempt(
+    attempt,
+    { ...testSeries, exam },
+    answers
+  );
+
+  // Scores stay hidden until the exam's result settings, or the live test, release them
+  const embargo = getResultsEmbargo(exam) ?? getLiveResultEmbargo(testSeries.liveTest);
+  if (embargo) {
+    return sendSuccess({
+      result: {
+        attemptId: completedAttempt.id,
+        resultsReleased: false,
+        resultsMessage: embargo,
+        autoSubmitted,
+        timeTaken: completedAttempt.timeSpent,
+        completedAt: completedAttempt.completedAt,
+      },
+    });
+  }
+
   return sendSuccess({
     result: {
       attemptId: completedAttempt.id,
-      score: totalScore,
-      totalMarks: testSeries.totalMarks,
-      percentage,
-      isPassed,
-      correctAnswers,
-      incorrectAnswers,
-      skippedAnswers,
-      timeTaken: Math.floor((now.getTime() - attempt.startedAt.getTime()) / 1000),
+      score: graded.score,
+      totalMarks: testSeries.isAdaptive ? graded.maxScore : testSeries.totalMarks,
+      percentage: completedAttempt.percentage,
+      isPassed: completedAttempt.isPassed,
+      negativeMarks: graded.negativeMarks,
+      correctAnswers: graded.correctAnswers,
+      incorrectAnswers: graded.incorrectAnswers,
+      skippedAnswers: graded.skippedQuestions,
+      pendingReview: graded.pendingReview,
+      resultsReleased: completedAttempt.resultsReleasedAt !== null,
+      autoSubmitted,
+      rank: completedAttempt.rank,
+      percentile: completedAttempt.percentile,
+      ability: getAttemptAbility(completedAttempt),
+      timeTaken: completedAttempt.timeSpent,
       completedAt: completedAttempt.completedAt,
     },
   });
-});
\ No newline at end of file
+});
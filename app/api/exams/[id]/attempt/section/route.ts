@@ -0,0 +1,141 @@
+/**
+ * Exam Attempt Section API Route
+ *
+ * Moves a sectional attempt on to its next section, either because the
+ * student finished the current one early or because its timer ran out, and
+ * serves the next section's questions. Closed sections cannot be reopened.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { advanceSectionSchema, type AdvanceSectionFormData } from '@/lib/validations/exam';
+import {
+  advanceAttemptSection,
+  closeExpiredAttempts,
+  getAttemptDeadline,
+  getAttemptWindowEnd,
+  getSecondsRemaining,
+  getServedQuestions,
+  isAttemptExpired,
+  serializeSectionState,
+} from '@/lib/exam-attempt';
+import { parseQuestionsOrder } from '@/lib/randomization';
+
+// Params validation schema
+const sectionParamsSchema = z.object({
+  id: z.string().cuid('Invalid exam ID'),
+});
+
+// Query validation schema - the test series being attempted within the exam
+const sectionQuerySchema = z.object({
+  testSeriesId: z.string().cuid('Invalid test series ID'),
+});
+
+// POST handler - Move on to the next section
+const postHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: sectionParamsSchema,
+    query: sectionQuerySchema,
+    body: advanceSectionSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id: examId } = context?.params || {};
+
+  if (!examId) {
+    return sendError('Exam ID is required', 400);
+  }
+  const { fromSection } = request.body as AdvanceSectionFormData;
+  const { testSeriesId } = request.query as z.infer<typeof sectionQuerySchema>;
+  const user = request.user!;
+
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+    include: {
+      testSeries: {
+        where: { id: testSeriesId },
+        include: {
+          questions: {
+            where: { isActive: true },
+            select: {
+              id: true,
+              title: true,
+              questionText: true,
+              type: true,
+              options: true,
+              marks: true,
+              negativeMarks: true,
+              difficulty: true,
+              sectionId: true,
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+          sections: { orderBy: { order: 'asc' } },
+          liveTest: { select: { endTime: true } },
+        },
+      },
+    },
+  });
+
+  if (!exam || !exam.testSeries?.[0]) {
+    return sendError('Exam or test series not found', 404);
+  }
+
+  const testSeries = exam.testSeries[0];
+
+  if (testSeries.sections.length === 0) {
+    return sendError('This test has no sections', 400);
+  }
+
+  const attempt = await prisma.testAttempt.findFirst({
+    where: {
+      userId: user.id,
+      testSeriesId: testSeries.id,
+      completedAt: null,
+    },
+  });
+
+  if (!attempt) {
+    return sendError('No active attempt found', 404);
+  }
+
+  if (attempt.isPractice) {
+    return sendError('Practice attempts take every section at once', 400);
+  }
+
+  const windowEnd = getAttemptWindowEnd(exam, testSeries.liveTest);
+  const endTime = getAttemptDeadline(attempt, testSeries, windowEnd);
+  if (endTime && getSecondsRemaining(endTime) === 0) {
+    if (isAttemptExpired(endTime)) {
+      await closeExpiredAttempts({ id: attempt.id });
+    }
+    return sendError('Exam time has expired', 400);
+  }
+
+  if (fromSection >= testSeries.sections.length - 1) {
+    return sendError('This is the last section; submit the test to finish', 400);
+  }
+
+  const updated = await advanceAttemptSection(attempt, testSeries.sections, fromSection, windowEnd);
+  const sectionState = serializeSectionState(updated, testSeries.sections, windowEnd);
+  // Finishing a section early brings the end of the attempt forward
+  const newEndTime = getAttemptDeadline(updated, testSeries, windowEnd);
+
+  return sendSuccess({
+    attempt: {
+      id: updated.id,
+      endTime: newEndTime,
+      timeRemaining: newEndTime ? getSecondsRemaining(newEndTime) : null,
+      questions: getServedQuestions(
+        testSeries.questions,
+        parseQuestionsOrder(updated.questionsOrder),
+        testSeries.sections,
+        sectionState
+      ),
+      sectionState,
+    },
+  });
+});
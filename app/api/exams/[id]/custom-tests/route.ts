@@ -0,0 +1,140 @@
+/**
+ * Custom Tests API Route
+ *
+ * Lets students build personal practice tests from the question bank under a
+ * CUSTOM_TEST exam, and lists the ones they have built. Custom tests are
+ * attempted through the regular exam attempt API.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { checkEntitlement, createPaymentRequiredError } from '@/lib/entitlements';
+import { getAttemptLimits, summarizeSeriesAttempts } from '@/lib/exam-attempt';
+import { createCustomTest, selectCustomTestQuestions } from '@/lib/custom-tests';
+import { generateSeed } from '@/lib/randomization';
+import { customTestSchema, type CustomTestFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const customTestParamsSchema = z.object({
+  id: z.string().cuid('Invalid exam ID'),
+});
+
+// GET handler - List the current user's custom tests for the exam
+const getHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: customTestParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id: examId } = context?.params || {};
+
+  if (!examId) {
+    return sendError('Exam ID is required', 400);
+  }
+  const user = request.user!;
+
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+    include: {
+      testSeries: {
+        where: { isPersonal: true, creatorId: user.id },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          attempts: {
+            where: { userId: user.id },
+            orderBy: { startedAt: 'desc' },
+            select: { id: true, completedAt: true, score: true, percentage: true, rank: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!exam || exam.type !== 'CUSTOM_TEST') {
+    return sendError('Exam not found', 404);
+  }
+
+  return sendSuccess({
+    testSeries: exam.testSeries.map(series => ({
+      id: series.id,
+      title: series.title,
+      subjects: series.tags,
+      duration: series.duration,
+      totalQuestions: series.totalQuestions,
+      totalMarks: series.totalMarks,
+      createdAt: series.createdAt,
+      userStatus: summarizeSeriesAttempts(series.attempts, getAttemptLimits(exam, series)),
+    })),
+  });
+});
+
+// POST handler - Build a custom test from unseen bank questions
+const postHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: customTestParamsSchema,
+    body: customTestSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id: examId } = context?.params || {};
+
+  if (!examId) {
+    return sendError('Exam ID is required', 400);
+  }
+  const spec = request.body as CustomTestFormData;
+  const user = request.user!;
+
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+  });
+
+  if (!exam || exam.type !== 'CUSTOM_TEST') {
+    return sendError('Exam not found', 404);
+  }
+
+  if (!exam.isPublished) {
+    return sendError('Exam is not available', 400);
+  }
+
+  const now = new Date();
+  if (exam.endDate && exam.endDate < now) {
+    return sendError('Exam has ended', 400);
+  }
+
+  // The exam is what students pay for to build tests from the bank
+  const entitlement = await checkEntitlement(user, { type: 'exam', id: exam.id });
+  if (!entitlement.granted) {
+    return sendError(createPaymentRequiredError(entitlement, 'Purchase this exam or subscribe to build custom tests'));
+  }
+
+  const seed = generateSeed();
+  const questionIds = await selectCustomTestQuestions(user, spec, seed, now);
+
+  if (questionIds.length < spec.questionCount) {
+    return sendError(
+      `Only ${questionIds.length} unseen questions match your selection; ask for fewer questions or widen the subjects and topics`,
+      422
+    );
+  }
+
+  const testSeries = await createCustomTest(user.id, exam, spec, questionIds, seed);
+
+  return sendSuccess({
+    testSeries: {
+      id: testSeries.id,
+      examId: exam.id,
+      title: testSeries.title,
+      subjects: testSeries.tags,
+      duration: testSeries.duration,
+      totalQuestions: testSeries.totalQuestions,
+      totalMarks: testSeries.totalMarks,
+      passingMarks: testSeries.passingMarks,
+      createdAt: testSeries.createdAt,
+    },
+  }, undefined, 201);
+});
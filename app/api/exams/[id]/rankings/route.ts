@@ -0,0 +1,49 @@
+/**
+ * Exam Rankings API Route
+ * 
+ * Batch close of expired attempts and recompute of ranks, percentiles and
+ * test series statistics.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { closeExpiredAttempts } from '@/lib/exam-attempt';
+import { recomputeExamRankings } from '@/lib/rankings';
+
+// Params validation schema
+const rankingsParamsSchema = z.object({
+  id: z.string().cuid('Invalid exam ID'),
+});
+
+// POST handler - Recompute rankings for every test series of the exam
+const postHandler = createApiRoute({
+  requireAuth: true,
+  requiredRole: 'ADMIN',
+  validation: {
+    params: rankingsParamsSchema,
+  },
+});
+
+export const POST = postHandler(async (_request, context) => {
+  const { id: examId } = context?.params || {};
+
+  if (!examId) {
+    return sendError('Exam ID is required', 400);
+  }
+
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+    select: { id: true },
+  });
+
+  if (!exam) {
+    return sendError('Exam not found', 404);
+  }
+
+  // Abandoned attempts are graded first so they take part in the ranking
+  const closedAttempts = await closeExpiredAttempts({ testSeries: { examId: exam.id } });
+  const testSeries = await recomputeExamRankings(exam.id);
+
+  return sendSuccess({ closedAttempts, testSeries });
+});
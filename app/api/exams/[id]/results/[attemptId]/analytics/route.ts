@@ -0,0 +1,48 @@
+/**
+ * Exam Result Analytics API Route
+ *
+ * Returns the detailed post-test analytics for a completed attempt: subject,
+ * topic, subtopic and difficulty breakdowns, time per question against the
+ * topper and the average, accuracy against attempt rate and recommendations.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { getAttemptAccess } from '@/lib/attempt-review';
+import { buildAttemptAnalytics } from '@/lib/test-analytics';
+
+// Params validation schema
+const analyticsParamsSchema = z.object({
+  id: z.string().cuid('Invalid exam ID'),
+  attemptId: z.string().cuid('Invalid attempt ID'),
+});
+
+// GET handler - Get attempt analytics
+const getHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: analyticsParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id: examId, attemptId } = context?.params || {};
+
+  if (!examId || !attemptId) {
+    return sendError('Exam ID and attempt ID are required', 400);
+  }
+  const user = request.user!;
+
+  const access = await getAttemptAccess(examId, attemptId, user, { requireResults: true });
+  if (!access.granted) {
+    return sendError(access.error);
+  }
+
+  const payload = await buildAttemptAnalytics(attemptId);
+
+  if (!payload) {
+    return sendError('Attempt not found', 404);
+  }
+
+  return sendSuccess(payload);
+});
@@ -0,0 +1,140 @@
+/**
+ * Question Issue Report API Route
+ *
+ * Lets students report a problem (wrong answer key, typo, ...) with a
+ * question they answered in a submitted attempt, and list their reports.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { reportQuestionIssueSchema, type ReportQuestionIssueFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const issueParamsSchema = z.object({
+  id: z.string().cuid('Invalid exam ID'),
+  attemptId: z.string().cuid('Invalid attempt ID'),
+});
+
+/**
+ * Load one of the user's attempts, checking it belongs to the exam
+ */
+async function findOwnAttempt(examId: string, attemptId: string, userId: string) {
+  const attempt = await prisma.testAttempt.findUnique({
+    where: { id: attemptId },
+    select: {
+      id: true,
+      userId: true,
+      completedAt: true,
+      testSeries: { select: { examId: true } },
+    },
+  });
+
+  if (!attempt || attempt.testSeries.examId !== examId || attempt.userId !== userId) {
+    return null;
+  }
+
+  return attempt;
+}
+
+// GET handler - List the user's reports for an attempt
+const getHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: issueParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id: examId, attemptId } = context?.params || {};
+
+  if (!examId || !attemptId) {
+    return sendError('Exam ID and attempt ID are required', 400);
+  }
+  const user = request.user!;
+
+  const attempt = await findOwnAttempt(examId, attemptId, user.id);
+
+  if (!attempt) {
+    return sendError('Attempt not found', 404);
+  }
+
+  const reports = await prisma.questionIssueReport.findMany({
+    where: { questionAttempt: { testAttemptId: attemptId } },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      questionId: true,
+      type: true,
+      description: true,
+      status: true,
+      resolutionNote: true,
+      resolvedAt: true,
+      createdAt: true,
+    },
+  });
+
+  return sendSuccess(reports);
+});
+
+// POST handler - Report an issue with a question
+const postHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: issueParamsSchema,
+    body: reportQuestionIssueSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id: examId, attemptId } = context?.params || {};
+
+  if (!examId || !attemptId) {
+    return sendError('Exam ID and attempt ID are required', 400);
+  }
+  const { questionId, type, description } = request.body as ReportQuestionIssueFormData;
+  const user = request.user!;
+
+  const attempt = await findOwnAttempt(examId, attemptId, user.id);
+
+  if (!attempt) {
+    return sendError('Attempt not found', 404);
+  }
+
+  // Reporting during the test would leak hints through the triage notes
+  if (!attempt.completedAt) {
+    return sendError('Issues can be reported once the attempt is submitted', 400);
+  }
+
+  const questionAttempt = await prisma.questionAttempt.findUnique({
+    where: {
+      testAttemptId_questionId: { testAttemptId: attemptId, questionId },
+    },
+    select: {
+      id: true,
+      questionVersion: true,
+      issueReports: { select: { id: true } },
+    },
+  });
+
+  if (!questionAttempt) {
+    return sendError('You can only report questions you answered in this attempt', 404);
+  }
+
+  if (questionAttempt.issueReports.length > 0) {
+    return sendError('You have already reported this question', 409);
+  }
+
+  const report = await prisma.questionIssueReport.create({
+    data: {
+      questionAttemptId: questionAttempt.id,
+      questionId,
+      userId: user.id,
+      questionVersion: questionAttempt.questionVersion,
+      type,
+      description: description.trim(),
+    },
+  });
+
+  return sendSuccess(report, undefined, 201);
+});
@@ -0,0 +1,63 @@
+/**
+ * Exam Answer Review API Route
+ *
+ * Returns a submitted attempt question by question: the student's answer,
+ * time taken and, as the exam's result settings allow, correctness, the
+ * correct answer and the explanation. The student's own bookmarks are
+ * included so questions can be bookmarked from the review screen.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { buildAttemptReview, getAttemptAccess } from '@/lib/attempt-review';
+import { getReviewBookmarks } from '@/lib/bookmarks';
+
+// Params validation schema
+const reviewParamsSchema = z.object({
+  id: z.string().cuid('Invalid exam ID'),
+  attemptId: z.string().cuid('Invalid attempt ID'),
+});
+
+// GET handler - Review an attempt
+const getHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: reviewParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id: examId, attemptId } = context?.params || {};
+
+  if (!examId || !attemptId) {
+    return sendError('Exam ID and attempt ID are required', 400);
+  }
+  const user = request.user!;
+
+  // Before results are visible students still see their own answers, without the key
+  const access = await getAttemptAccess(examId, attemptId, user, { requireResults: false });
+  if (!access.granted) {
+    return sendError(access.error);
+  }
+
+  const review = await buildAttemptReview(attemptId, access.visibility);
+
+  if (!review) {
+    return sendError('Attempt not found', 404);
+  }
+
+  const bookmarks = access.isOwner
+    ? await getReviewBookmarks(user.id, review.questions.map(question => question.questionId))
+    : new Map();
+
+  return sendSuccess({
+    ...review,
+    questions: review.questions.map(question => {
+      const bookmark = bookmarks.get(question.questionId);
+      return {
+        ...question,
+        bookmark: bookmark ? { id: bookmark.id, note: bookmark.note, tags: bookmark.tags } : null,
+      };
+    }),
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Exam Result API Route
+ * 
+ * Returns the result, rank and peer comparison for a completed attempt.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { getAttemptAccess } from '@/lib/attempt-review';
+import { buildAttemptResult } from '@/lib/test-results';
+
+// Params validation schema
+const resultParamsSchema = z.object({
+  id: z.string().cuid('Invalid exam ID'),
+  attemptId: z.string().cuid('Invalid attempt ID'),
+});
+
+// GET handler - Get attempt result
+const getHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: resultParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id: examId, attemptId } = context?.params || {};
+
+  if (!examId || !attemptId) {
+    return sendError('Exam ID and attempt ID are required', 400);
+  }
+  const user = request.user!;
+
+  const access = await getAttemptAccess(examId, attemptId, user, { requireResults: true });
+  if (!access.granted) {
+    return sendError(access.error);
+  }
+
+  const payload = await buildAttemptResult(attemptId);
+
+  if (!payload) {
+    return sendError('Attempt not found', 404);
+  }
+
+  return sendSuccess(payload);
+});
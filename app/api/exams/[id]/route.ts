@@ -7,10 +7,12 @@
 import { z } from 'zod';
 import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
 import { prisma } from '@/lib/prisma';
+import { getAttemptLimits, summarizeSeriesAttempts } from '@/lib/exam-attempt';
+import { toResultVisibilityData } from '@/lib/attempt-review';
 
 // Params validation schema
 const examParamsSchema = z.object({
-  id: z.string().uuid('Invalid exam ID'),
+  id: z.string().cuid('Invalid exam ID'),
 });
 
 // Update exam schema
@@ -32,6 +34,9 @@ const updateExamSchema = z.object({
   instructions: z.string().optional(),
   isPublished: z.boolean().optional(),
   showResultsImmediately: z.boolean().optional(),
+  showResults: z.enum(['IMMEDIATE', 'AFTER_END_TIME', 'NEVER']).optional(),
+  proctoringEnabled: z.boolean().optional(),
+  violationLimit: z.number().int('Violation limit must be a whole number').min(1, 'Violation limit must be at least 1').max(50, 'Violation limit cannot exceed 50').nullable().optional(), // null never submits
   allowReview: z.boolean().optional(),
   tags: z.array(z.string()).optional(),
 });
@@ -49,22 +54,14 @@ export const GET = getHandler(async (request, { params }) => {
   const exam = await prisma.exam.findUnique({
     where: { id },
     include: {
-      category: {
-        select: { name: true, slug: true },
-      },
-      questions: {
-        select: {
-          id: true,
-          title: true,
-          type: true,
-          difficulty: true,
-          marks: true,
-          negativeMarks: true,
-        },
+      testSeries: {
+        where: { isPublished: true, isPersonal: false },
         orderBy: { createdAt: 'asc' },
-      },
-      _count: {
-        select: { attempts: true },
+        include: {
+          _count: {
+            select: { questions: true },
+          },
+        },
       },
     },
   });
@@ -91,17 +88,49 @@ export const GET = getHandler(async (request, { params }) => {
     isAvailable = false;
   }
 
-  // Check if user has attempted this exam
-  let userAttempt = null;
-  if (request.user) {
-    userAttempt = await prisma.testAttempt.findFirst({
-      where: {
-        userId: request.user.id,
-        examId: exam.id,
-      },
-      orderBy: { startedAt: 'desc' },
-    });
-  }
+  // Get the user's attempts on every listed test series
+  const userAttempts = request.user
+    ? await prisma.testAttempt.findMany({
+        where: {
+          userId: request.user.id,
+          testSeriesId: { in: exam.testSeries.map(series => series.id) },
+        },
+        orderBy: { startedAt: 'desc' },
+        select: {
+          id: true,
+          testSeriesId: true,
+          completedAt: true,
+          score: true,
+          percentage: true,
+          rank: true,
+        },
+      })
+    : [];
+
+  const testSeries = exam.testSeries.map(series => ({
+    id: series.id,
+    title: series.title,
+    description: series.description,
+    slug: series.slug,
+    type: series.type,
+    isFree: series.isFree,
+    price: series.price,
+    language: series.language,
+    duration: series.duration,
+    totalQuestions: series._count.questions,
+    totalMarks: series.totalMarks,
+    passingMarks: series.passingMarks,
+    allowRetakes: series.allowRetakes,
+    maxAttempts: getAttemptLimits(exam, series).maxAttempts,
+    totalAttempts: series.totalAttempts,
+    averageScore: series.averageScore,
+    userStatus: request.user
+      ? summarizeSeriesAttempts(
+          userAttempts.filter(attempt => attempt.testSeriesId === series.id),
+          getAttemptLimits(exam, series)
+        )
+      : null,
+  }));
 
   return sendSuccess({
     exam: {
@@ -122,18 +151,15 @@ export const GET = getHandler(async (request, { params }) => {
       instructions: exam.instructions,
       isPublished: exam.isPublished,
       showResultsImmediately: exam.showResultsImmediately,
+      showResults: exam.showResults,
+      proctoringEnabled: exam.proctoringEnabled,
+      violationLimit: exam.violationLimit,
       allowReview: exam.allowReview,
       tags: exam.tags,
-      category: exam.category,
-      questions: exam.questions,
-      attemptCount: exam._count.attempts,
+      categoryId: exam.categoryId,
+      testSeries,
+      attemptCount: exam.testSeries.reduce((sum, series) => sum + series.totalAttempts, 0),
       isAvailable,
-      userAttempt: userAttempt ? {
-        id: userAttempt.id,
-        score: userAttempt.score,
-        percentage: userAttempt.percentage,
-        completedAt: userAttempt.completedAt,
-      } : null,
       createdAt: exam.createdAt,
       updatedAt: exam.updatedAt,
     },
@@ -192,6 +218,7 @@ export const PUT = putHandler(async (request, { params }) => {
   // Prepare update data
   const updateDataWithDates = {
     ...updateData,
+    ...toResultVisibilityData(updateData),
     ...(updateData.startDate && { startDate: new Date(updateData.startDate) }),
     ...(updateData.endDate && { endDate: new Date(updateData.endDate) }),
   };
@@ -226,6 +253,9 @@ export const PUT = putHandler(async (request, { params }) => {
       instructions: updatedExam.instructions,
       isPublished: updatedExam.isPublished,
       showResultsImmediately: updatedExam.showResultsImmediately,
+      showResults: updatedExam.showResults,
+      proctoringEnabled: updatedExam.proctoringEnabled,
+      violationLimit: updatedExam.violationLimit,
       allowReview: updatedExam.allowReview,
       tags: updatedExam.tags,
       category: updatedExam.category,
@@ -7,6 +7,7 @@
 import { z } from 'zod';
 import { createApiRoute, sendSuccess, parsePagination, createPaginationMeta } from '@/lib/api-utils';
 import { prisma } from '@/lib/prisma';
+import { toResultVisibilityData } from '@/lib/attempt-review';
 
 // Query validation schema
 const examsQuerySchema = z.object({
@@ -39,7 +40,11 @@ const createExamSchema = z.object({
   endDate: z.string().datetime('Invalid end date').optional(),
   instructions: z.string().optional(),
   isPublished: z.boolean().default(false),
+  maxAttempts: z.number().int('Maximum attempts must be a whole number').min(1, 'Maximum attempts must be at least 1').optional(),
   showResultsImmediately: z.boolean().default(true),
+  showResults: z.enum(['IMMEDIATE', 'AFTER_END_TIME', 'NEVER']).optional(),
+  proctoringEnabled: z.boolean().default(false),
+  violationLimit: z.number().int('Violation limit must be a whole number').min(1, 'Violation limit must be at least 1').max(50, 'Violation limit cannot exceed 50').nullable().optional(), // null never submits
   allowReview: z.boolean().default(true),
   tags: z.array(z.string()).default([]),
 });
@@ -178,6 +183,7 @@ export const POST = postHandler(async (request) => {
   const exam = await prisma.exam.create({
     data: {
       ...examData,
+      ...toResultVisibilityData(examData),
       startDate: examData.startDate ? new Date(examData.startDate) : null,
       endDate: examData.endDate ? new Date(examData.endDate) : null,
       createdBy: user.id,
@@ -208,6 +214,9 @@ export const POST = postHandler(async (request) => {
       instructions: exam.instructions,
       isPublished: exam.isPublished,
       showResultsImmediately: exam.showResultsImmediately,
+      showResults: exam.showResults,
+      proctoringEnabled: exam.proctoringEnabled,
+      violationLimit: exam.violationLimit,
       allowReview: exam.allowReview,
       tags: exam.tags,
       category: exam.category,
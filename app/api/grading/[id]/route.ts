@@ -0,0 +1,159 @@
+/**
+ * Grade Answer API Route
+ * 
+ * Handles viewing and grading a single descriptive answer.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { gradeQuestionAttempt } from '@/lib/grading';
+import { gradeAnswerSchema, type GradeAnswerFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const gradingParamsSchema = z.object({
+  id: z.string().cuid('Invalid answer ID'),
+});
+
+/**
+ * Load a submitted descriptive answer with the details needed to grade it
+ */
+async function findGradableAnswer(id: string) {
+  return prisma.questionAttempt.findFirst({
+    where: {
+      id,
+      question: { type: 'DESCRIPTIVE' },
+      testAttempt: { completedAt: { not: null } },
+    },
+    include: {
+      question: {
+        select: {
+          id: true,
+          questionText: true,
+          correctAnswer: true,
+          explanation: true,
+          marks: true,
+          testSeries: {
+            select: { id: true, title: true, creatorId: true },
+          },
+        },
+      },
+      // Content as answered, when the question has been edited since
+      revision: {
+        select: {
+          questionText: true,
+          correctAnswer: true,
+          explanation: true,
+          marks: true,
+        },
+      },
+    },
+  });
+}
+
+// GET handler - Get answer for grading
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredRole: 'INSTRUCTOR',
+  validation: {
+    params: gradingParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Answer ID is required', 400);
+  }
+  const user = request.user!;
+
+  const answer = await findGradableAnswer(id);
+
+  if (!answer) {
+    return sendError('Answer not found', 404);
+  }
+
+  const { testSeries, ...current } = answer.question;
+  const question = { ...current, ...answer.revision, version: answer.questionVersion };
+
+  if (!hasPermission(user, 'content:moderate') && user.id !== testSeries.creatorId) {
+    return sendError('You do not have permission to grade this answer', 403);
+  }
+
+  return sendSuccess({
+    answer: {
+      id: answer.id,
+      testAttemptId: answer.testAttemptId,
+      question: {
+        ...question,
+        modelAnswer: question.correctAnswer,
+      },
+      testSeries: { id: testSeries.id, title: testSeries.title },
+      userAnswer: answer.userAnswer,
+      timeTaken: answer.timeTaken,
+      gradingStatus: answer.gradingStatus,
+      marksAwarded: answer.marksAwarded,
+      rubric: answer.rubricScores,
+      feedback: answer.feedback,
+      gradedAt: answer.gradedAt,
+    },
+  });
+});
+
+// PATCH handler - Award marks
+const patchHandler = createApiRoute({
+  requireAuth: true,
+  requiredRole: 'INSTRUCTOR',
+  validation: {
+    params: gradingParamsSchema,
+    body: gradeAnswerSchema,
+  },
+});
+
+export const PATCH = patchHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Answer ID is required', 400);
+  }
+  const grade = request.body as GradeAnswerFormData;
+  const user = request.user!;
+
+  const answer = await findGradableAnswer(id);
+
+  if (!answer) {
+    return sendError('Answer not found', 404);
+  }
+
+  if (!hasPermission(user, 'content:moderate') && user.id !== answer.question.testSeries.creatorId) {
+    return sendError('You do not have permission to grade this answer', 403);
+  }
+
+  const maxMarks = Number((answer.revision ?? answer.question).marks);
+
+  if (grade.marksAwarded > maxMarks) {
+    return sendError(`Marks awarded cannot exceed ${maxMarks}`, 400);
+  }
+
+  const { questionAttempt, testAttempt } = await gradeQuestionAttempt(id, user.id, grade, maxMarks);
+
+  return sendSuccess({
+    answer: {
+      id: questionAttempt.id,
+      gradingStatus: questionAttempt.gradingStatus,
+      marksAwarded: questionAttempt.marksAwarded,
+      rubric: questionAttempt.rubricScores,
+      feedback: questionAttempt.feedback,
+      gradedAt: questionAttempt.gradedAt,
+    },
+    attempt: {
+      id: testAttempt.id,
+      score: testAttempt.score,
+      percentage: testAttempt.percentage,
+      isPassed: testAttempt.isPassed,
+      pendingReview: testAttempt.pendingReview,
+      resultsReleased: testAttempt.resultsReleasedAt !== null,
+    },
+  });
+});
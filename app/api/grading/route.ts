@@ -0,0 +1,93 @@
+/**
+ * Grading Queue API Route
+ * 
+ * Lists submitted descriptive answers awaiting manual grading.
+ */
+
+import { createApiRoute, sendSuccess, parsePagination, createPaginationMeta, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { buildGradingQueueWhere } from '@/lib/grading';
+import { gradingQueueSchema, type GradingQueueFormData } from '@/lib/validations/exam';
+
+// GET handler - List grading queue
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredRole: 'INSTRUCTOR',
+  validation: {
+    query: gradingQueueSchema,
+  },
+});
+
+export const GET = getHandler(async (request) => {
+  const query = request.query as GradingQueueFormData;
+  const user = request.user!;
+  const { skip, take } = parsePagination(request.query!);
+
+  // Instructors only see answers for their own test series; moderators see all
+  const where = buildGradingQueueWhere({
+    status: query.status,
+    ...(!hasPermission(user, 'content:moderate') && { creatorId: user.id }),
+    ...(query.testSeriesId && { testSeriesId: query.testSeriesId }),
+    ...(query.questionId && { questionId: query.questionId }),
+  });
+
+  const [answers, total] = await Promise.all([
+    prisma.questionAttempt.findMany({
+      where,
+      skip,
+      take,
+      // Oldest submissions first
+      orderBy: { testAttempt: { completedAt: 'asc' } },
+      include: {
+        question: {
+          select: {
+            id: true,
+            questionText: true,
+            marks: true,
+            subject: true,
+            topic: true,
+            testSeries: {
+              select: { id: true, title: true },
+            },
+          },
+        },
+        revision: {
+          select: { questionText: true, marks: true },
+        },
+        testAttempt: {
+          select: { id: true, completedAt: true },
+        },
+      },
+    }),
+    prisma.questionAttempt.count({ where }),
+  ]);
+
+  return sendSuccess(
+    answers.map((answer) => ({
+      id: answer.id,
+      testAttemptId: answer.testAttempt.id,
+      submittedAt: answer.testAttempt.completedAt,
+      question: {
+        id: answer.question.id,
+        questionText: (answer.revision ?? answer.question).questionText,
+        marks: (answer.revision ?? answer.question).marks,
+        version: answer.questionVersion,
+        subject: answer.question.subject,
+        topic: answer.question.topic,
+      },
+      testSeries: answer.question.testSeries,
+      userAnswer: answer.userAnswer,
+      timeTaken: answer.timeTaken,
+      gradingStatus: answer.gradingStatus,
+      marksAwarded: answer.marksAwarded,
+      rubric: answer.rubricScores,
+      feedback: answer.feedback,
+      gradedAt: answer.gradedAt,
+    })),
+    createPaginationMeta(
+      parseInt(query.page || '1'),
+      take,
+      total
+    )
+  );
+});
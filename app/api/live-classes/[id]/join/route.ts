@@ -7,6 +7,7 @@
 import { z } from 'zod';
 import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
 import { prisma } from '@/lib/prisma';
+import { checkEntitlement, createPaymentRequiredError } from '@/lib/entitlements';
 
 // Params validation schema
 const joinParamsSchema = z.object({
@@ -44,6 +45,12 @@ export const POST = postHandler(async (request, { params }) => {
     return sendError('This is a private class', 403);
   }
 
+  // Paid classes require a purchase or a subscription that covers live classes
+  const entitlement = await checkEntitlement(user, { type: 'live_class', id: liveClassId });
+  if (!entitlement.granted) {
+    return sendError(createPaymentRequiredError(entitlement, 'Purchase this class or subscribe to join it'));
+  }
+
   if (liveClass.status === 'CANCELLED') {
     return sendError('This class has been cancelled', 400);
   }
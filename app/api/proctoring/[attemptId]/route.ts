@@ -0,0 +1,153 @@
+/**
+ * Proctoring Review API Route
+ *
+ * Shows an attempt's proctoring events and records the invigilator's
+ * decision: clear, flag, or exclude the attempt from the ranking.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { reviewAttemptProctoring } from '@/lib/proctoring';
+import { proctoringReviewSchema, type ProctoringReviewFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const proctoringParamsSchema = z.object({
+  attemptId: z.string().cuid('Invalid attempt ID'),
+});
+
+/**
+ * Load an attempt with the details needed to review its proctoring events
+ */
+async function findReviewableAttempt(id: string) {
+  return prisma.testAttempt.findUnique({
+    where: { id },
+    include: {
+      user: {
+        select: { id: true, fullName: true, email: true },
+      },
+      testSeries: {
+        select: {
+          id: true,
+          title: true,
+          creatorId: true,
+          exam: { select: { id: true, violationLimit: true } },
+        },
+      },
+      proctoringEvents: {
+        orderBy: { occurredAt: 'asc' },
+      },
+    },
+  });
+}
+
+// GET handler - Get attempt for proctoring review
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredRole: 'INSTRUCTOR',
+  validation: {
+    params: proctoringParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { attemptId } = context?.params || {};
+
+  if (!attemptId) {
+    return sendError('Attempt ID is required', 400);
+  }
+  const user = request.user!;
+
+  const attempt = await findReviewableAttempt(attemptId);
+
+  if (!attempt) {
+    return sendError('Attempt not found', 404);
+  }
+
+  const { creatorId, exam, ...testSeries } = attempt.testSeries;
+
+  if (!hasPermission(user, 'content:moderate') && user.id !== creatorId) {
+    return sendError('You do not have permission to review this attempt', 403);
+  }
+
+  return sendSuccess({
+    attempt: {
+      id: attempt.id,
+      user: attempt.user,
+      testSeries,
+      examId: exam.id,
+      startedAt: attempt.startedAt,
+      completedAt: attempt.completedAt,
+      score: attempt.completedAt ? attempt.score : null,
+      rank: attempt.rank,
+      violationCount: attempt.violationCount,
+      violationLimit: exam.violationLimit,
+      autoSubmittedAt: attempt.violationLimitReachedAt,
+      proctoringStatus: attempt.proctoringStatus,
+      proctoringNote: attempt.proctoringNote,
+      reviewedBy: attempt.proctoringReviewedBy,
+      reviewedAt: attempt.proctoringReviewedAt,
+    },
+    events: attempt.proctoringEvents.map(event => ({
+      id: event.id,
+      type: event.type,
+      severity: event.severity,
+      description: event.description,
+      details: event.details,
+      occurredAt: event.occurredAt,
+      receivedAt: event.receivedAt,
+    })),
+  });
+});
+
+// PATCH handler - Record the review decision
+const patchHandler = createApiRoute({
+  requireAuth: true,
+  requiredRole: 'INSTRUCTOR',
+  validation: {
+    params: proctoringParamsSchema,
+    body: proctoringReviewSchema,
+  },
+});
+
+export const PATCH = patchHandler(async (request, context) => {
+  const { attemptId } = context?.params || {};
+
+  if (!attemptId) {
+    return sendError('Attempt ID is required', 400);
+  }
+  const review = request.body as ProctoringReviewFormData;
+  const user = request.user!;
+
+  const attempt = await prisma.testAttempt.findUnique({
+    where: { id: attemptId },
+    include: {
+      testSeries: { select: { creatorId: true } },
+    },
+  });
+
+  if (!attempt) {
+    return sendError('Attempt not found', 404);
+  }
+
+  if (!hasPermission(user, 'content:moderate') && user.id !== attempt.testSeries.creatorId) {
+    return sendError('You do not have permission to review this attempt', 403);
+  }
+
+  if (attempt.proctoringStatus === 'NONE') {
+    return sendError('This attempt has no proctoring violations to review', 400);
+  }
+
+  const updated = await reviewAttemptProctoring(attempt, review, user.id);
+
+  return sendSuccess({
+    attempt: {
+      id: updated.id,
+      proctoringStatus: updated.proctoringStatus,
+      proctoringNote: updated.proctoringNote,
+      reviewedAt: updated.proctoringReviewedAt,
+      rank: updated.rank,
+      percentile: updated.percentile,
+    },
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Proctoring Review Queue API Route
+ *
+ * Lists attempts with proctoring violations for invigilator review.
+ */
+
+import { createApiRoute, sendSuccess, parsePagination, createPaginationMeta, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { buildProctoringQueueWhere } from '@/lib/proctoring';
+import { proctoringQueueSchema, type ProctoringQueueFormData } from '@/lib/validations/exam';
+
+// GET handler - List proctoring review queue
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredRole: 'INSTRUCTOR',
+  validation: {
+    query: proctoringQueueSchema,
+  },
+});
+
+export const GET = getHandler(async (request) => {
+  const query = request.query as ProctoringQueueFormData;
+  const user = request.user!;
+  const { skip, take } = parsePagination(request.query!);
+
+  // Instructors only see attempts at their own test series; moderators see all
+  const where = buildProctoringQueueWhere({
+    status: query.status,
+    ...(!hasPermission(user, 'content:moderate') && { creatorId: user.id }),
+    ...(query.testSeriesId && { testSeriesId: query.testSeriesId }),
+  });
+
+  const [attempts, total] = await Promise.all([
+    prisma.testAttempt.findMany({
+      where,
+      skip,
+      take,
+      // Most violations first
+      orderBy: [{ violationCount: 'desc' }, { startedAt: 'asc' }],
+      include: {
+        user: {
+          select: { id: true, fullName: true, email: true },
+        },
+        testSeries: {
+          select: { id: true, title: true },
+        },
+      },
+    }),
+    prisma.testAttempt.count({ where }),
+  ]);
+
+  // Violation breakdown by type for the listed attempts
+  const counts = await prisma.proctoringEvent.groupBy({
+    by: ['testAttemptId', 'type'],
+    where: { testAttemptId: { in: attempts.map(attempt => attempt.id) } },
+    _count: { _all: true },
+  });
+
+  return sendSuccess(
+    attempts.map((attempt) => ({
+      id: attempt.id,
+      user: attempt.user,
+      testSeries: attempt.testSeries,
+      startedAt: attempt.startedAt,
+      completedAt: attempt.completedAt,
+      violationCount: attempt.violationCount,
+      violationsByType: Object.fromEntries(counts
+        .filter(count => count.testAttemptId === attempt.id)
+        .map(count => [count.type, count._count._all])),
+      autoSubmitted: attempt.violationLimitReachedAt !== null,
+      proctoringStatus: attempt.proctoringStatus,
+      proctoringNote: attempt.proctoringNote,
+      reviewedAt: attempt.proctoringReviewedAt,
+      score: attempt.completedAt ? attempt.score : null,
+      rank: attempt.rank,
+    })),
+    createPaginationMeta(
+      parseInt(query.page || '1'),
+      take,
+      total
+    )
+  );
+});
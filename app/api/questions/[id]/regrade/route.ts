@@ -0,0 +1,81 @@
+/**
+ * Question Re-grade API Route
+ *
+ * Fixes a question's answer key (or any other field) as a new revision, then
+ * re-grades every submitted answer to it: marks, attempt scores, percentages
+ * and ranks are recomputed and affected students notified. Custom test copies
+ * are re-graded once the revision is approved. Pending issue reports on the
+ * question are resolved.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { regradeQuestion } from '@/lib/grading';
+import { mergeQuestionUpdate, reviseQuestion, toQuestionData } from '@/lib/question-bank';
+import { closeQuestionIssues } from '@/lib/question-issues';
+import { regradeQuestionSchema, type RegradeQuestionFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const questionParamsSchema = z.object({
+  id: z.string().cuid('Invalid question ID'),
+});
+
+// POST handler - Fix and re-grade
+const postHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:update'],
+  validation: {
+    params: questionParamsSchema,
+    body: regradeQuestionSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Question ID is required', 400);
+  }
+  const { note, ...updates } = request.body as RegradeQuestionFormData;
+  const user = request.user!;
+
+  // Deactivated questions are included: their past answers still count
+  const existing = await prisma.question.findUnique({ where: { id } });
+
+  if (!existing) {
+    return sendError('Question not found', 404);
+  }
+
+  if (existing.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to re-grade this question', 403);
+  }
+
+  if (existing.type === 'DESCRIPTIVE' || updates.type === 'DESCRIPTIVE') {
+    return sendError('Descriptive answers are graded manually; re-grade them from the grading queue', 400);
+  }
+
+  const merged = mergeQuestionUpdate(existing, updates);
+
+  if (!merged.success) {
+    return sendError(merged.error);
+  }
+
+  const question = await prisma.$transaction(async (tx) => {
+    const updated = await tx.question.update({
+      where: { id },
+      data: toQuestionData(merged.data),
+    });
+
+    return reviseQuestion(tx, existing, updated, user.id);
+  });
+
+  const summary = await regradeQuestion(question);
+  const resolvedReports = await closeQuestionIssues({ questionId: id }, 'RESOLVED', user.id, note?.trim() || null);
+
+  return sendSuccess({
+    question,
+    ...summary,
+    resolvedReports,
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Question Review API Route
+ *
+ * Approves or rejects the pending revision of a question. Approving verifies
+ * the question and brings its custom test copies up to the revision, re-grading
+ * their answers; rejecting leaves it unverified until its author edits it.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { syncQuestionCopies } from '@/lib/custom-tests';
+import { regradeQuestion } from '@/lib/grading';
+import { createNotification, NOTIFICATION_TYPES } from '@/lib/notifications';
+import { reviewQuestionSchema, type ReviewQuestionFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const questionParamsSchema = z.object({
+  id: z.string().cuid('Invalid question ID'),
+});
+
+// POST handler - Record a review decision
+const postHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['content:moderate'],
+  validation: {
+    params: questionParamsSchema,
+    body: reviewQuestionSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Question ID is required', 400);
+  }
+  const { version, decision, comment } = request.body as ReviewQuestionFormData;
+  const user = request.user!;
+
+  const question = await prisma.question.findUnique({
+    where: { id },
+    select: { id: true, version: true, creatorId: true, isActive: true, questionText: true },
+  });
+
+  if (!question || !question.isActive) {
+    return sendError('Question not found', 404);
+  }
+
+  // Reviews apply to what the reviewer saw; a newer edit needs its own review
+  if (version !== question.version) {
+    return sendError('The question has been edited since this revision; review the latest version', 409);
+  }
+
+  const now = new Date();
+  const approved = decision === 'APPROVE';
+
+  const reviewed = await prisma.$transaction(async (tx) => {
+    const updated = await tx.questionRevision.updateMany({
+      where: { questionId: id, version, status: 'PENDING' },
+      data: {
+        status: approved ? 'APPROVED' : 'REJECTED',
+        reviewedAt: now,
+        reviewedBy: user.id,
+        reviewComment: comment?.trim() || null,
+      },
+    });
+
+    if (updated.count === 0) {
+      return null;
+    }
+
+    const verified = approved
+      ? await tx.question.update({
+        where: { id },
+        data: { isVerified: true, verifiedAt: now, verifiedBy: user.id },
+      })
+      : null;
+    const copies = verified ? await syncQuestionCopies(tx, verified) : [];
+
+    const revision = await tx.questionRevision.findUniqueOrThrow({
+      where: { questionId_version: { questionId: id, version } },
+    });
+
+    return { revision, verified, copies };
+  });
+
+  if (!reviewed) {
+    return sendError('This revision is not awaiting review', 409);
+  }
+
+  const { revision, verified, copies } = reviewed;
+
+  if (verified && copies.length > 0) {
+    await regradeQuestion(verified);
+  }
+
+  if (question.creatorId !== user.id) {
+    const excerpt = question.questionText.length > 80
+      ? `${question.questionText.slice(0, 77)}...`
+      : question.questionText;
+
+    await createNotification(question.creatorId, {
+      type: NOTIFICATION_TYPES.QUESTION_REVIEW,
+      title: approved ? 'Question approved' : 'Question needs changes',
+      message: approved
+        ? `Your question "${excerpt}" has been verified.`
+        : `Your question "${excerpt}" was not approved: ${revision.reviewComment}`,
+      actionUrl: `/questions/${id}`,
+      actionText: approved ? 'View question' : 'Edit question',
+      metadata: {
+        questionId: id,
+        version,
+        decision,
+      },
+    });
+  }
+
+  return sendSuccess(revision);
+});
@@ -0,0 +1,61 @@
+/**
+ * Question Revisions API Route
+ *
+ * Lists the revision history of a question, newest first.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+
+// Params validation schema
+const questionParamsSchema = z.object({
+  id: z.string().cuid('Invalid question ID'),
+});
+
+// GET handler - List revisions
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:create'],
+  validation: {
+    params: questionParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Question ID is required', 400);
+  }
+  const user = request.user!;
+
+  const question = await prisma.question.findUnique({
+    where: { id },
+    select: { id: true, creatorId: true, version: true, isVerified: true },
+  });
+
+  if (!question) {
+    return sendError('Question not found', 404);
+  }
+
+  if (question.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to view this question', 403);
+  }
+
+  const revisions = await prisma.questionRevision.findMany({
+    where: { questionId: id },
+    orderBy: { version: 'desc' },
+    include: {
+      _count: {
+        select: { attempts: true },
+      },
+    },
+  });
+
+  return sendSuccess({
+    currentVersion: question.version,
+    isVerified: question.isVerified,
+    revisions,
+  });
+});
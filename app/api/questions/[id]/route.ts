@@ -0,0 +1,157 @@
+/**
+ * Question API Route
+ *
+ * Handles viewing, updating and soft-deleting a single question. Content
+ * edits create a new revision and send the question back for review.
+ */
+
+import { z } from 'zod';
+import type { AuthUser } from '@/types';
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import {
+  mergeQuestionUpdate,
+  reviseQuestion,
+  syncTestSeriesQuestionCount,
+  toQuestionData,
+} from '@/lib/question-bank';
+import { updateQuestionSchema, type UpdateQuestionFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const questionParamsSchema = z.object({
+  id: z.string().cuid('Invalid question ID'),
+});
+
+/**
+ * Question authors and moderators can manage a question
+ */
+function canManageQuestion(user: AuthUser, question: { creatorId: string }): boolean {
+  return question.creatorId === user.id || hasPermission(user, 'content:moderate');
+}
+
+// GET handler - Get question
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:create'],
+  validation: {
+    params: questionParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Question ID is required', 400);
+  }
+  const user = request.user!;
+
+  const question = await prisma.question.findUnique({
+    where: { id },
+    include: {
+      testSeries: {
+        select: { id: true, title: true, examId: true },
+      },
+    },
+  });
+
+  if (!question) {
+    return sendError('Question not found', 404);
+  }
+
+  if (!canManageQuestion(user, question)) {
+    return sendError('You do not have permission to view this question', 403);
+  }
+
+  return sendSuccess(question);
+});
+
+// PATCH handler - Update question
+const patchHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:update'],
+  validation: {
+    params: questionParamsSchema,
+    body: updateQuestionSchema,
+  },
+});
+
+export const PATCH = patchHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Question ID is required', 400);
+  }
+  const updates = request.body as UpdateQuestionFormData;
+  const user = request.user!;
+
+  const existing = await prisma.question.findUnique({ where: { id } });
+
+  if (!existing || !existing.isActive) {
+    return sendError('Question not found', 404);
+  }
+
+  if (!canManageQuestion(user, existing)) {
+    return sendError('You do not have permission to update this question', 403);
+  }
+
+  const merged = mergeQuestionUpdate(existing, updates);
+
+  if (!merged.success) {
+    return sendError(merged.error);
+  }
+
+  const question = await prisma.$transaction(async (tx) => {
+    const updated = await tx.question.update({
+      where: { id },
+      data: toQuestionData(merged.data),
+    });
+
+    return reviseQuestion(tx, existing, updated, user.id);
+  });
+
+  return sendSuccess(question);
+});
+
+// DELETE handler - Soft-delete question
+const deleteHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:update'],
+  validation: {
+    params: questionParamsSchema,
+  },
+});
+
+export const DELETE = deleteHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Question ID is required', 400);
+  }
+  const user = request.user!;
+
+  const existing = await prisma.question.findUnique({
+    where: { id },
+    select: { id: true, creatorId: true, testSeriesId: true, isActive: true },
+  });
+
+  if (!existing || !existing.isActive) {
+    return sendError('Question not found', 404);
+  }
+
+  if (!canManageQuestion(user, existing)) {
+    return sendError('You do not have permission to delete this question', 403);
+  }
+
+  // Past attempts keep referencing the question, so it is only deactivated
+  await prisma.$transaction(async (tx) => {
+    await tx.question.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    await syncTestSeriesQuestionCount(tx, existing.testSeriesId);
+  });
+
+  return sendSuccess({ message: 'Question deleted successfully' });
+});
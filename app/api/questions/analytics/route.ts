@@ -0,0 +1,98 @@
+/**
+ * Question Analytics API Route
+ *
+ * Runs the question analytics job and lists questions whose empirical
+ * difficulty disagrees with their declared difficulty.
+ */
+
+import { createApiRoute, sendSuccess, parsePagination, createPaginationMeta, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { buildQuestionBankWhere } from '@/lib/question-bank';
+import { recomputeQuestionAnalytics } from '@/lib/question-analytics';
+import {
+  flaggedQuestionsQuerySchema,
+  questionAnalyticsJobSchema,
+  type FlaggedQuestionsQueryFormData,
+  type QuestionAnalyticsJobFormData,
+} from '@/lib/validations/exam';
+
+// GET handler - List flagged questions
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:create'],
+  validation: {
+    query: flaggedQuestionsQuerySchema,
+  },
+});
+
+export const GET = getHandler(async (request) => {
+  const query = request.query as FlaggedQuestionsQueryFormData;
+  const user = request.user!;
+  const { skip, take } = parsePagination(request.query!);
+
+  // Instructors only see their own questions; moderators the whole bank
+  const onlyMine = !hasPermission(user, 'content:moderate') || query.mine === 'true';
+
+  const where = {
+    ...buildQuestionBankWhere({
+      ...(query.testSeriesId && { testSeriesId: query.testSeriesId }),
+      ...(query.subject && { subject: query.subject }),
+      ...(onlyMine && { createdBy: user.id }),
+    }),
+    suggestedDifficulty: { not: null },
+  };
+
+  const [questions, total] = await Promise.all([
+    prisma.question.findMany({
+      where,
+      skip,
+      take,
+      orderBy: { totalAttempts: 'desc' },
+      select: {
+        id: true,
+        questionText: true,
+        type: true,
+        subject: true,
+        topic: true,
+        difficulty: true,
+        suggestedDifficulty: true,
+        totalAttempts: true,
+        correctAttempts: true,
+        averageTime: true,
+        difficultyLevel: true,
+        discriminationIndex: true,
+        analyticsUpdatedAt: true,
+        testSeries: {
+          select: { id: true, title: true },
+        },
+      },
+    }),
+    prisma.question.count({ where }),
+  ]);
+
+  return sendSuccess(
+    questions,
+    createPaginationMeta(
+      parseInt(query.page || '1'),
+      take,
+      total
+    )
+  );
+});
+
+// POST handler - Run the analytics job
+const postHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['content:moderate'],
+  validation: {
+    body: questionAnalyticsJobSchema,
+  },
+});
+
+export const POST = postHandler(async (request) => {
+  const { testSeriesId } = request.body as QuestionAnalyticsJobFormData;
+
+  const summary = await recomputeQuestionAnalytics(testSeriesId ? { id: testSeriesId } : {});
+
+  return sendSuccess(summary);
+});
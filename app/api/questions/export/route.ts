@@ -0,0 +1,137 @@
+/**
+ * Question Export API Route
+ *
+ * Exports a test series, or a filtered set from the question bank, as an
+ * IMS QTI 2.1 package or as a printable PDF question paper / answer key.
+ */
+
+import { NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { createApiRoute, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { buildQuestionBankWhere } from '@/lib/question-bank';
+import { exportQuestionsToPdf, exportQuestionsToQti, type QuestionExportOptions } from '@/lib/question-export';
+import { getMarkingScheme } from '@/lib/scoring';
+import { questionExportSchema, type QuestionExportFormData } from '@/lib/validations/exam';
+
+const MAX_EXPORT_QUESTIONS = 500;
+
+/**
+ * File name safe version of a title
+ */
+function toFileName(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'questions';
+}
+
+// GET handler - Download an export
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:create'],
+  validation: {
+    query: questionExportSchema,
+  },
+});
+
+export const GET = getHandler(async (request) => {
+  const query = request.query as QuestionExportFormData;
+  const user = request.user!;
+  const isModerator = hasPermission(user, 'content:moderate');
+
+  let where: Prisma.QuestionWhereInput;
+  let options: QuestionExportOptions;
+
+  if (query.testSeriesId) {
+    const testSeries = await prisma.testSeries.findUnique({
+      where: { id: query.testSeriesId },
+      include: {
+        exam: {
+          select: { allowNegativeMarking: true },
+        },
+      },
+    });
+
+    if (!testSeries) {
+      return sendError('Test series not found', 404);
+    }
+
+    if (testSeries.creatorId !== user.id && !isModerator) {
+      return sendError('You do not have permission to export this test series', 403);
+    }
+
+    where = {
+      testSeriesId: testSeries.id,
+      ...(query.includeInactive !== 'true' && { isActive: true }),
+      ...(query.language && { language: query.language }),
+    };
+    options = {
+      title: testSeries.title,
+      language: query.language ?? testSeries.language,
+      scheme: getMarkingScheme(testSeries.exam, testSeries),
+      duration: testSeries.duration,
+      instructions: testSeries.instructions,
+    };
+  } else {
+    // Instructors only export their own questions; moderators the whole bank
+    const onlyMine = !isModerator || query.mine === 'true';
+
+    where = buildQuestionBankWhere({
+      ...(query.search && { query: query.search }),
+      ...(query.type && { type: query.type }),
+      ...(query.subject && { subject: query.subject }),
+      ...(query.topic && { topic: query.topic }),
+      ...(query.difficulty && { difficulty: query.difficulty }),
+      ...(query.language && { language: query.language }),
+      ...(query.tags && { tags: query.tags.split(',').map(tag => tag.trim()).filter(Boolean) }),
+      ...(query.verification !== 'all' && { isVerified: query.verification === 'verified' }),
+      ...(onlyMine && { createdBy: user.id }),
+      includeInactive: query.includeInactive === 'true',
+    });
+    options = {
+      title: 'Question Bank',
+      language: query.language ?? 'ENGLISH',
+    };
+  }
+
+  const total = await prisma.question.count({ where });
+
+  if (total === 0) {
+    return sendError('No questions match the export', 404);
+  }
+
+  if (total > MAX_EXPORT_QUESTIONS) {
+    return sendError(`An export can contain at most ${MAX_EXPORT_QUESTIONS} questions; narrow the filters`, 400);
+  }
+
+  const questions = await prisma.question.findMany({
+    where,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const baseName = toFileName(options.title);
+
+  try {
+    if (query.format === 'qti') {
+      const archive = await exportQuestionsToQti(questions, options);
+
+      return new NextResponse(new Uint8Array(archive), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${baseName}-qti.zip"`,
+        },
+      });
+    }
+
+    const pdf = await exportQuestionsToPdf(questions, options, query.document);
+    const suffix = query.document === 'answer_key' ? 'answer-key' : 'paper';
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${baseName}-${suffix}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Question export error:', error);
+    return sendError('Failed to generate the export', 500);
+  }
+});
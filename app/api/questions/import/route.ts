@@ -0,0 +1,103 @@
+/**
+ * Question Import API Route
+ *
+ * Imports questions into a test series from a CSV, Aiken or GIFT file
+ * previously uploaded through /api/upload (document category).
+ */
+
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { downloadFileFromS3 } from '@/lib/upload';
+import { syncTestSeriesQuestionCount, toQuestionData, toRevisionData } from '@/lib/question-bank';
+import { detectImportFormat, parseQuestionFile } from '@/lib/question-import';
+import { importQuestionsSchema, type ImportQuestionsFormData } from '@/lib/validations/exam';
+
+// POST handler - Preview (dry run) or commit an import
+const postHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:create'],
+  validation: {
+    body: importQuestionsSchema,
+  },
+});
+
+export const POST = postHandler(async (request) => {
+  const { testSeriesId, fileKey, dryRun, skipInvalid, defaults, ...options } = request.body as ImportQuestionsFormData;
+  const user = request.user!;
+
+  const testSeries = await prisma.testSeries.findUnique({
+    where: { id: testSeriesId },
+    select: { id: true, creatorId: true },
+  });
+
+  if (!testSeries) {
+    return sendError('Test series not found', 404);
+  }
+
+  if (testSeries.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to add questions to this test series', 403);
+  }
+
+  // Direct uploads are stored under documents/<userId>/
+  if (!fileKey.startsWith(`documents/${user.id}/`)) {
+    return sendError('File not found', 404);
+  }
+
+  const format = options.format ?? detectImportFormat(fileKey);
+  if (!format) {
+    return sendError('Could not detect the file format; specify CSV, AIKEN or GIFT', 400);
+  }
+
+  let text: string;
+  try {
+    text = (await downloadFileFromS3(fileKey)).toString('utf-8');
+  } catch (error) {
+    console.error('Question import download error:', error);
+    return sendError('Could not read the uploaded file', 400);
+  }
+
+  const { rows, questions } = parseQuestionFile(text, format, defaults);
+  const invalidRows = rows.filter(row => row.status === 'invalid').length;
+
+  const report = {
+    format,
+    dryRun,
+    totalRows: rows.length,
+    validRows: questions.length,
+    invalidRows,
+    importedCount: 0,
+    rows,
+  };
+
+  if (dryRun) {
+    return sendSuccess(report);
+  }
+
+  if (invalidRows > 0 && !skipInvalid) {
+    return sendError(`${invalidRows} row(s) failed validation; fix them or import with skipInvalid`, 400, report);
+  }
+
+  if (questions.length === 0) {
+    return sendError('The file contains no valid questions', 400, report);
+  }
+
+  const importedCount = await prisma.$transaction(async (tx) => {
+    const created = await tx.question.createManyAndReturn({
+      data: questions.map(question => ({
+        ...toQuestionData(question),
+        testSeriesId,
+        creatorId: user.id,
+      })),
+    });
+
+    await tx.questionRevision.createMany({
+      data: created.map(question => toRevisionData(question, user.id)),
+    });
+
+    await syncTestSeriesQuestionCount(tx, testSeriesId);
+
+    return created.length;
+  });
+
+  return sendSuccess({ ...report, importedCount }, undefined, 201);
+});
@@ -0,0 +1,63 @@
+/**
+ * Question Issue API Route
+ *
+ * Resolves or rejects a single issue report without changing the question.
+ * Answer key fixes go through /api/questions/[id]/regrade instead.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { closeQuestionIssues } from '@/lib/question-issues';
+import { resolveQuestionIssueSchema, type ResolveQuestionIssueFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const issueParamsSchema = z.object({
+  id: z.string().cuid('Invalid report ID'),
+});
+
+// PATCH handler - Close a report
+const patchHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:update'],
+  validation: {
+    params: issueParamsSchema,
+    body: resolveQuestionIssueSchema,
+  },
+});
+
+export const PATCH = patchHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Report ID is required', 400);
+  }
+  const { status, note } = request.body as ResolveQuestionIssueFormData;
+  const user = request.user!;
+
+  const report = await prisma.questionIssueReport.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      question: { select: { creatorId: true } },
+    },
+  });
+
+  if (!report) {
+    return sendError('Report not found', 404);
+  }
+
+  if (report.question.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to triage this report', 403);
+  }
+
+  const closed = await closeQuestionIssues({ id }, status, user.id, note?.trim() || null);
+
+  if (closed === 0) {
+    return sendError('This report has already been closed', 409);
+  }
+
+  const updated = await prisma.questionIssueReport.findUniqueOrThrow({ where: { id } });
+
+  return sendSuccess(updated);
+});
@@ -0,0 +1,72 @@
+/**
+ * Question Issue Triage API Route
+ *
+ * Lists issues students reported against questions. Instructors see reports
+ * on their own questions; moderators see all reports.
+ */
+
+import { createApiRoute, sendSuccess, parsePagination, createPaginationMeta, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { buildQuestionIssueWhere } from '@/lib/question-issues';
+import { questionIssueQuerySchema, type QuestionIssueQueryFormData } from '@/lib/validations/exam';
+
+// GET handler - List reports
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:create'],
+  validation: {
+    query: questionIssueQuerySchema,
+  },
+});
+
+export const GET = getHandler(async (request) => {
+  const query = request.query as QuestionIssueQueryFormData;
+  const user = request.user!;
+  const { skip, take } = parsePagination(request.query!);
+
+  const where = buildQuestionIssueWhere({
+    ...(query.status !== 'ALL' && { status: query.status }),
+    ...(query.type && { type: query.type }),
+    ...(query.testSeriesId && { testSeriesId: query.testSeriesId }),
+    ...(query.questionId && { questionId: query.questionId }),
+    ...(!hasPermission(user, 'content:moderate') && { creatorId: user.id }),
+  });
+
+  const [reports, total] = await Promise.all([
+    prisma.questionIssueReport.findMany({
+      where,
+      skip,
+      take,
+      orderBy: { createdAt: 'asc' },
+      include: {
+        user: {
+          select: { id: true, fullName: true },
+        },
+        question: {
+          select: {
+            id: true,
+            questionText: true,
+            type: true,
+            version: true,
+            testSeries: {
+              select: { id: true, title: true },
+            },
+          },
+        },
+        questionAttempt: {
+          select: { userAnswer: true, isCorrect: true, marksAwarded: true },
+        },
+      },
+    }),
+    prisma.questionIssueReport.count({ where }),
+  ]);
+
+  return sendSuccess(
+    reports,
+    createPaginationMeta(
+      parseInt(query.page || '1'),
+      take,
+      total
+    )
+  );
+});
@@ -0,0 +1,64 @@
+/**
+ * Question Review Queue API Route
+ *
+ * Lists question revisions awaiting review, oldest first.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { createApiRoute, sendSuccess, parsePagination, createPaginationMeta } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { questionReviewQueueSchema, type QuestionReviewQueueFormData } from '@/lib/validations/exam';
+
+// GET handler - List pending revisions
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['content:moderate'],
+  validation: {
+    query: questionReviewQueueSchema,
+  },
+});
+
+export const GET = getHandler(async (request) => {
+  const query = request.query as QuestionReviewQueueFormData;
+  const { skip, take } = parsePagination(request.query!);
+
+  const where: Prisma.QuestionRevisionWhereInput = {
+    status: 'PENDING',
+    question: {
+      isActive: true,
+      ...(query.testSeriesId && { testSeriesId: query.testSeriesId }),
+    },
+    ...(query.subject && { subject: { equals: query.subject, mode: 'insensitive' } }),
+  };
+
+  const [revisions, total] = await Promise.all([
+    prisma.questionRevision.findMany({
+      where,
+      skip,
+      take,
+      orderBy: { createdAt: 'asc' },
+      include: {
+        question: {
+          select: {
+            id: true,
+            creatorId: true,
+            verifiedAt: true,
+            testSeries: {
+              select: { id: true, title: true },
+            },
+          },
+        },
+      },
+    }),
+    prisma.questionRevision.count({ where }),
+  ]);
+
+  return sendSuccess(
+    revisions,
+    createPaginationMeta(
+      parseInt(query.page || '1'),
+      take,
+      total
+    )
+  );
+});
@@ -0,0 +1,119 @@
+/**
+ * Question Bank API Route
+ *
+ * Handles listing and creating questions.
+ */
+
+import { createApiRoute, sendSuccess, sendError, parsePagination, createPaginationMeta, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { buildQuestionBankWhere, syncTestSeriesQuestionCount, toQuestionData, toRevisionData } from '@/lib/question-bank';
+import {
+  createQuestionSchema,
+  questionBankQuerySchema,
+  type CreateQuestionFormData,
+  type QuestionBankQueryFormData,
+} from '@/lib/validations/exam';
+
+// GET handler - List questions
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:create'],
+  validation: {
+    query: questionBankQuerySchema,
+  },
+});
+
+export const GET = getHandler(async (request) => {
+  const query = request.query as QuestionBankQueryFormData;
+  const user = request.user!;
+  const { skip, take } = parsePagination(request.query!);
+
+  // Instructors only browse their own questions; moderators see the whole bank
+  const onlyMine = !hasPermission(user, 'content:moderate') || query.mine === 'true';
+
+  const where = buildQuestionBankWhere({
+    ...(query.search && { query: query.search }),
+    ...(query.testSeriesId && { testSeriesId: query.testSeriesId }),
+    ...(query.type && { type: query.type }),
+    ...(query.subject && { subject: query.subject }),
+    ...(query.topic && { topic: query.topic }),
+    ...(query.difficulty && { difficulty: query.difficulty }),
+    ...(query.language && { language: query.language }),
+    ...(query.tags && { tags: query.tags.split(',').map(tag => tag.trim()).filter(Boolean) }),
+    ...(query.verification !== 'all' && { isVerified: query.verification === 'verified' }),
+    ...(onlyMine && { createdBy: user.id }),
+    includeInactive: query.includeInactive === 'true',
+  });
+
+  const [questions, total] = await Promise.all([
+    prisma.question.findMany({
+      where,
+      skip,
+      take,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        testSeries: {
+          select: { id: true, title: true, examId: true },
+        },
+      },
+    }),
+    prisma.question.count({ where }),
+  ]);
+
+  return sendSuccess(
+    questions,
+    createPaginationMeta(
+      parseInt(query.page || '1'),
+      take,
+      total
+    )
+  );
+});
+
+// POST handler - Create question
+const postHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:create'],
+  validation: {
+    body: createQuestionSchema,
+  },
+});
+
+export const POST = postHandler(async (request) => {
+  const { testSeriesId, ...questionData } = request.body as CreateQuestionFormData;
+  const user = request.user!;
+
+  const testSeries = await prisma.testSeries.findUnique({
+    where: { id: testSeriesId },
+    select: { id: true, creatorId: true },
+  });
+
+  if (!testSeries) {
+    return sendError('Test series not found', 404);
+  }
+
+  if (testSeries.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to add questions to this test series', 403);
+  }
+
+  const question = await prisma.$transaction(async (tx) => {
+    const created = await tx.question.create({
+      data: {
+        ...toQuestionData(questionData),
+        testSeriesId,
+        creatorId: user.id,
+      },
+    });
+
+    // Revision 1 enters the review queue
+    await tx.questionRevision.create({
+      data: toRevisionData(created, user.id),
+    });
+
+    await syncTestSeriesQuestionCount(tx, testSeriesId);
+
+    return created;
+  });
+
+  return sendSuccess(question, undefined, 201);
+});
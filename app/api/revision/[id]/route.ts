@@ -0,0 +1,71 @@
+/**
+ * Revision Item API Route
+ *
+ * Records how well the student recalled a revision question (0-5) and
+ * schedules its next review.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { getRevisionSummary, recordRevisionReview } from '@/lib/revision';
+import { reviseItemSchema, type ReviseItemFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const revisionItemParamsSchema = z.object({
+  id: z.string().cuid('Invalid revision item ID'),
+});
+
+// POST handler - Record a review
+const postHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: revisionItemParamsSchema,
+    body: reviseItemSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Revision item ID is required', 400);
+  }
+  const { quality } = request.body as ReviseItemFormData;
+  const user = request.user!;
+  const now = new Date();
+
+  const item = await prisma.revisionItem.findUnique({
+    where: { id },
+  });
+
+  if (!item || item.userId !== user.id) {
+    return sendError('Revision item not found', 404);
+  }
+
+  if (item.dueAt > now) {
+    return sendError(`This question is not due for revision until ${item.dueAt.toISOString()}`, 400);
+  }
+
+  const { remainingToday } = await getRevisionSummary(user.id, now);
+  if (remainingToday === 0) {
+    return sendError('Daily revision limit reached; come back tomorrow', 400);
+  }
+
+  const reviewed = await recordRevisionReview(item, quality, now);
+
+  return sendSuccess({
+    item: {
+      id: reviewed.id,
+      questionId: reviewed.questionId,
+      easeFactor: Number(reviewed.easeFactor),
+      interval: reviewed.interval,
+      repetitions: reviewed.repetitions,
+      lapses: reviewed.lapses,
+      dueAt: reviewed.dueAt,
+      lastReviewedAt: reviewed.lastReviewedAt,
+      lastQuality: reviewed.lastQuality,
+    },
+    summary: await getRevisionSummary(user.id, now),
+  });
+});
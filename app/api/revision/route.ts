@@ -0,0 +1,42 @@
+/**
+ * Revision API Route
+ *
+ * The daily revise session: serves the student's due revision questions,
+ * most overdue first, up to what is left of the daily limit.
+ */
+
+import { createApiRoute, sendSuccess } from '@/lib/api-utils';
+import {
+  REVISION_DAILY_LIMIT,
+  getDueRevisionQuestions,
+  getRevisionSummary,
+  syncRevisionQueue,
+} from '@/lib/revision';
+import { revisionQuerySchema, type RevisionQueryFormData } from '@/lib/validations/exam';
+
+// GET handler - Get today's due revision questions
+const getHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    query: revisionQuerySchema,
+  },
+});
+
+export const GET = getHandler(async (request) => {
+  const query = request.query as RevisionQueryFormData;
+  const user = request.user!;
+  const now = new Date();
+
+  // Pick up attempts whose results were released since the last visit
+  await syncRevisionQueue(user.id, now);
+
+  const summary = await getRevisionSummary(user.id, now);
+  const requested = query.limit ? Math.max(1, parseInt(query.limit)) : REVISION_DAILY_LIMIT;
+  const limit = Math.min(summary.remainingToday, requested);
+  const questions = await getDueRevisionQuestions(user.id, limit, now);
+
+  return sendSuccess({
+    questions,
+    summary,
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Revision Summary API Route
+ *
+ * Size of the student's revision queue and today's progress, for the
+ * dashboard.
+ */
+
+import { createApiRoute, sendSuccess } from '@/lib/api-utils';
+import { getRevisionSummary, syncRevisionQueue } from '@/lib/revision';
+
+// GET handler - Get revision queue summary
+const getHandler = createApiRoute({
+  requireAuth: true,
+});
+
+export const GET = getHandler(async (request) => {
+  const user = request.user!;
+  const now = new Date();
+
+  await syncRevisionQueue(user.id, now);
+
+  return sendSuccess({
+    summary: await getRevisionSummary(user.id, now),
+  });
+});
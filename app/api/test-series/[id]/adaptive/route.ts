@@ -0,0 +1,154 @@
+/**
+ * Adaptive Test Settings API Route
+ *
+ * Shows and changes whether a test series runs in adaptive mode and when its
+ * attempts stop, with how much of its question pool is calibrated.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { ADAPTIVE_MIN_QUESTIONS, getAdaptivePool } from '@/lib/adaptive';
+import { adaptiveSettingsSchema, type AdaptiveSettingsFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const testSeriesParamsSchema = z.object({
+  id: z.string().cuid('Invalid test series ID'),
+});
+
+/**
+ * Load a test series with the details needed to show its adaptive settings
+ */
+async function findAdaptiveTestSeries(id: string) {
+  return prisma.testSeries.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      creatorId: true,
+      isAdaptive: true,
+      adaptiveQuestionCount: true,
+      adaptiveTargetError: true,
+      questions: {
+        where: { isActive: true },
+        select: { id: true, type: true, difficultyLevel: true },
+      },
+      _count: { select: { sections: true } },
+    },
+  });
+}
+
+/**
+ * Shape the adaptive settings and question pool of a test series
+ */
+function toAdaptiveSettings(testSeries: NonNullable<Awaited<ReturnType<typeof findAdaptiveTestSeries>>>) {
+  const pool = getAdaptivePool(testSeries.questions);
+
+  return {
+    isAdaptive: testSeries.isAdaptive,
+    questionCount: testSeries.adaptiveQuestionCount,
+    targetError: testSeries.adaptiveTargetError !== null ? Number(testSeries.adaptiveTargetError) : null,
+    minQuestions: ADAPTIVE_MIN_QUESTIONS,
+    // Uncalibrated questions are placed by their declared difficulty
+    pool: {
+      questions: pool.length,
+      calibrated: pool.filter(question => question.difficultyLevel !== null).length,
+    },
+  };
+}
+
+// GET handler - Get adaptive settings
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:create'],
+  validation: {
+    params: testSeriesParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const user = request.user!;
+
+  const testSeries = await findAdaptiveTestSeries(id);
+
+  if (!testSeries) {
+    return sendError('Test series not found', 404);
+  }
+
+  if (testSeries.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to view this test series', 403);
+  }
+
+  return sendSuccess(toAdaptiveSettings(testSeries));
+});
+
+// PUT handler - Change adaptive settings
+const putHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:update'],
+  validation: {
+    params: testSeriesParamsSchema,
+    body: adaptiveSettingsSchema,
+  },
+});
+
+export const PUT = putHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const settings = request.body as AdaptiveSettingsFormData;
+  const user = request.user!;
+
+  const testSeries = await findAdaptiveTestSeries(id);
+
+  if (!testSeries) {
+    return sendError('Test series not found', 404);
+  }
+
+  if (testSeries.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to edit this test series', 403);
+  }
+
+  // Adaptive attempts pick questions from the whole pool; sections would fix the order
+  if (settings.isAdaptive && testSeries._count.sections > 0) {
+    return sendError('Sectional test series cannot run in adaptive mode', 400);
+  }
+
+  // In-progress attempts keep the mode they started in
+  const activeAttempts = await prisma.testAttempt.count({
+    where: { testSeriesId: id, completedAt: null },
+  });
+
+  if (activeAttempts > 0) {
+    return sendError('Adaptive settings cannot be changed while attempts are in progress', 409);
+  }
+
+  const updated = await prisma.testSeries.update({
+    where: { id },
+    data: {
+      isAdaptive: settings.isAdaptive,
+      adaptiveQuestionCount: settings.questionCount ?? null,
+      adaptiveTargetError: settings.targetError ?? null,
+    },
+    select: {
+      id: true,
+      creatorId: true,
+      isAdaptive: true,
+      adaptiveQuestionCount: true,
+      adaptiveTargetError: true,
+      questions: {
+        where: { isActive: true },
+        select: { id: true, type: true, difficultyLevel: true },
+      },
+      _count: { select: { sections: true } },
+    },
+  });
+
+  return sendSuccess(toAdaptiveSettings(updated));
+});
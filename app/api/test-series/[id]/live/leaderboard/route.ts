@@ -0,0 +1,127 @@
+/**
+ * Live Test Leaderboard API Route
+ *
+ * Streams the leaderboard of a live test over Server-Sent Events. A
+ * `leaderboard` event is sent on connect and whenever new submissions change
+ * the standings, comments keep the connection alive in between, and an `end`
+ * event closes the stream once the test is over and late submissions are no
+ * longer accepted, or as soon as the test is cancelled.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createApiRoute, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { isAttemptExpired } from '@/lib/exam-attempt';
+import { getLiveLeaderboard, getLiveTestStatus, LEADERBOARD_REFRESH_SECONDS } from '@/lib/live-tests';
+import { liveLeaderboardQuerySchema, type LiveLeaderboardQueryFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const leaderboardParamsSchema = z.object({
+  id: z.string().cuid('Invalid test series ID'),
+});
+
+// GET handler - Stream the live leaderboard
+const getHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: leaderboardParamsSchema,
+    query: liveLeaderboardQuerySchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const query = request.query as LiveLeaderboardQueryFormData;
+  const limit = Math.min(500, Math.max(1, parseInt(query.limit || '100')));
+
+  const liveTest = await prisma.liveTest.findUnique({
+    where: { testSeriesId: id },
+  });
+
+  if (!liveTest) {
+    return sendError('Live test not found', 404);
+  }
+
+  if (getLiveTestStatus(liveTest) === 'CANCELLED') {
+    return sendError('This live test has been cancelled', 400);
+  }
+
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let lastSignature: string | null = null;
+
+      const write = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(timer);
+        controller.close();
+      };
+
+      const push = async () => {
+        try {
+          const { liveTest: current, leaderboard } = await getLiveLeaderboard(id, limit);
+          if (closed) return;
+
+          // The test may have been cancelled or deleted since the stream opened
+          if (!current || getLiveTestStatus(current) === 'CANCELLED') {
+            send('end', { cancelled: true });
+            close();
+            return;
+          }
+
+          const status = getLiveTestStatus(current);
+          const signature = `${status}:${leaderboard.submissions}:${leaderboard.lastSubmissionAt?.toISOString()}`;
+
+          if (signature !== lastSignature) {
+            lastSignature = signature;
+            send('leaderboard', { status, ...leaderboard });
+          } else {
+            write(': keep-alive\n\n');
+          }
+
+          if (status === 'COMPLETED' && isAttemptExpired(current.endTime)) {
+            send('end', { endTime: current.endTime });
+            close();
+          }
+        } catch (error) {
+          console.error('Live leaderboard error:', error);
+          if (!closed) {
+            send('error', { message: 'Failed to load the leaderboard' });
+            close();
+          }
+        }
+      };
+
+      // Browsers reconnect after this many milliseconds if the stream drops
+      write(`retry: ${LEADERBOARD_REFRESH_SECONDS * 1000}\n\n`);
+      void push();
+      timer = setInterval(() => void push(), LEADERBOARD_REFRESH_SECONDS * 1000);
+      request.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      closed = true;
+      clearInterval(timer);
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+});
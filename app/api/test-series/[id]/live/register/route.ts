@@ -0,0 +1,115 @@
+/**
+ * Live Test Registration API Route
+ *
+ * Registers the current user for a live test while registration is open, or
+ * withdraws the registration before the test starts.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { checkEntitlement, createPaymentRequiredError } from '@/lib/entitlements';
+import { getLiveTestStatus, isRegistrationOpen } from '@/lib/live-tests';
+
+// Params validation schema
+const registrationParamsSchema = z.object({
+  id: z.string().cuid('Invalid test series ID'),
+});
+
+// POST handler - Register for the live test
+const postHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: registrationParamsSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const user = request.user!;
+
+  const liveTest = await prisma.liveTest.findUnique({
+    where: { testSeriesId: id },
+    include: {
+      testSeries: { select: { isPublished: true } },
+      _count: { select: { registrations: true } },
+    },
+  });
+
+  if (!liveTest || !liveTest.testSeries.isPublished) {
+    return sendError('Live test not found', 404);
+  }
+
+  const existing = await prisma.liveTestRegistration.findUnique({
+    where: { liveTestId_userId: { liveTestId: liveTest.id, userId: user.id } },
+  });
+
+  if (existing) {
+    return sendSuccess({ liveTestId: liveTest.id, registeredAt: existing.registeredAt });
+  }
+
+  if (!isRegistrationOpen(liveTest)) {
+    return sendError('Registration for this live test is closed', 400);
+  }
+
+  if (liveTest.maxParticipants !== null && liveTest._count.registrations >= liveTest.maxParticipants) {
+    return sendError('This live test is full', 409);
+  }
+
+  // Paid test series have to be bought before registering
+  const entitlement = await checkEntitlement(user, { type: 'test_series', id });
+  if (!entitlement.granted) {
+    return sendError(createPaymentRequiredError(entitlement, 'Purchase this test series to register for the live test'));
+  }
+
+  const registration = await prisma.liveTestRegistration.upsert({
+    where: { liveTestId_userId: { liveTestId: liveTest.id, userId: user.id } },
+    update: {},
+    create: { liveTestId: liveTest.id, userId: user.id },
+  });
+
+  return sendSuccess({ liveTestId: liveTest.id, registeredAt: registration.registeredAt }, undefined, 201);
+});
+
+// DELETE handler - Withdraw the registration
+const deleteHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: registrationParamsSchema,
+  },
+});
+
+export const DELETE = deleteHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const user = request.user!;
+
+  const liveTest = await prisma.liveTest.findUnique({
+    where: { testSeriesId: id },
+  });
+
+  if (!liveTest) {
+    return sendError('Live test not found', 404);
+  }
+
+  if (getLiveTestStatus(liveTest) !== 'SCHEDULED') {
+    return sendError('Registration can only be withdrawn before the live test starts', 400);
+  }
+
+  const { count } = await prisma.liveTestRegistration.deleteMany({
+    where: { liveTestId: liveTest.id, userId: user.id },
+  });
+
+  if (count === 0) {
+    return sendError('You are not registered for this live test', 404);
+  }
+
+  return sendSuccess({ liveTestId: liveTest.id, registered: false });
+});
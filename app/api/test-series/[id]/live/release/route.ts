@@ -0,0 +1,64 @@
+/**
+ * Live Test Result Release API Route
+ *
+ * Releases every participant's result once the live test is over. Results
+ * are also released by the first request for the live test after it ends;
+ * this route lets a scheduler or the test's creator do it right away.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { isResultReleaseDue, releaseLiveTestResults } from '@/lib/live-tests';
+
+// Params validation schema
+const releaseParamsSchema = z.object({
+  id: z.string().cuid('Invalid test series ID'),
+});
+
+// POST handler - Release live test results
+const postHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:update'],
+  validation: {
+    params: releaseParamsSchema,
+  },
+});
+
+export const POST = postHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const user = request.user!;
+
+  const liveTest = await prisma.liveTest.findUnique({
+    where: { testSeriesId: id },
+    include: { testSeries: { select: { creatorId: true } } },
+  });
+
+  if (!liveTest) {
+    return sendError('Live test not found', 404);
+  }
+
+  if (liveTest.testSeries.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to release these results', 403);
+  }
+
+  if (liveTest.resultsReleasedAt) {
+    return sendError('Results have already been released', 409);
+  }
+
+  if (!(await isResultReleaseDue(liveTest))) {
+    return sendError('Results can be released once the live test is over for every participant', 400);
+  }
+
+  const release = await releaseLiveTestResults(liveTest.id);
+
+  if (!release) {
+    return sendError('Results have already been released', 409);
+  }
+
+  return sendSuccess(release);
+});
@@ -0,0 +1,207 @@
+/**
+ * Live Test API Route
+ *
+ * Schedules, shows and cancels the live run of a test series. Results are
+ * released for everyone once the live test is over.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import {
+  getLiveTestStatus,
+  isRegistrationOpen,
+  isResultReleaseDue,
+  releaseLiveTestResults,
+  toLiveTestSchedule,
+} from '@/lib/live-tests';
+import { liveTestScheduleSchema, type LiveTestScheduleFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const liveTestParamsSchema = z.object({
+  id: z.string().cuid('Invalid test series ID'),
+});
+
+// GET handler - Live test details
+const getHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: liveTestParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const user = request.user!;
+
+  let liveTest = await prisma.liveTest.findUnique({
+    where: { testSeriesId: id },
+    include: {
+      testSeries: {
+        select: { id: true, title: true, examId: true, duration: true, totalQuestions: true, totalMarks: true },
+      },
+    },
+  });
+
+  if (!liveTest) {
+    return sendError('Live test not found', 404);
+  }
+
+  // The first request after the test ends releases everyone's results
+  if (await isResultReleaseDue(liveTest)) {
+    await releaseLiveTestResults(liveTest.id);
+    liveTest = await prisma.liveTest.findUniqueOrThrow({
+      where: { id: liveTest.id },
+      include: {
+        testSeries: {
+          select: { id: true, title: true, examId: true, duration: true, totalQuestions: true, totalMarks: true },
+        },
+      },
+    });
+  }
+
+  const [participants, registration] = await Promise.all([
+    prisma.liveTestRegistration.count({ where: { liveTestId: liveTest.id } }),
+    prisma.liveTestRegistration.findUnique({
+      where: { liveTestId_userId: { liveTestId: liveTest.id, userId: user.id } },
+      select: { registeredAt: true },
+    }),
+  ]);
+
+  return sendSuccess({
+    id: liveTest.id,
+    testSeries: liveTest.testSeries,
+    status: getLiveTestStatus(liveTest),
+    registrationOpensAt: liveTest.registrationOpensAt,
+    registrationClosesAt: liveTest.registrationClosesAt,
+    registrationOpen: isRegistrationOpen(liveTest) &&
+      (liveTest.maxParticipants === null || participants < liveTest.maxParticipants),
+    startTime: liveTest.startTime,
+    endTime: liveTest.endTime,
+    maxParticipants: liveTest.maxParticipants,
+    participants,
+    isRegistered: registration !== null,
+    registeredAt: registration?.registeredAt ?? null,
+    resultsReleasedAt: liveTest.resultsReleasedAt,
+    serverTime: new Date(), // lets clients count down to the synchronized start
+  });
+});
+
+// PUT handler - Schedule or reschedule the live test
+const putHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:update'],
+  validation: {
+    params: liveTestParamsSchema,
+    body: liveTestScheduleSchema,
+  },
+});
+
+export const PUT = putHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const schedule = request.body as LiveTestScheduleFormData;
+  const user = request.user!;
+
+  const testSeries = await prisma.testSeries.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      creatorId: true,
+      duration: true,
+      exam: { select: { type: true } },
+      liveTest: true,
+    },
+  });
+
+  if (!testSeries) {
+    return sendError('Test series not found', 404);
+  }
+
+  if (testSeries.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to schedule this test series', 403);
+  }
+
+  if (testSeries.exam.type !== 'LIVE_TEST') {
+    return sendError('Only test series of a live test exam can be scheduled live', 400);
+  }
+
+  const now = new Date();
+
+  // A cancelled live test can be scheduled again
+  const status = testSeries.liveTest && getLiveTestStatus(testSeries.liveTest, now);
+  if (status === 'LIVE' || status === 'COMPLETED') {
+    return sendError('A live test cannot be rescheduled once it has started', 409);
+  }
+
+  const timing = { ...toLiveTestSchedule(schedule, testSeries, now), cancelledAt: null };
+
+  if (timing.startTime <= now) {
+    return sendError('The live test must start in the future', 400);
+  }
+
+  const liveTest = await prisma.liveTest.upsert({
+    where: { testSeriesId: id },
+    update: timing,
+    create: { testSeriesId: id, ...timing },
+  });
+
+  return sendSuccess({
+    ...liveTest,
+    status: getLiveTestStatus(liveTest, now),
+  }, undefined, testSeries.liveTest ? 200 : 201);
+});
+
+// DELETE handler - Cancel the live test
+const deleteHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:update'],
+  validation: {
+    params: liveTestParamsSchema,
+  },
+});
+
+export const DELETE = deleteHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const user = request.user!;
+
+  const liveTest = await prisma.liveTest.findUnique({
+    where: { testSeriesId: id },
+    include: { testSeries: { select: { creatorId: true } } },
+  });
+
+  if (!liveTest) {
+    return sendError('Live test not found', 404);
+  }
+
+  if (liveTest.testSeries.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to cancel this live test', 403);
+  }
+
+  // A started live test runs to its end so everyone's results can be released
+  if (getLiveTestStatus(liveTest) !== 'SCHEDULED') {
+    return sendError('Only a live test that has not started can be cancelled', 409);
+  }
+
+  const cancelled = await prisma.liveTest.update({
+    where: { id: liveTest.id },
+    data: { cancelledAt: new Date() },
+  });
+
+  return sendSuccess({
+    id: cancelled.id,
+    status: getLiveTestStatus(cancelled),
+    cancelledAt: cancelled.cancelledAt,
+  });
+});
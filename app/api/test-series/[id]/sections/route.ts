@@ -0,0 +1,147 @@
+/**
+ * Test Series Sections API Route
+ *
+ * Lists and replaces the sections of a sectional test series: their order,
+ * durations, marking, cut-offs and the questions in each.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError, hasPermission } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { replaceTestSections } from '@/lib/test-sections';
+import { testSectionLayoutSchema, type TestSectionLayoutFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const testSeriesParamsSchema = z.object({
+  id: z.string().cuid('Invalid test series ID'),
+});
+
+// GET handler - List sections
+const getHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:create'],
+  validation: {
+    params: testSeriesParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const user = request.user!;
+
+  const testSeries = await prisma.testSeries.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      creatorId: true,
+      duration: true,
+      totalQuestions: true,
+      sections: {
+        orderBy: { order: 'asc' },
+        include: {
+          questions: {
+            where: { isActive: true },
+            orderBy: { createdAt: 'asc' },
+            select: { id: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!testSeries) {
+    return sendError('Test series not found', 404);
+  }
+
+  if (testSeries.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to view this test series', 403);
+  }
+
+  return sendSuccess({
+    duration: testSeries.duration,
+    totalQuestions: testSeries.totalQuestions,
+    sections: testSeries.sections.map(({ questions, ...section }) => ({
+      ...section,
+      questionIds: questions.map(question => question.id),
+    })),
+  });
+});
+
+// PUT handler - Replace the section layout
+const putHandler = createApiRoute({
+  requireAuth: true,
+  requiredPermissions: ['questions:update'],
+  validation: {
+    params: testSeriesParamsSchema,
+    body: testSectionLayoutSchema,
+  },
+});
+
+export const PUT = putHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('Test series ID is required', 400);
+  }
+  const { sections } = request.body as TestSectionLayoutFormData;
+  const user = request.user!;
+
+  const testSeries = await prisma.testSeries.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      creatorId: true,
+      isAdaptive: true,
+      questions: {
+        where: { isActive: true },
+        select: { id: true },
+      },
+    },
+  });
+
+  if (!testSeries) {
+    return sendError('Test series not found', 404);
+  }
+
+  if (testSeries.creatorId !== user.id && !hasPermission(user, 'content:moderate')) {
+    return sendError('You do not have permission to edit this test series', 403);
+  }
+
+  if (testSeries.isAdaptive && sections.length > 0) {
+    return sendError('Adaptive test series cannot be split into sections', 400);
+  }
+
+  // In-progress attempts follow the section timeline they started with
+  const activeAttempts = await prisma.testAttempt.count({
+    where: { testSeriesId: id, completedAt: null },
+  });
+
+  if (activeAttempts > 0) {
+    return sendError('Sections cannot be changed while attempts are in progress', 409);
+  }
+
+  const activeIds = new Set(testSeries.questions.map(question => question.id));
+  const assigned = sections.flatMap(section => section.questionIds);
+
+  const unknownQuestion = assigned.find(questionId => !activeIds.has(questionId));
+  if (unknownQuestion) {
+    return sendError(`Question ${unknownQuestion} is not an active question of this test series`, 400);
+  }
+
+  if (sections.length > 0 && assigned.length !== activeIds.size) {
+    return sendError(`${activeIds.size - assigned.length} active questions are not assigned to a section`, 400);
+  }
+
+  const created = await replaceTestSections(id, sections);
+
+  return sendSuccess({
+    sections: created.map((section, index) => ({
+      ...section,
+      questionIds: sections[index]?.questionIds ?? [],
+    })),
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * User Accommodations API Route
+ *
+ * Lets admins grant, change and revoke a student's exam accommodations
+ * (compensatory time, font size, contrast, screen reader support). Students
+ * can see their own.
+ */
+
+import { z } from 'zod';
+import { createApiRoute, sendSuccess, sendError } from '@/lib/api-utils';
+import { prisma } from '@/lib/prisma';
+import { hasMinimumRole } from '@/lib/auth';
+import { isAccommodationActive, toAccommodationData } from '@/lib/accommodations';
+import { accommodationSchema, type AccommodationFormData } from '@/lib/validations/exam';
+
+// Params validation schema
+const accommodationParamsSchema = z.object({
+  id: z.string().cuid('Invalid user ID'),
+});
+
+// GET handler - Get a user's accommodation
+const getHandler = createApiRoute({
+  requireAuth: true,
+  validation: {
+    params: accommodationParamsSchema,
+  },
+});
+
+export const GET = getHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('User ID is required', 400);
+  }
+  const currentUser = request.user!;
+
+  // Users can view their own accommodation, admins can view all
+  if (currentUser.id !== id && !hasMinimumRole(currentUser.role, 'ADMIN')) {
+    return sendError('You do not have permission to view these accommodations', 403);
+  }
+
+  const accommodation = await prisma.accommodation.findUnique({
+    where: { userId: id },
+  });
+
+  return sendSuccess({
+    accommodation: accommodation && {
+      ...accommodation,
+      isActive: isAccommodationActive(accommodation),
+    },
+  });
+});
+
+// PUT handler - Grant or change a user's accommodation (Admin only)
+const putHandler = createApiRoute({
+  requireAuth: true,
+  requiredRole: 'ADMIN',
+  validation: {
+    params: accommodationParamsSchema,
+    body: accommodationSchema,
+  },
+});
+
+export const PUT = putHandler(async (request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('User ID is required', 400);
+  }
+  const grant = request.body as AccommodationFormData;
+  const currentUser = request.user!;
+
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+
+  if (!user) {
+    return sendError('User not found', 404);
+  }
+
+  if (grant.validUntil && new Date(grant.validUntil) <= new Date()) {
+    return sendError('Expiry date must be in the future', 400);
+  }
+
+  // Attempts already in progress keep the extra time they started with
+  const data = toAccommodationData(grant, currentUser.id);
+  const accommodation = await prisma.accommodation.upsert({
+    where: { userId: id },
+    update: data,
+    create: { userId: id, ...data },
+  });
+
+  return sendSuccess({
+    accommodation: {
+      ...accommodation,
+      isActive: true,
+    },
+  });
+});
+
+// DELETE handler - Revoke a user's accommodation (Admin only)
+const deleteHandler = createApiRoute({
+  requireAuth: true,
+  requiredRole: 'ADMIN',
+  validation: {
+    params: accommodationParamsSchema,
+  },
+});
+
+export const DELETE = deleteHandler(async (_request, context) => {
+  const { id } = context?.params || {};
+
+  if (!id) {
+    return sendError('User ID is required', 400);
+  }
+
+  const { count } = await prisma.accommodation.deleteMany({
+    where: { userId: id },
+  });
+
+  if (count === 0) {
+    return sendError('This user has no accommodation', 404);
+  }
+
+  return sendSuccess({ message: 'Accommodation revoked' });
+});
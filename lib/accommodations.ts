@@ -0,0 +1,93 @@
+/**
+ * Accommodations
+ *
+ * Per-student exam accommodations granted by an admin: compensatory time
+ * (minutes per hour of test time, e.g. 20 for PwD candidates) and rendering
+ * preferences for the exam UI. Extra time is fixed on the attempt when it
+ * starts, so later changes never move a running timer; exam-attempt.ts
+ * applies it to every deadline.
+ */
+
+import type { Accommodation, TestAttempt } from '@prisma/client';
+import { prisma } from './prisma';
+import type { AccommodationFormData } from './validations/exam';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AccommodationSettings = Pick<
+  Accommodation,
+  'extraTimePerHour' | 'fontSize' | 'highContrast' | 'screenReader'
+>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const NO_ACCOMMODATION: AccommodationSettings = {
+  extraTimePerHour: 0,
+  fontSize: 'NORMAL',
+  highContrast: false,
+  screenReader: false,
+};
+
+/**
+ * Check whether an accommodation still applies
+ */
+export function isAccommodationActive(
+  accommodation: Pick<Accommodation, 'validUntil'>,
+  now: Date = new Date()
+): boolean {
+  return accommodation.validUntil === null || accommodation.validUntil > now;
+}
+
+/**
+ * Load a student's accommodation if it still applies
+ */
+export async function getActiveAccommodation(
+  userId: string,
+  now: Date = new Date()
+): Promise<Accommodation | null> {
+  const accommodation = await prisma.accommodation.findUnique({
+    where: { userId },
+  });
+
+  return accommodation && isAccommodationActive(accommodation, now) ? accommodation : null;
+}
+
+/**
+ * Accommodations as applied to an attempt: rendering preferences from the
+ * current grant, extra time as fixed when the attempt started
+ */
+export function getAttemptAccommodations(
+  accommodation: AccommodationSettings | null,
+  attempt: Pick<TestAttempt, 'extraTimePerHour'>
+): AccommodationSettings {
+  const { fontSize, highContrast, screenReader } = accommodation ?? NO_ACCOMMODATION;
+
+  return {
+    extraTimePerHour: attempt.extraTimePerHour,
+    fontSize,
+    highContrast,
+    screenReader,
+  };
+}
+
+/**
+ * Build the stored accommodation from an admin's grant
+ */
+export function toAccommodationData(
+  grant: AccommodationFormData,
+  grantedBy: string
+): Omit<Accommodation, 'id' | 'userId' | 'createdAt' | 'updatedAt'> {
+  return {
+    extraTimePerHour: grant.extraTimePerHour,
+    fontSize: grant.fontSize,
+    highContrast: grant.highContrast,
+    screenReader: grant.screenReader,
+    reason: grant.reason ?? null,
+    grantedBy,
+    validUntil: grant.validUntil ? new Date(grant.validUntil) : null,
+  };
+}
@@ -0,0 +1,343 @@
+/**
+ * Adaptive Tests
+ *
+ * Attempts at an adaptive test series are served one question at a time.
+ * After each answer the student's ability is re-estimated (Rasch model,
+ * expected a posteriori with a standard normal prior) and the next question
+ * is the unserved one whose difficulty best matches it. Question difficulty
+ * comes from the calibrated Question.difficultyLevel, falling back to the
+ * declared difficulty for questions without enough answers yet.
+ *
+ * The attempt stops after the series' question count, once the ability's
+ * standard error falls to the series' target, or when the pool runs out.
+ * Served questions are appended to TestAttempt.questionsOrder, so review,
+ * grading and analytics only ever see what the student was shown.
+ */
+
+import { Prisma, type Exam, type Question, type QuestionDifficulty, type TestAttempt, type TestSeries } from '@prisma/client';
+import { ApiConflictError } from './api-utils';
+import { prisma } from './prisma';
+import { toUserAnswer, type SavedAnswer } from './exam-attempt';
+import {
+  applyQuestionsOrder,
+  buildQuestionsOrder,
+  createSeededRandom,
+  parseQuestionsOrder,
+  toOriginalAnswer,
+  type QuestionsOrder,
+  type RandomizationSettings,
+} from './randomization';
+import { getMarkingScheme, scoreQuestion, type ScorableQuestion } from './scoring';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AdaptiveQuestion = ScorableQuestion &
+  Pick<Question, 'version' | 'difficulty' | 'difficultyLevel' | 'isActive'>;
+
+export type AdaptiveSettings = Pick<TestSeries, 'adaptiveQuestionCount' | 'adaptiveTargetError'>;
+
+export interface AdaptiveTestSeries
+  extends AdaptiveSettings, Pick<TestSeries, 'negativeMarking' | 'negativeMarkingRatio'> {
+  exam: Pick<Exam, 'allowNegativeMarking'>;
+  questions: AdaptiveQuestion[];
+}
+
+export interface AbilityEstimate {
+  ability: number; // in logits, 0 is a question of average difficulty
+  standardError: number;
+  score: number; // chance of answering an average question correctly, 0-100
+}
+
+export interface AdaptiveResponse {
+  difficulty: number; // in logits
+  isCorrect: boolean;
+}
+
+export type AdaptiveStopReason = 'QUESTION_COUNT' | 'CONFIDENCE' | 'POOL_EXHAUSTED';
+
+export interface AdaptiveStep {
+  attempt: TestAttempt;
+  estimate: AbilityEstimate;
+  stopReason: AdaptiveStopReason | null; // null while more questions follow
+  nextQuestionId: string | null;
+}
+
+// =============================================================================
+// ESTIMATION
+// =============================================================================
+
+/** Questions answered before the confidence rule may stop an attempt */
+export const ADAPTIVE_MIN_QUESTIONS = 5;
+
+// Closest matches the next question is drawn from, so students of similar
+// ability do not all see the same questions
+const EXPOSURE_POOL_SIZE = 3;
+
+// Share of students answering incorrectly assumed for uncalibrated questions
+const DECLARED_DIFFICULTY_LEVELS: Record<QuestionDifficulty, number> = {
+  EASY: 0.15,
+  MEDIUM: 0.45,
+  HARD: 0.7,
+  VERY_HARD: 0.9,
+};
+
+// Ability grid the posterior is evaluated on, -4 to 4 logits
+const ABILITY_GRID = Array.from({ length: 81 }, (_, index) => -4 + index * 0.1);
+
+const roundThree = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Difficulty of a question in logits, from the share of students who answer
+ * it incorrectly
+ */
+export function getQuestionDifficulty(question: Pick<Question, 'difficulty' | 'difficultyLevel'>): number {
+  const level = question.difficultyLevel !== null
+    ? Number(question.difficultyLevel)
+    : DECLARED_DIFFICULTY_LEVELS[question.difficulty];
+  const clamped = Math.min(0.95, Math.max(0.05, level));
+
+  return Math.log(clamped / (1 - clamped));
+}
+
+/**
+ * Ability score shown in results: the chance, in percent, of answering a
+ * question of average difficulty correctly
+ */
+export function getAbilityScore(ability: number): number {
+  return Math.round(100 / (1 + Math.exp(-ability)));
+}
+
+/**
+ * Estimate ability from the answers so far. With no answers this is the
+ * prior: average ability with a standard error of 1.
+ */
+export function estimateAbility(responses: AdaptiveResponse[]): AbilityEstimate {
+  const logPosterior = ABILITY_GRID.map(ability =>
+    responses.reduce((sum, response) => {
+      const p = 1 / (1 + Math.exp(response.difficulty - ability));
+      return sum + Math.log(response.isCorrect ? p : 1 - p);
+    }, -(ability * ability) / 2)
+  );
+
+  const peak = Math.max(...logPosterior);
+  const weights = logPosterior.map(value => Math.exp(value - peak));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const mean = ABILITY_GRID.reduce((sum, ability, index) => sum + ability * weights[index]!, 0) / total;
+  const variance = ABILITY_GRID.reduce(
+    (sum, ability, index) => sum + (ability - mean) ** 2 * weights[index]!,
+    0
+  ) / total;
+
+  return {
+    ability: roundThree(mean),
+    standardError: roundThree(Math.sqrt(variance)),
+    score: getAbilityScore(mean),
+  };
+}
+
+/**
+ * The stored estimate of an adaptive attempt, or null for other attempts
+ */
+export function getAttemptAbility(
+  attempt: Pick<TestAttempt, 'abilityEstimate' | 'abilityStandardError'>
+): AbilityEstimate | null {
+  if (attempt.abilityEstimate === null || attempt.abilityStandardError === null) {
+    return null;
+  }
+
+  const ability = Number(attempt.abilityEstimate);
+  return {
+    ability,
+    standardError: Number(attempt.abilityStandardError),
+    score: getAbilityScore(ability),
+  };
+}
+
+// =============================================================================
+// QUESTION SELECTION
+// =============================================================================
+
+/**
+ * Questions an adaptive attempt can serve: descriptive answers cannot be
+ * graded in time to pick the next question
+ */
+export function getAdaptivePool<T extends Pick<Question, 'type'>>(questions: T[]): T[] {
+  return questions.filter(question => question.type !== 'DESCRIPTIVE');
+}
+
+/**
+ * Number of questions an adaptive attempt is planned to serve
+ */
+export function getAdaptiveQuestionCount(settings: AdaptiveSettings, poolSize: number): number {
+  return settings.adaptiveQuestionCount !== null
+    ? Math.min(settings.adaptiveQuestionCount, poolSize)
+    : poolSize;
+}
+
+/**
+ * Pick the next question: one of the unserved questions closest in difficulty
+ * to the current ability, drawn with the attempt's seed
+ */
+export function pickNextQuestion(
+  candidates: Pick<Question, 'id' | 'difficulty' | 'difficultyLevel'>[],
+  ability: number,
+  seed: string
+): string | null {
+  const closest = candidates
+    .map(question => ({ id: question.id, distance: Math.abs(getQuestionDifficulty(question) - ability) }))
+    .sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id))
+    .slice(0, EXPOSURE_POOL_SIZE);
+
+  if (closest.length === 0) {
+    return null;
+  }
+
+  return closest[Math.floor(createSeededRandom(seed)() * closest.length)]!.id;
+}
+
+/**
+ * Get why an adaptive attempt should stop after the given number of answers,
+ * or null when it goes on
+ */
+export function getAdaptiveStopReason(
+  settings: AdaptiveSettings,
+  answered: number,
+  remaining: number,
+  standardError: number
+): AdaptiveStopReason | null {
+  if (settings.adaptiveQuestionCount !== null && answered >= settings.adaptiveQuestionCount) {
+    return 'QUESTION_COUNT';
+  }
+
+  if (
+    settings.adaptiveTargetError !== null &&
+    answered >= ADAPTIVE_MIN_QUESTIONS &&
+    standardError <= Number(settings.adaptiveTargetError)
+  ) {
+    return 'CONFIDENCE';
+  }
+
+  return remaining === 0 ? 'POOL_EXHAUSTED' : null;
+}
+
+/**
+ * Build the order for a new adaptive attempt: option order is fixed up front,
+ * the first question is matched to average ability
+ */
+export function buildAdaptiveQuestionsOrder(
+  questions: (Pick<Question, 'id' | 'type' | 'options' | 'difficulty' | 'difficultyLevel'>)[],
+  settings: Pick<RandomizationSettings, 'randomizeOptions'>
+): QuestionsOrder {
+  const order = buildQuestionsOrder(questions, { ...settings, randomizeQuestions: false });
+  const first = pickNextQuestion(getAdaptivePool(questions), 0, `${order.seed}:0`);
+
+  return { ...order, questions: first ? [first] : [] };
+}
+
+/**
+ * The question an adaptive attempt is waiting on, or null once every served
+ * question is answered
+ */
+export function getCurrentAdaptiveQuestionId(
+  order: QuestionsOrder | null,
+  answeredIds: Set<string>
+): string | null {
+  const current = order?.questions[order.questions.length - 1];
+  return current && !answeredIds.has(current) ? current : null;
+}
+
+/**
+ * Questions served to the exam client for an adaptive attempt: only the
+ * current one, with its options in the attempt's order
+ */
+export function getAdaptiveServedQuestions<T extends { id: string; options: Prisma.JsonValue }>(
+  questions: T[],
+  order: QuestionsOrder | null,
+  answeredIds: Set<string>
+): T[] {
+  const currentId = getCurrentAdaptiveQuestionId(order, answeredIds);
+  return applyQuestionsOrder(questions.filter(question => question.id === currentId), order);
+}
+
+// =============================================================================
+// ANSWERING
+// =============================================================================
+
+/**
+ * Grade and record the answer to the current question, update the ability
+ * estimate and serve the next question unless a stop rule is met. Answers
+ * are final; an empty answer counts as incorrect for the estimate. A second
+ * answer to the same question (a double submit) gets a conflict error.
+ */
+export async function answerAdaptiveQuestion(
+  attempt: Pick<TestAttempt, 'id' | 'questionsOrder'>,
+  testSeries: AdaptiveTestSeries,
+  question: AdaptiveQuestion,
+  answer: SavedAnswer
+): Promise<AdaptiveStep | ApiConflictError> {
+  const order = parseQuestionsOrder(attempt.questionsOrder) ?? { seed: '', questions: [question.id], options: {} };
+  const userAnswer = toOriginalAnswer(question.id, toUserAnswer(answer), order);
+  const graded = scoreQuestion(question, userAnswer, getMarkingScheme(testSeries.exam, testSeries));
+
+  // The answer and the next question are stored together, so a rejected
+  // duplicate answer leaves the attempt as it was
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.questionAttempt.create({
+        data: {
+          testAttemptId: attempt.id,
+          questionId: question.id,
+          questionVersion: question.version,
+          userAnswer,
+          isCorrect: graded.isCorrect,
+          isSkipped: graded.isSkipped,
+          isMarked: answer.bookmarked,
+          timeTaken: Math.round(answer.timeSpent ?? 0),
+          marksAwarded: graded.marksAwarded,
+          gradingStatus: graded.gradingStatus,
+        },
+      });
+
+      const answers = await tx.questionAttempt.findMany({
+        where: { testAttemptId: attempt.id },
+        select: { questionId: true, isCorrect: true },
+      });
+
+      const questions = new Map(testSeries.questions.map(q => [q.id, q]));
+      const estimate = estimateAbility(answers.flatMap(({ questionId, isCorrect }) => {
+        const answered = questions.get(questionId);
+        return answered ? [{ difficulty: getQuestionDifficulty(answered), isCorrect }] : [];
+      }));
+
+      const served = new Set(order.questions);
+      const candidates = getAdaptivePool(testSeries.questions).filter(q => q.isActive && !served.has(q.id));
+      const stopReason = getAdaptiveStopReason(testSeries, answers.length, candidates.length, estimate.standardError);
+      const nextQuestionId = stopReason
+        ? null
+        : pickNextQuestion(candidates, estimate.ability, `${order.seed}:${order.questions.length}`);
+
+      const updated = await tx.testAttempt.update({
+        where: { id: attempt.id },
+        data: {
+          questionsOrder: {
+            ...order,
+            questions: nextQuestionId ? [...order.questions, nextQuestionId] : order.questions,
+          },
+          currentQuestionIndex: nextQuestionId ? order.questions.length : order.questions.length - 1,
+          abilityEstimate: estimate.ability,
+          abilityStandardError: estimate.standardError,
+        },
+      });
+
+      return { attempt: updated, estimate, stopReason, nextQuestionId };
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return new ApiConflictError('This question has already been answered');
+    }
+    throw error;
+  }
+}
@@ -10,6 +10,7 @@ import { ZodSchema, ZodError } from 'zod';
 // import { auth } from '@/lib/auth';
 // import { prisma } from '@/lib/prisma';
 import type { UserRole, AuthUser } from '@/types';
+import { ERROR_CODES } from './errors';
 
 // =============================================================================
 // TYPES AND INTERFACES
@@ -91,6 +92,18 @@ export class ApiAuthenticationError extends Error {
   }
 }
 
+export class ApiPaymentRequiredError extends Error {
+  statusCode = 402;
+  code = ERROR_CODES.PAYMENT_REQUIRED;
+  details: any;
+
+  constructor(message = 'Payment required', details?: any) {
+    super(message);
+    this.name = 'ApiPaymentRequiredError';
+    this.details = details;
+  }
+}
+
 export class ApiAuthorizationError extends Error {
   statusCode = 403;
   code = 'AUTHORIZATION_ERROR';
@@ -230,6 +243,7 @@ export function sendError(
   // Handle different error types
   if (error instanceof ApiValidationError ||
       error instanceof ApiAuthenticationError ||
+      error instanceof ApiPaymentRequiredError ||
       error instanceof ApiAuthorizationError ||
       error instanceof ApiNotFoundError ||
       error instanceof ApiConflictError ||
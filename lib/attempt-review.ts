@@ -0,0 +1,361 @@
+/**
+ * Attempt Review
+ *
+ * Question-by-question review of a submitted attempt, and the access and
+ * result visibility rules it shares with the result and analytics routes. The exam's
+ * showResults setting decides when scores and answer keys are shown; the test
+ * series' showAnswers and showExplanations decide what is shown.
+ */
+
+import type { Exam, GradingStatus, Prisma, QuestionType, ResultVisibility, TestAttempt, TestSeries } from '@prisma/client';
+import type { AuthUser } from '@/types';
+import { prisma } from './prisma';
+import {
+  ApiAuthorizationError,
+  ApiConflictError,
+  ApiNotFoundError,
+  ApiValidationError,
+  hasPermission,
+} from './api-utils';
+import { applyQuestionsOrder, parseQuestionsOrder, toDisplayedAnswer } from './randomization';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ReviewAnswerStatus =
+  | 'CORRECT'
+  | 'PARTIALLY_CORRECT'
+  | 'INCORRECT'
+  | 'SKIPPED'
+  | 'PENDING_GRADING'
+  | 'ANSWERED'; // correctness not visible yet
+
+export interface ReviewVisibility {
+  results: boolean; // correctness and marks
+  answers: boolean; // answer keys
+  explanations: boolean;
+  availableAt: Date | null; // when hidden results are released, if known
+}
+
+export interface ReviewQuestion {
+  questionId: string;
+  questionNumber: number;
+  version: number; // revision the answer was graded against
+  type: QuestionType;
+  title: string | null;
+  questionText: string;
+  options: Prisma.JsonValue; // in the order the student saw them
+  image: string | null;
+  audio: string | null;
+  video: string | null;
+  marks: number;
+  negativeMarks: number;
+  subject: string | null;
+  topic: string | null;
+  userAnswer: Prisma.JsonValue; // displayed option indices for choice questions
+  status: ReviewAnswerStatus;
+  isMarked: boolean;
+  timeTaken: number; // in seconds
+  marksAwarded: number | null;
+  feedback: string | null; // grader feedback on descriptive answers
+  correctAnswer: Prisma.JsonValue; // displayed option indices for choice questions
+  explanation: string | null;
+}
+
+export interface AttemptReviewPayload {
+  attemptId: string;
+  testSeriesId: string;
+  submittedAt: Date;
+  visibility: ReviewVisibility;
+  questions: ReviewQuestion[];
+}
+
+export type AttemptAccess =
+  | {
+      granted: true;
+      isOwner: boolean;
+      canReview: boolean; // the series creator or a moderator
+      visibility: ReviewVisibility;
+    }
+  | {
+      granted: false;
+      error: ApiNotFoundError | ApiAuthorizationError | ApiValidationError | ApiConflictError;
+    };
+
+export interface ResultVisibilitySettings {
+  showResults?: ResultVisibility | undefined;
+  showResultsImmediately?: boolean | undefined;
+}
+
+// =============================================================================
+// VISIBILITY
+// =============================================================================
+
+/**
+ * Why an exam's results are still hidden from students, or null once they
+ * may be shown. AFTER_END_TIME exams without an end date show results at once.
+ */
+export function getResultsEmbargo(
+  exam: Pick<Exam, 'showResults' | 'endDate'>,
+  now: Date = new Date()
+): string | null {
+  switch (exam.showResults) {
+    case 'NEVER':
+      return 'Results are not published for this exam';
+    case 'AFTER_END_TIME':
+      return exam.endDate && exam.endDate > now
+        ? `Results will be available after the exam ends on ${exam.endDate.toISOString()}`
+        : null;
+    case 'IMMEDIATE':
+      return null;
+  }
+}
+
+/**
+ * What an attempt review may show. Reviewers (the series creator and
+ * moderators) always see everything.
+ */
+export function getReviewVisibility(
+  exam: Pick<Exam, 'showResults' | 'endDate'>,
+  testSeries: Pick<TestSeries, 'showAnswers' | 'showExplanations'>,
+  attempt: Pick<TestAttempt, 'resultsReleasedAt'>,
+  canReview: boolean,
+  now: Date = new Date()
+): ReviewVisibility {
+  if (canReview) {
+    return { results: true, answers: true, explanations: true, availableAt: null };
+  }
+
+  const results = attempt.resultsReleasedAt !== null && getResultsEmbargo(exam, now) === null;
+
+  return {
+    results,
+    answers: results && testSeries.showAnswers,
+    explanations: results && testSeries.showExplanations,
+    availableAt: !results && exam.showResults === 'AFTER_END_TIME' && exam.endDate && exam.endDate > now
+      ? exam.endDate
+      : null,
+  };
+}
+
+/**
+ * Check whether a user may look at a submitted attempt of an exam: students
+ * their own, reviewers any. With requireResults (scores, ranks, analytics)
+ * students also wait for the attempt's release and the exam's embargo; the
+ * review shows their own answers before that, without the key.
+ */
+export async function getAttemptAccess(
+  examId: string,
+  attemptId: string,
+  user: AuthUser,
+  { requireResults }: { requireResults: boolean }
+): Promise<AttemptAccess> {
+  const attempt = await prisma.testAttempt.findUnique({
+    where: { id: attemptId },
+    select: {
+      userId: true,
+      completedAt: true,
+      resultsReleasedAt: true,
+      testSeries: {
+        select: {
+          examId: true,
+          creatorId: true,
+          showAnswers: true,
+          showExplanations: true,
+          exam: {
+            select: { showResults: true, endDate: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!attempt || attempt.testSeries.examId !== examId) {
+    return { granted: false, error: new ApiNotFoundError('Attempt not found') };
+  }
+
+  const isOwner = attempt.userId === user.id;
+  const canReview = hasPermission(user, 'content:moderate') || attempt.testSeries.creatorId === user.id;
+
+  if (!isOwner && !canReview) {
+    return { granted: false, error: new ApiAuthorizationError('You do not have permission to view this attempt') };
+  }
+
+  if (!attempt.completedAt) {
+    return { granted: false, error: new ApiValidationError('Attempt has not been submitted yet') };
+  }
+
+  if (requireResults && !canReview) {
+    if (!attempt.resultsReleasedAt) {
+      return { granted: false, error: new ApiConflictError('Results will be available once all answers are graded') };
+    }
+
+    const embargo = getResultsEmbargo(attempt.testSeries.exam);
+    if (embargo) {
+      return { granted: false, error: new ApiAuthorizationError(embargo) };
+    }
+  }
+
+  return {
+    granted: true,
+    isOwner,
+    canReview,
+    visibility: getReviewVisibility(attempt.testSeries.exam, attempt.testSeries, attempt, canReview),
+  };
+}
+
+/**
+ * Keep showResults and the older showResultsImmediately flag in step when an
+ * exam is saved. An explicit showResults wins; turning showResultsImmediately
+ * off holds results until the exam ends.
+ */
+export function toResultVisibilityData(
+  settings: ResultVisibilitySettings
+): { showResults?: ResultVisibility; showResultsImmediately?: boolean } {
+  if (settings.showResults) {
+    return {
+      showResults: settings.showResults,
+      showResultsImmediately: settings.showResults === 'IMMEDIATE',
+    };
+  }
+
+  if (settings.showResultsImmediately !== undefined) {
+    return {
+      showResults: settings.showResultsImmediately ? 'IMMEDIATE' : 'AFTER_END_TIME',
+      showResultsImmediately: settings.showResultsImmediately,
+    };
+  }
+
+  return {};
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Drop per-option explanations from stored choice options
+ */
+export function withoutOptionExplanations(options: Prisma.JsonValue): Prisma.JsonValue {
+  if (!Array.isArray(options)) {
+    return options;
+  }
+
+  return options.map(option =>
+    option && typeof option === 'object' && !Array.isArray(option)
+      ? Object.fromEntries(Object.entries(option).filter(([key]) => key !== 'explanation'))
+      : option
+  );
+}
+
+function getAnswerStatus(
+  answer: { isSkipped: boolean; isCorrect: boolean; marksAwarded: number; gradingStatus: GradingStatus } | undefined,
+  showResults: boolean
+): ReviewAnswerStatus {
+  if (!answer || answer.isSkipped) return 'SKIPPED';
+  if (!showResults) return 'ANSWERED';
+  if (answer.gradingStatus === 'PENDING') return 'PENDING_GRADING';
+  if (answer.isCorrect) return 'CORRECT';
+  return answer.marksAwarded > 0 ? 'PARTIALLY_CORRECT' : 'INCORRECT';
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Build the review of a submitted attempt: every question it was served, in
+ * the order the student saw it and as it read when answered, with the
+ * student's answer and whatever the visibility allows of the key.
+ */
+export async function buildAttemptReview(
+  attemptId: string,
+  visibility: ReviewVisibility
+): Promise<AttemptReviewPayload | null> {
+  const attempt = await prisma.testAttempt.findUnique({
+    where: { id: attemptId },
+    include: {
+      questionAttempts: {
+        include: { revision: true },
+      },
+      testSeries: {
+        select: {
+          id: true,
+          questions: { orderBy: { createdAt: 'asc' } },
+        },
+      },
+    },
+  });
+
+  if (!attempt || !attempt.completedAt) {
+    return null;
+  }
+
+  const order = parseQuestionsOrder(attempt.questionsOrder);
+  const answers = new Map(attempt.questionAttempts.map(answer => [answer.questionId, answer]));
+
+  // Attempts from before randomization have no stored order; they were served the active questions
+  const served = attempt.testSeries.questions.filter(question =>
+    answers.has(question.id) || (order ? order.questions.includes(question.id) : question.isActive)
+  );
+
+  const content = served.map(question => {
+    const source = answers.get(question.id)?.revision ?? question;
+    return {
+      id: question.id,
+      version: source.version,
+      type: source.type,
+      title: source.title,
+      questionText: source.questionText,
+      options: source.options,
+      correctAnswer: source.correctAnswer,
+      explanation: source.explanation,
+      marks: Number(source.marks),
+      negativeMarks: Number(source.negativeMarks),
+      subject: source.subject,
+      topic: source.topic,
+      image: source.image,
+      audio: source.audio,
+      video: source.video,
+    };
+  });
+
+  const questions = applyQuestionsOrder(content, order).map((question, index): ReviewQuestion => {
+    const answer = answers.get(question.id);
+    const marksAwarded = answer ? Number(answer.marksAwarded) : 0;
+
+    return {
+      questionId: question.id,
+      questionNumber: index + 1,
+      version: question.version,
+      type: question.type,
+      title: question.title,
+      questionText: question.questionText,
+      options: visibility.explanations ? question.options : withoutOptionExplanations(question.options),
+      image: question.image,
+      audio: question.audio,
+      video: question.video,
+      marks: question.marks,
+      negativeMarks: question.negativeMarks,
+      subject: question.subject,
+      topic: question.topic,
+      userAnswer: answer?.userAnswer != null ? toDisplayedAnswer(question.id, answer.userAnswer, order) : null,
+      status: getAnswerStatus(answer && { ...answer, marksAwarded }, visibility.results),
+      isMarked: answer?.isMarked ?? false,
+      timeTaken: answer?.timeTaken ?? 0,
+      marksAwarded: visibility.results ? marksAwarded : null,
+      feedback: visibility.results ? answer?.feedback ?? null : null,
+      correctAnswer: visibility.answers ? toDisplayedAnswer(question.id, question.correctAnswer, order) : null,
+      explanation: visibility.explanations ? question.explanation : null,
+    };
+  });
+
+  return {
+    attemptId: attempt.id,
+    testSeriesId: attempt.testSeries.id,
+    submittedAt: attempt.completedAt,
+    visibility,
+    questions,
+  };
+}
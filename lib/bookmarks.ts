@@ -0,0 +1,299 @@
+/**
+ * Question Bookmarks
+ *
+ * Questions students save for good from an attempt review, with a personal
+ * note and tags, to browse later by subject and topic. Unlike isMarked on a
+ * question attempt ("marked for review" while taking the test) a bookmark
+ * outlives the attempt.
+ *
+ * Only questions the student answered in a submitted attempt can be
+ * bookmarked; copies of bank questions in custom tests are bookmarked as their
+ * bank question. Answer keys and explanations are shown as the review of the
+ * student's own attempt shows them, so never before its result is released.
+ */
+
+import type { Prisma, Question, QuestionBookmark, QuestionType } from '@prisma/client';
+import { prisma } from './prisma';
+import { getReviewVisibility, withoutOptionExplanations, type ReviewVisibility } from './attempt-review';
+import { parseQuestionsOrder } from './randomization';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BookmarkFilters {
+  search?: string | undefined;
+  subject?: string | undefined;
+  topic?: string | undefined;
+  tag?: string | undefined;
+}
+
+export interface BookmarkedQuestion {
+  id: string;
+  note: string | null;
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  question: {
+    id: string;
+    type: QuestionType;
+    title: string | null;
+    questionText: string;
+    options: Prisma.JsonValue;
+    image: string | null;
+    audio: string | null;
+    video: string | null;
+    subject: string | null;
+    topic: string | null;
+    correctAnswer: Prisma.JsonValue; // null while hidden
+    explanation: string | null;
+  };
+}
+
+export interface BookmarkSubject {
+  subject: string | null;
+  count: number;
+  topics: { topic: string | null; count: number }[];
+}
+
+type BookmarkWithQuestion = QuestionBookmark & { question: Question };
+
+type KeyVisibility = Pick<ReviewVisibility, 'answers' | 'explanations'>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Trim, lowercase and deduplicate bookmark tags
+ */
+export function normalizeBookmarkTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Build the filter for a student's bookmarks
+ */
+export function buildBookmarkWhere(userId: string, filters: BookmarkFilters): Prisma.QuestionBookmarkWhereInput {
+  const where: Prisma.QuestionBookmarkWhereInput = { userId };
+
+  if (filters.search) {
+    where.OR = [
+      { note: { contains: filters.search, mode: 'insensitive' } },
+      { question: { questionText: { contains: filters.search, mode: 'insensitive' } } },
+      { question: { title: { contains: filters.search, mode: 'insensitive' } } },
+    ];
+  }
+
+  if (filters.subject || filters.topic) {
+    where.question = {
+      ...(filters.subject && { subject: { equals: filters.subject, mode: 'insensitive' } }),
+      ...(filters.topic && { topic: { equals: filters.topic, mode: 'insensitive' } }),
+    };
+  }
+
+  if (filters.tag) {
+    where.tags = { has: filters.tag.trim().toLowerCase() };
+  }
+
+  return where;
+}
+
+/**
+ * Shape a bookmark for the bookmarks screen
+ */
+function toBookmarkedQuestion(bookmark: BookmarkWithQuestion, visibility: KeyVisibility): BookmarkedQuestion {
+  const { question } = bookmark;
+  const { explanations } = visibility;
+
+  return {
+    id: bookmark.id,
+    note: bookmark.note,
+    tags: bookmark.tags,
+    createdAt: bookmark.createdAt,
+    updatedAt: bookmark.updatedAt,
+    question: {
+      id: question.id,
+      type: question.type,
+      title: question.title,
+      questionText: question.questionText,
+      options: explanations ? question.options : withoutOptionExplanations(question.options),
+      image: question.image,
+      audio: question.audio,
+      video: question.video,
+      subject: question.subject,
+      topic: question.topic,
+      correctAnswer: visibility.answers ? question.correctAnswer : null,
+      explanation: explanations ? question.explanation : null,
+    },
+  };
+}
+
+// =============================================================================
+// BOOKMARKING
+// =============================================================================
+
+/**
+ * Resolve the question a student may bookmark: one they were served and
+ * answered in an attempt they have submitted. Returns the bank question to
+ * bookmark, or null.
+ */
+export async function findBookmarkableQuestion(userId: string, questionId: string): Promise<string | null> {
+  const answers = await prisma.questionAttempt.findMany({
+    where: { questionId, testAttempt: { userId, completedAt: { not: null } } },
+    select: {
+      question: { select: { sourceQuestionId: true } },
+      testAttempt: { select: { questionsOrder: true } },
+    },
+  });
+
+  // Attempts from before randomization have no stored order
+  const answered = answers.find(answer => {
+    const order = parseQuestionsOrder(answer.testAttempt.questionsOrder);
+    return !order || order.questions.includes(questionId);
+  });
+
+  return answered ? answered.question.sourceQuestionId ?? questionId : null;
+}
+
+/**
+ * What a student may see of the keys of bookmarked bank questions: the most
+ * their reviews of the submitted attempts that answered them (or a custom
+ * test copy of them) show
+ */
+async function getBookmarkKeyVisibility(
+  userId: string,
+  questionIds: string[]
+): Promise<Map<string, KeyVisibility>> {
+  const answers = await prisma.questionAttempt.findMany({
+    where: {
+      testAttempt: { userId, completedAt: { not: null } },
+      OR: [
+        { questionId: { in: questionIds } },
+        { question: { sourceQuestionId: { in: questionIds } } },
+      ],
+    },
+    select: {
+      questionId: true,
+      question: { select: { sourceQuestionId: true } },
+      testAttempt: {
+        select: {
+          resultsReleasedAt: true,
+          testSeries: {
+            select: {
+              showAnswers: true,
+              showExplanations: true,
+              exam: { select: { showResults: true, endDate: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const visibility = new Map<string, KeyVisibility>();
+  for (const answer of answers) {
+    const { testSeries } = answer.testAttempt;
+    const review = getReviewVisibility(testSeries.exam, testSeries, answer.testAttempt, false);
+    const bankId = answer.question.sourceQuestionId ?? answer.questionId;
+    const current = visibility.get(bankId);
+
+    visibility.set(bankId, {
+      answers: review.answers || (current?.answers ?? false),
+      explanations: review.explanations || (current?.explanations ?? false),
+    });
+  }
+
+  return visibility;
+}
+
+/**
+ * A student's bookmarks on the questions of an attempt review, keyed by the
+ * served question (custom test copies map to the bookmark on their source)
+ */
+export async function getReviewBookmarks(
+  userId: string,
+  questionIds: string[]
+): Promise<Map<string, QuestionBookmark>> {
+  const questions = await prisma.question.findMany({
+    where: { id: { in: questionIds } },
+    select: { id: true, sourceQuestionId: true },
+  });
+  const bankIds = new Map(questions.map(question => [question.id, question.sourceQuestionId ?? question.id]));
+
+  const bookmarks = await prisma.questionBookmark.findMany({
+    where: { userId, questionId: { in: Array.from(new Set(bankIds.values())) } },
+  });
+  const byBankId = new Map(bookmarks.map(bookmark => [bookmark.questionId, bookmark]));
+
+  return new Map(questionIds.flatMap(id => {
+    const bookmark = byBankId.get(bankIds.get(id) ?? id);
+    return bookmark ? [[id, bookmark] as const] : [];
+  }));
+}
+
+// =============================================================================
+// BROWSING
+// =============================================================================
+
+/**
+ * A page of a student's bookmarks, newest first
+ */
+export async function listBookmarks(
+  userId: string,
+  filters: BookmarkFilters,
+  skip: number,
+  take: number
+): Promise<{ bookmarks: BookmarkedQuestion[]; total: number }> {
+  const where = buildBookmarkWhere(userId, filters);
+
+  const [bookmarks, total] = await Promise.all([
+    prisma.questionBookmark.findMany({
+      where,
+      skip,
+      take,
+      orderBy: { createdAt: 'desc' },
+      include: { question: true },
+    }),
+    prisma.questionBookmark.count({ where }),
+  ]);
+
+  const visibility = await getBookmarkKeyVisibility(userId, bookmarks.map(bookmark => bookmark.questionId));
+  const hidden: KeyVisibility = { answers: false, explanations: false };
+
+  return {
+    bookmarks: bookmarks.map(bookmark => toBookmarkedQuestion(bookmark, visibility.get(bookmark.questionId) ?? hidden)),
+    total,
+  };
+}
+
+/**
+ * Subjects and topics across a student's bookmarks with counts, for browsing
+ */
+export async function getBookmarkSubjects(userId: string): Promise<BookmarkSubject[]> {
+  const bookmarks = await prisma.questionBookmark.findMany({
+    where: { userId },
+    select: { question: { select: { subject: true, topic: true } } },
+  });
+
+  const subjects = new Map<string | null, Map<string | null, number>>();
+  for (const { question } of bookmarks) {
+    const topics = subjects.get(question.subject) ?? new Map<string | null, number>();
+    topics.set(question.topic, (topics.get(question.topic) ?? 0) + 1);
+    subjects.set(question.subject, topics);
+  }
+
+  // Alphabetical, with questions that have no subject or topic last
+  const byName = (a: string | null, b: string | null) =>
+    a === null || b === null ? Number(a === null) - Number(b === null) : a.localeCompare(b);
+
+  return Array.from(subjects.entries())
+    .map(([subject, topics]) => ({
+      subject,
+      count: Array.from(topics.values()).reduce((sum, count) => sum + count, 0),
+      topics: Array.from(topics.entries())
+        .map(([topic, count]) => ({ topic, count }))
+        .sort((a, b) => byName(a.topic, b.topic)),
+    }))
+    .sort((a, b) => byName(a.subject, b.subject));
+}
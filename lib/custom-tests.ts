@@ -0,0 +1,368 @@
+/**
+ * Custom Tests
+ *
+ * Practice tests students build for themselves from the question bank: they
+ * pick subjects, topics, a difficulty mix, a question count and a duration,
+ * and get a personal TestSeries under a CUSTOM_TEST exam. Questions are
+ * copied into the series (keeping a link to the bank question), so the usual
+ * attempt, scoring and review flow runs on them unchanged.
+ *
+ * Questions only come from series the student could open anyway (free or
+ * entitled) whose exam already shows results, since the copies' answer keys
+ * are shown in the custom test's review.
+ *
+ * Personal series are hidden from exam listings and never ranked.
+ */
+
+import type { Exam, Prisma, Question, QuestionDifficulty, TestSeries, UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { getResultsEmbargo } from './attempt-review';
+import { checkEntitlement } from './entitlements';
+import { toRevisionData } from './question-bank';
+import { parseQuestionsOrder, seededShuffle } from './randomization';
+import type { CustomTestFormData } from './validations/exam';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DifficultyAllocation = Record<QuestionDifficulty, number>;
+
+type CustomTestExam = Pick<Exam, 'id' | 'totalMarks' | 'passingMarks'>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const DIFFICULTY_LEVELS: QuestionDifficulty[] = ['EASY', 'MEDIUM', 'HARD', 'VERY_HARD'];
+
+/**
+ * Split a question count over difficulty levels by percentage share, giving
+ * leftover questions to the largest remainders
+ */
+export function allocateDifficultyMix(
+  questionCount: number,
+  mix: Record<QuestionDifficulty, number>
+): DifficultyAllocation {
+  const exact = DIFFICULTY_LEVELS.map(level => ({ level, count: (questionCount * mix[level]) / 100 }));
+  const allocation = Object.fromEntries(
+    exact.map(({ level, count }) => [level, Math.floor(count)])
+  ) as DifficultyAllocation;
+
+  let leftover = questionCount - Object.values(allocation).reduce((sum, count) => sum + count, 0);
+  const byRemainder = [...exact].sort((a, b) => (b.count % 1) - (a.count % 1));
+  for (const { level } of byRemainder) {
+    if (leftover === 0) break;
+    allocation[level]++;
+    leftover--;
+  }
+
+  return allocation;
+}
+
+/**
+ * Bank questions a student has already been served in any attempt. Copies in
+ * custom tests count as their bank question.
+ */
+export async function getSeenQuestionIds(userId: string): Promise<Set<string>> {
+  const [attempts, answers] = await Promise.all([
+    prisma.testAttempt.findMany({
+      where: { userId },
+      select: { questionsOrder: true },
+    }),
+    // Attempts from before question orders were stored
+    prisma.questionAttempt.findMany({
+      where: { testAttempt: { userId } },
+      distinct: ['questionId'],
+      select: { questionId: true },
+    }),
+  ]);
+
+  const seen = new Set([
+    ...attempts.flatMap(attempt => parseQuestionsOrder(attempt.questionsOrder)?.questions ?? []),
+    ...answers.map(answer => answer.questionId),
+  ]);
+
+  const copies = await prisma.question.findMany({
+    where: { id: { in: Array.from(seen) }, sourceQuestionId: { not: null } },
+    select: { sourceQuestionId: true },
+  });
+  copies.forEach(copy => seen.add(copy.sourceQuestionId!));
+
+  return seen;
+}
+
+/**
+ * Series a student's custom tests can draw from: published bank series the
+ * student is entitled to, whose exam shows results already and that are not
+ * a live test still running
+ */
+export async function getCustomTestSourceSeriesIds(
+  user: { id: string; role: UserRole },
+  now: Date = new Date()
+): Promise<string[]> {
+  const series = await prisma.testSeries.findMany({
+    where: {
+      isPublished: true,
+      isPersonal: false,
+      OR: [{ liveTest: null }, { liveTest: { endTime: { lte: now } } }],
+    },
+    select: {
+      id: true,
+      isFree: true,
+      exam: { select: { isFree: true, showResults: true, endDate: true } },
+    },
+  });
+
+  const sources: string[] = [];
+  for (const testSeries of series) {
+    if (getResultsEmbargo(testSeries.exam, now) !== null) {
+      continue;
+    }
+
+    const isFree = testSeries.isFree && testSeries.exam.isFree;
+    if (isFree || (await checkEntitlement(user, { type: 'test_series', id: testSeries.id })).granted) {
+      sources.push(testSeries.id);
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Build the filter for bank questions a custom test can draw from: verified,
+ * auto-graded questions of the given source series
+ */
+export function buildCustomTestPoolWhere(
+  spec: Pick<CustomTestFormData, 'subjects' | 'topics'>,
+  sourceSeriesIds: string[],
+  excludeIds: Set<string>
+): Prisma.QuestionWhereInput {
+  return {
+    isActive: true,
+    isVerified: true,
+    // Nobody grades descriptive answers in a personal test
+    type: { not: 'DESCRIPTIVE' },
+    sourceQuestionId: null,
+    id: { notIn: Array.from(excludeIds) },
+    subject: { in: spec.subjects, mode: 'insensitive' },
+    ...(spec.topics && spec.topics.length > 0 && { topic: { in: spec.topics, mode: 'insensitive' } }),
+    testSeriesId: { in: sourceSeriesIds },
+  };
+}
+
+/**
+ * Pick questions for a custom test following the difficulty mix. Levels with
+ * too few questions are topped up from the others; fewer than questionCount
+ * are returned when the pool runs out.
+ */
+export function pickCustomTestQuestions(
+  candidates: Pick<Question, 'id' | 'difficulty'>[],
+  spec: Pick<CustomTestFormData, 'questionCount' | 'difficultyMix'>,
+  seed: string
+): string[] {
+  const shuffled = seededShuffle(candidates, seed);
+
+  if (!spec.difficultyMix) {
+    return shuffled.slice(0, spec.questionCount).map(question => question.id);
+  }
+
+  const allocation = allocateDifficultyMix(spec.questionCount, spec.difficultyMix);
+  const picked = new Set<string>();
+
+  for (const question of shuffled) {
+    if (allocation[question.difficulty] > 0) {
+      allocation[question.difficulty]--;
+      picked.add(question.id);
+    }
+  }
+
+  for (const question of shuffled) {
+    if (picked.size >= spec.questionCount) break;
+    picked.add(question.id);
+  }
+
+  return Array.from(picked);
+}
+
+/**
+ * Content of a bank question carried over into its custom test copies
+ */
+function toQuestionCopyContent(source: Question) {
+  return {
+    title: source.title,
+    questionText: source.questionText,
+    options: source.options as Prisma.InputJsonValue,
+    correctAnswer: source.correctAnswer as Prisma.InputJsonValue,
+    explanation: source.explanation,
+    type: source.type,
+    difficulty: source.difficulty,
+    marks: source.marks,
+    negativeMarks: source.negativeMarks,
+    partialMarking: source.partialMarking,
+    subject: source.subject,
+    topic: source.topic,
+    subtopic: source.subtopic,
+    tags: source.tags,
+    language: source.language,
+    image: source.image,
+    audio: source.audio,
+    video: source.video,
+    version: source.version,
+  };
+}
+
+/**
+ * Copy a bank question into a custom test series
+ */
+function toQuestionCopyData(
+  source: Question,
+  testSeriesId: string,
+  createdAt: Date
+): Prisma.QuestionCreateManyInput {
+  return {
+    ...toQuestionCopyContent(source),
+    testSeriesId,
+    creatorId: source.creatorId,
+    sourceQuestionId: source.id,
+    isVerified: true,
+    verifiedAt: source.verifiedAt,
+    verifiedBy: source.verifiedBy,
+    createdAt,
+  };
+}
+
+// =============================================================================
+// BUILDING
+// =============================================================================
+
+/**
+ * Bring the custom test copies of a bank question up to its current revision
+ * once that revision is approved, so their answers can be re-graded.
+ * Returns the updated copies; none while the revision awaits review.
+ */
+export async function syncQuestionCopies(
+  tx: Prisma.TransactionClient,
+  source: Question
+): Promise<Question[]> {
+  const revision = await tx.questionRevision.findUnique({
+    where: { questionId_version: { questionId: source.id, version: source.version } },
+    select: { createdBy: true, status: true, reviewedAt: true, reviewedBy: true, reviewComment: true },
+  });
+
+  if (revision?.status !== 'APPROVED') {
+    return [];
+  }
+
+  const copies = await tx.question.findMany({
+    where: { sourceQuestionId: source.id, version: { not: source.version } },
+    select: { id: true },
+  });
+
+  const updated: Question[] = [];
+  for (const { id } of copies) {
+    const copy = await tx.question.update({
+      where: { id },
+      data: toQuestionCopyContent(source),
+    });
+
+    // Copies are not reviewed on their own; they carry the bank question's review
+    await tx.questionRevision.create({
+      data: {
+        ...toRevisionData(copy, revision.createdBy),
+        status: revision.status,
+        reviewedAt: revision.reviewedAt,
+        reviewedBy: revision.reviewedBy,
+        reviewComment: revision.reviewComment,
+      },
+    });
+
+    updated.push(copy);
+  }
+
+  return updated;
+}
+
+/**
+ * Pick unseen bank questions for a student's custom test
+ */
+export async function selectCustomTestQuestions(
+  user: { id: string; role: UserRole },
+  spec: CustomTestFormData,
+  seed: string,
+  now: Date = new Date()
+): Promise<string[]> {
+  const [seen, sourceSeriesIds] = await Promise.all([
+    getSeenQuestionIds(user.id),
+    getCustomTestSourceSeriesIds(user, now),
+  ]);
+  const candidates = await prisma.question.findMany({
+    where: buildCustomTestPoolWhere(spec, sourceSeriesIds, seen),
+    select: { id: true, difficulty: true },
+  });
+
+  return pickCustomTestQuestions(candidates, spec, seed);
+}
+
+/**
+ * Create a student's personal test series with copies of the picked questions,
+ * grouped by subject in the order the student listed them
+ */
+export async function createCustomTest(
+  userId: string,
+  exam: CustomTestExam,
+  spec: CustomTestFormData,
+  questionIds: string[],
+  seed: string
+): Promise<TestSeries> {
+  const sources = await prisma.question.findMany({
+    where: { id: { in: questionIds } },
+  });
+
+  const subjectOrder = spec.subjects.map(subject => subject.toLowerCase());
+  const subjectIndex = (question: Question) => subjectOrder.indexOf(question.subject?.toLowerCase() ?? '');
+  const pickedOrder = new Map(questionIds.map((id, index) => [id, index]));
+  sources.sort((a, b) => subjectIndex(a) - subjectIndex(b) || pickedOrder.get(a.id)! - pickedOrder.get(b.id)!);
+
+  const totalMarks = Math.round(sources.reduce((sum, question) => sum + Number(question.marks), 0));
+  const passingMarks = exam.totalMarks > 0
+    ? Math.round((totalMarks * exam.passingMarks) / exam.totalMarks)
+    : 0;
+
+  return prisma.$transaction(async (tx) => {
+    const testSeries = await tx.testSeries.create({
+      data: {
+        title: spec.title ?? `Custom test: ${spec.subjects.join(', ')}`,
+        slug: `custom-${seed}`,
+        examId: exam.id,
+        creatorId: userId,
+        isFree: true,
+        isPublished: true,
+        isPersonal: true,
+        totalQuestions: sources.length,
+        totalMarks,
+        passingMarks,
+        duration: spec.duration,
+        tags: spec.subjects,
+      },
+    });
+
+    // Questions are served in createdAt order
+    const createdAt = Date.now();
+    const copies = await tx.question.createManyAndReturn({
+      data: sources.map((source, index) => toQuestionCopyData(source, testSeries.id, new Date(createdAt + index))),
+    });
+
+    // Answers point at the revision they were graded against
+    await tx.questionRevision.createMany({
+      data: copies.map(copy => ({
+        ...toRevisionData(copy, copy.creatorId),
+        status: 'APPROVED' as const,
+        reviewedAt: copy.verifiedAt,
+        reviewedBy: copy.verifiedBy,
+      })),
+    });
+
+    return testSeries;
+  });
+}
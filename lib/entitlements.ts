@@ -0,0 +1,240 @@
+/**
+ * Entitlement Service
+ *
+ * Answers "can user X access item Y" for paid content. Access is granted by,
+ * in order: the item being free, staff role or ownership, a course enrollment,
+ * a completed payment for the item (or its parent exam), or an active
+ * subscription whose features cover it.
+ *
+ * Subscription.features accepts a list of feature keys (strings or
+ * { id | name, enabled } objects) or a { key: boolean } map. Recognized keys:
+ * "all", a catalog key ("courses", "exams", "test_series", "live_classes")
+ * or an item key such as "exam:<id>".
+ */
+
+import type { Prisma, UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { ApiPaymentRequiredError } from './api-utils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Values stored in Payment.itemType
+ */
+export type EntitlementItemType = 'course' | 'exam' | 'test_series' | 'live_class';
+
+export interface EntitlementItem {
+  type: EntitlementItemType;
+  id: string;
+}
+
+export type EntitlementSource =
+  | 'FREE'
+  | 'STAFF'
+  | 'OWNER'
+  | 'ENROLLMENT'
+  | 'PURCHASE'
+  | 'SUBSCRIPTION';
+
+export interface Entitlement {
+  granted: boolean;
+  source: EntitlementSource | null;
+  item: EntitlementItem;
+}
+
+interface EntitlementUser {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * Pricing and ownership details of an item, plus items whose purchase also covers it
+ */
+interface ResolvedItem {
+  title: string;
+  isFree: boolean;
+  ownerId: string | null;
+  parents: EntitlementItem[];
+}
+
+const STAFF_ROLES: UserRole[] = ['ADMIN', 'SUPER_ADMIN'];
+
+const CATALOG_FEATURES: Record<EntitlementItemType, string> = {
+  course: 'courses',
+  exam: 'exams',
+  test_series: 'test_series',
+  live_class: 'live_classes',
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Load the details of an item needed to decide access
+ */
+async function resolveItem(item: EntitlementItem): Promise<ResolvedItem | null> {
+  switch (item.type) {
+    case 'course': {
+      const course = await prisma.course.findUnique({
+        where: { id: item.id },
+        select: { title: true, isFree: true, instructorId: true },
+      });
+      return course && { title: course.title, isFree: course.isFree, ownerId: course.instructorId, parents: [] };
+    }
+    case 'exam': {
+      const exam = await prisma.exam.findUnique({
+        where: { id: item.id },
+        select: { title: true, isFree: true },
+      });
+      return exam && { title: exam.title, isFree: exam.isFree, ownerId: null, parents: [] };
+    }
+    case 'test_series': {
+      const testSeries = await prisma.testSeries.findUnique({
+        where: { id: item.id },
+        select: { title: true, isFree: true, creatorId: true, examId: true, exam: { select: { isFree: true } } },
+      });
+      // A free series inside a paid exam still requires access to the exam
+      return testSeries && {
+        title: testSeries.title,
+        isFree: testSeries.isFree && testSeries.exam.isFree,
+        ownerId: testSeries.creatorId,
+        parents: [{ type: 'exam', id: testSeries.examId }],
+      };
+    }
+    case 'live_class': {
+      const liveClass = await prisma.liveClass.findUnique({
+        where: { id: item.id },
+        select: { title: true, isFree: true, instructorId: true },
+      });
+      return liveClass && { title: liveClass.title, isFree: liveClass.isFree, ownerId: liveClass.instructorId, parents: [] };
+    }
+  }
+}
+
+/**
+ * Read the enabled feature keys from a Subscription.features value
+ */
+export function getSubscriptionFeatures(features: Prisma.JsonValue): Set<string> {
+  const keys = new Set<string>();
+
+  if (Array.isArray(features)) {
+    features.forEach(feature => {
+      if (typeof feature === 'string') {
+        keys.add(feature);
+      } else if (feature && typeof feature === 'object' && !Array.isArray(feature) && feature['enabled'] !== false) {
+        const key = feature['id'] ?? feature['name'];
+        if (typeof key === 'string') keys.add(key);
+      }
+    });
+  } else if (features && typeof features === 'object') {
+    Object.entries(features).forEach(([key, enabled]) => {
+      if (enabled) keys.add(key);
+    });
+  }
+
+  return keys;
+}
+
+/**
+ * Check whether a set of subscription features covers any of the given items
+ */
+export function featuresCover(features: Set<string>, items: EntitlementItem[]): boolean {
+  if (features.has('all')) {
+    return true;
+  }
+
+  return items.some(item =>
+    features.has(CATALOG_FEATURES[item.type]) || features.has(`${item.type}:${item.id}`)
+  );
+}
+
+const denied = (item: EntitlementItem): Entitlement => ({ granted: false, source: null, item });
+const granted = (item: EntitlementItem, source: EntitlementSource): Entitlement => ({ granted: true, source, item });
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Decide whether a user (or an anonymous visitor) can access an item.
+ * Unknown items are never granted.
+ */
+export async function checkEntitlement(
+  user: EntitlementUser | null | undefined,
+  item: EntitlementItem
+): Promise<Entitlement> {
+  const resolved = await resolveItem(item);
+
+  if (!resolved) {
+    return denied(item);
+  }
+
+  if (resolved.isFree) {
+    return granted(item, 'FREE');
+  }
+
+  if (!user) {
+    return denied(item);
+  }
+
+  if (STAFF_ROLES.includes(user.role)) {
+    return granted(item, 'STAFF');
+  }
+
+  if (resolved.ownerId === user.id) {
+    return granted(item, 'OWNER');
+  }
+
+  if (item.type === 'course') {
+    const enrollment = await prisma.courseEnrollment.findUnique({
+      where: { userId_courseId: { userId: user.id, courseId: item.id } },
+      select: { id: true },
+    });
+    if (enrollment) {
+      return granted(item, 'ENROLLMENT');
+    }
+  }
+
+  const coveredItems = [item, ...resolved.parents];
+
+  const payment = await prisma.payment.findFirst({
+    where: {
+      userId: user.id,
+      status: 'COMPLETED',
+      OR: coveredItems.map(covered => ({ itemType: covered.type, itemId: covered.id })),
+    },
+    select: { id: true },
+  });
+  if (payment) {
+    return granted(item, 'PURCHASE');
+  }
+
+  const now = new Date();
+  const subscriptions = await prisma.subscription.findMany({
+    where: {
+      userId: user.id,
+      status: 'ACTIVE',
+      startDate: { lte: now },
+      currentPeriodEnd: { gte: now },
+    },
+    select: { features: true },
+  });
+  if (subscriptions.some(subscription => featuresCover(getSubscriptionFeatures(subscription.features), coveredItems))) {
+    return granted(item, 'SUBSCRIPTION');
+  }
+
+  return denied(item);
+}
+
+/**
+ * Build the 402 error returned when an entitlement check fails
+ */
+export function createPaymentRequiredError(entitlement: Entitlement, message?: string): ApiPaymentRequiredError {
+  return new ApiPaymentRequiredError(
+    message ?? 'Purchase or subscribe to access this content',
+    { itemType: entitlement.item.type, itemId: entitlement.item.id }
+  );
+}
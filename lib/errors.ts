@@ -53,6 +53,9 @@ export const ERROR_CODES = {
   TOKEN_EXPIRED: 'TOKEN_EXPIRED',
   TOKEN_INVALID: 'TOKEN_INVALID',
   
+  // Payment Required (402)
+  PAYMENT_REQUIRED: 'PAYMENT_REQUIRED',
+  
   // Authorization Errors (403)
   ACCESS_DENIED: 'ACCESS_DENIED',
   INSUFFICIENT_PERMISSIONS: 'INSUFFICIENT_PERMISSIONS',
@@ -148,6 +151,14 @@ const ERROR_MESSAGES: Record<ErrorCode, { message: string; userMessage: string;
     category: 'authentication',
   },
   
+  // Payment Required
+  [ERROR_CODES.PAYMENT_REQUIRED]: {
+    message: 'Payment required',
+    userMessage: 'This content is part of a paid plan. Purchase it or subscribe to get access.',
+    severity: 'low',
+    category: 'business',
+  },
+  
   // Authorization Errors
   [ERROR_CODES.ACCESS_DENIED]: {
     message: 'Access denied',
@@ -332,6 +343,7 @@ export class AppErrorClass extends Error implements AppError {
   private getStatusCodeFromCode(code: ErrorCode): number {
     if (code.includes('VALIDATION') || code.includes('INVALID') || code.includes('MISSING')) return 400;
     if (code.includes('AUTHENTICATION') || code.includes('TOKEN')) return 401;
+    if (code.includes('PAYMENT_REQUIRED')) return 402;
     if (code.includes('ACCESS') || code.includes('PERMISSION') || code.includes('SUSPENDED')) return 403;
     if (code.includes('NOT_FOUND')) return 404;
     if (code.includes('EXISTS') || code.includes('CONFLICT')) return 409;
@@ -0,0 +1,821 @@
+/**
+ * Exam Attempt Utilities
+ *
+ * Shared helpers for the exam attempt lifecycle: attempt timing and limits,
+ * autosaved progress persistence, resume state for in-progress attempts and
+ * grading/closing attempts on submission or once their time runs out.
+ */
+
+import {
+  Prisma,
+  type Exam,
+  type LiveTest,
+  type Question,
+  type QuestionAttempt,
+  type TestAttempt,
+  type TestSection,
+  type TestSeries,
+} from '@prisma/client';
+import { prisma } from './prisma';
+import { recomputeTestSeriesRankings } from './rankings';
+import { getMarkingScheme, scoreAttempt, type AttemptScore, type ScorableQuestion } from './scoring';
+import {
+  clearsSectionCutoffs,
+  getSectionIndex,
+  getSectionMarkingScheme,
+  getSectionQuestions,
+  toAttemptSections,
+  type AttemptSection,
+  type SectionSettings,
+} from './test-sections';
+import type { SaveProgressFormData } from './validations/exam';
+import {
+  applyQuestionsOrder,
+  filterServedQuestions,
+  parseQuestionsOrder,
+  toDisplayedAnswer,
+  toOriginalAnswer,
+  type QuestionsOrder,
+} from './randomization';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SavedAnswer = SaveProgressFormData['answers'][number];
+
+/**
+ * Answer state restored into the exam client when an attempt is resumed
+ */
+export interface AttemptProgress {
+  currentQuestionIndex: number;
+  bookmarkedQuestions: string[];
+  timeSpent: number; // in seconds
+  lastSavedAt: Date | null;
+  answers: {
+    questionId: string;
+    userAnswer: Prisma.JsonValue;
+    timeTaken: number; // in seconds
+    isMarked: boolean;
+  }[];
+}
+
+/**
+ * Answer sent with a final submission (choice answers use displayed indices)
+ */
+export interface SubmittedAnswer {
+  questionId: string;
+  userAnswer: Prisma.InputJsonValue | null;
+  timeTaken: number; // in seconds
+  isMarked: boolean;
+}
+
+/**
+ * Test series settings needed to grade and close an attempt
+ */
+export type CompletableTestSeries = Pick<
+  TestSeries,
+  'id' | 'duration' | 'totalMarks' | 'passingMarks' | 'negativeMarking' | 'negativeMarkingRatio' | 'isAdaptive'
+> & {
+  questions: (ScorableQuestion & Pick<Question, 'version' | 'sectionId' | 'isActive'>)[];
+  sections: Pick<TestSection, 'id' | 'duration' | 'negativeMarking' | 'negativeMarkingRatio' | 'cutoffMarks'>[];
+  exam: Pick<Exam, 'allowNegativeMarking' | 'endDate'>;
+  liveTest: Pick<LiveTest, 'endTime' | 'resultsReleasedAt'> | null;
+};
+
+export type SectionTimingAttempt = Pick<
+  TestAttempt,
+  'startedAt' | 'currentSectionIndex' | 'sectionStartedAt' | 'extraTimePerHour' | 'isPractice'
+>;
+
+/**
+ * Where a sectional attempt stands at a moment in time
+ */
+export interface SectionTimeline {
+  index: number; // current section
+  sectionStartedAt: Date;
+  sectionEndsAt: Date;
+  attemptEndsAt: Date;
+}
+
+/**
+ * Section state sent to the exam client for a sectional attempt
+ */
+export interface AttemptSectionState {
+  sections: AttemptSection[];
+  currentSectionIndex: number;
+  sectionEndsAt: Date;
+  sectionTimeRemaining: number; // in seconds
+}
+
+export interface CompletedAttempt {
+  attempt: TestAttempt;
+  graded: AttemptScore;
+  autoSubmitted: boolean;
+}
+
+export interface AttemptLimits {
+  allowRetakes: boolean;
+  maxAttempts: number | null; // null means unlimited
+}
+
+export type TestSeriesAttemptStatus = 'NOT_STARTED' | 'IN_PROGRESS' | 'COMPLETED';
+
+/**
+ * A student's standing on one test series, shown in the exam's test list
+ */
+export interface TestSeriesAttemptSummary {
+  status: TestSeriesAttemptStatus;
+  attemptsUsed: number; // completed attempts
+  activeAttemptId: string | null;
+  lastAttemptId: string | null;
+  bestScore: number | null;
+  bestPercentage: number | null;
+  bestRank: number | null;
+  canAttempt: boolean;
+  limitReason: string | null;
+}
+
+// =============================================================================
+// TIMING
+// =============================================================================
+
+// Late submissions within this window still count (network latency, slow clients)
+export const SUBMISSION_GRACE_SECONDS = 30;
+
+/**
+ * Get the moment an attempt runs out of time. Attempts never run past the
+ * exam window, so a late start gets less than the full duration.
+ */
+export function getAttemptEndTime(
+  startedAt: Date,
+  durationMinutes: number,
+  windowEnd: Date | null = null
+): Date {
+  const endTime = new Date(startedAt.getTime() + durationMinutes * 60 * 1000);
+  return windowEnd && windowEnd < endTime ? windowEnd : endTime;
+}
+
+/**
+ * Get the end of the window attempts must finish in: the exam's end date or,
+ * for a live test, its common end time, whichever comes first
+ */
+export function getAttemptWindowEnd(
+  exam: Pick<Exam, 'endDate'>,
+  liveTest: Pick<LiveTest, 'endTime'> | null
+): Date | null {
+  if (!liveTest) {
+    return exam.endDate;
+  }
+
+  return exam.endDate && exam.endDate < liveTest.endTime ? exam.endDate : liveTest.endTime;
+}
+
+/**
+ * Check whether results are held back until a live test releases them all together
+ */
+export function isLiveResultHeld(liveTest: Pick<LiveTest, 'resultsReleasedAt'> | null): boolean {
+  return liveTest !== null && liveTest.resultsReleasedAt === null;
+}
+
+/**
+ * Get the seconds left on an attempt, never below zero
+ */
+export function getTimeRemaining(
+  startedAt: Date,
+  durationMinutes: number,
+  windowEnd: Date | null = null,
+  now: Date = new Date()
+): number {
+  return getSecondsRemaining(getAttemptEndTime(startedAt, durationMinutes, windowEnd), now);
+}
+
+/**
+ * Stretch a duration by an accommodation's compensatory minutes per hour
+ */
+export function withExtraTime(minutes: number, extraTimePerHour: number): number {
+  return minutes + (minutes * extraTimePerHour) / 60;
+}
+
+/**
+ * Push the window end back by the compensatory time an accommodated attempt
+ * gets over the whole test, so the extra time is never cut short
+ */
+function extendWindowEnd(windowEnd: Date | null, durationMinutes: number, extraTimePerHour: number): Date | null {
+  if (!windowEnd || extraTimePerHour === 0) {
+    return windowEnd;
+  }
+
+  const extraMinutes = withExtraTime(durationMinutes, extraTimePerHour) - durationMinutes;
+  return new Date(windowEnd.getTime() + extraMinutes * 60 * 1000);
+}
+
+/**
+ * Get the seconds left until an end time, never below zero
+ */
+export function getSecondsRemaining(endTime: Date, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((endTime.getTime() - now.getTime()) / 1000));
+}
+
+/**
+ * Check whether an attempt is past its end time plus the submission grace period
+ */
+export function isAttemptExpired(endTime: Date, now: Date = new Date()): boolean {
+  return now.getTime() > endTime.getTime() + SUBMISSION_GRACE_SECONDS * 1000;
+}
+
+/**
+ * Get the current section of a sectional attempt and when it and the attempt
+ * end. A section whose time has run out gives way to the next one, which
+ * starts the moment its predecessor ended; finishing early only moves the
+ * stored position on.
+ */
+export function getSectionTimeline(
+  attempt: SectionTimingAttempt,
+  sections: Pick<TestSection, 'duration'>[],
+  windowEnd: Date | null = null,
+  now: Date = new Date()
+): SectionTimeline {
+  const { extraTimePerHour } = attempt;
+  const durationOf = (index: number) => withExtraTime(sections[index]?.duration ?? 0, extraTimePerHour) * 60 * 1000;
+  const totalDuration = sections.reduce((sum, section) => sum + section.duration, 0);
+  const attemptWindowEnd = extendWindowEnd(windowEnd, totalDuration, extraTimePerHour);
+  const capped = (time: number) => (
+    attemptWindowEnd && attemptWindowEnd.getTime() < time ? attemptWindowEnd : new Date(time)
+  );
+
+  let index = Math.max(0, Math.min(attempt.currentSectionIndex, sections.length - 1));
+  let startedAt = (attempt.sectionStartedAt ?? attempt.startedAt).getTime();
+
+  let remaining = 0;
+  for (let i = index; i < sections.length; i++) {
+    remaining += durationOf(i);
+  }
+  const attemptEndsAt = capped(startedAt + remaining);
+
+  while (index < sections.length - 1 && now.getTime() >= startedAt + durationOf(index)) {
+    startedAt += durationOf(index);
+    index++;
+  }
+
+  return {
+    index,
+    sectionStartedAt: new Date(startedAt),
+    sectionEndsAt: capped(startedAt + durationOf(index)),
+    attemptEndsAt,
+  };
+}
+
+/**
+ * Get the moment an attempt runs out of time, following the section timeline
+ * for sectional test series and including any accommodation extra time.
+ * Practice attempts are untimed: only the exam window ends them, and they
+ * have no deadline at all without one.
+ */
+export function getAttemptDeadline(
+  attempt: SectionTimingAttempt,
+  testSeries: Pick<TestSeries, 'duration'> & { sections: Pick<TestSection, 'duration'>[] },
+  windowEnd: Date | null = null
+): Date | null {
+  if (attempt.isPractice) {
+    return windowEnd;
+  }
+
+  if (testSeries.sections.length === 0) {
+    return getAttemptEndTime(
+      attempt.startedAt,
+      withExtraTime(testSeries.duration, attempt.extraTimePerHour),
+      extendWindowEnd(windowEnd, testSeries.duration, attempt.extraTimePerHour)
+    );
+  }
+
+  return getSectionTimeline(attempt, testSeries.sections, windowEnd).attemptEndsAt;
+}
+
+/**
+ * Get the questions a sectional attempt still accepts answers for: those of
+ * the current section, and of a section that closed within the submission
+ * grace period. Returns null for test series without sections and for
+ * practice attempts, which take every section at once.
+ */
+export function getOpenQuestionIds(
+  attempt: SectionTimingAttempt,
+  testSeries: {
+    sections: Pick<TestSection, 'id' | 'duration'>[];
+    questions: Pick<Question, 'id' | 'sectionId'>[];
+  },
+  windowEnd: Date | null = null,
+  now: Date = new Date()
+): Set<string> | null {
+  const { sections, questions } = testSeries;
+  if (sections.length === 0 || attempt.isPractice) {
+    return null;
+  }
+
+  const open = new Set<number>();
+  for (const at of [now, new Date(now.getTime() - SUBMISSION_GRACE_SECONDS * 1000)]) {
+    const timeline = getSectionTimeline(attempt, sections, windowEnd, at);
+    if (at <= timeline.sectionEndsAt) {
+      open.add(timeline.index);
+    }
+  }
+
+  return new Set(questions
+    .filter(question => open.has(getSectionIndex(question.sectionId, sections)))
+    .map(question => question.id));
+}
+
+/**
+ * Build the section state of a sectional attempt, or null without sections
+ * and for practice attempts
+ */
+export function serializeSectionState(
+  attempt: SectionTimingAttempt,
+  sections: SectionSettings[],
+  windowEnd: Date | null = null,
+  now: Date = new Date()
+): AttemptSectionState | null {
+  if (sections.length === 0 || attempt.isPractice) {
+    return null;
+  }
+
+  const timeline = getSectionTimeline(attempt, sections, windowEnd, now);
+
+  return {
+    sections: toAttemptSections(sections, timeline.index),
+    currentSectionIndex: timeline.index,
+    sectionEndsAt: timeline.sectionEndsAt,
+    sectionTimeRemaining: getSecondsRemaining(timeline.sectionEndsAt, now),
+  };
+}
+
+/**
+ * Arrange questions in the attempt's display order. Sectional attempts are
+ * only served the questions of their current section.
+ */
+export function getServedQuestions<T extends { id: string; options: Prisma.JsonValue; sectionId: string | null }>(
+  questions: T[],
+  order: QuestionsOrder | null,
+  sections: Pick<TestSection, 'id'>[],
+  sectionState: AttemptSectionState | null
+): T[] {
+  const ordered = applyQuestionsOrder(questions, order);
+  return sectionState ? getSectionQuestions(ordered, sections, sectionState.currentSectionIndex) : ordered;
+}
+
+/**
+ * Close the current section of a sectional attempt early and start the next.
+ * Requests to finish a section that is no longer current are ignored, so a
+ * client whose section timer ran out can safely retry.
+ */
+export async function advanceAttemptSection(
+  attempt: TestAttempt,
+  sections: Pick<TestSection, 'duration'>[],
+  fromSection: number,
+  windowEnd: Date | null = null,
+  now: Date = new Date()
+): Promise<TestAttempt> {
+  const timeline = getSectionTimeline(attempt, sections, windowEnd, now);
+
+  if (timeline.index !== fromSection || timeline.index >= sections.length - 1) {
+    return attempt;
+  }
+
+  return prisma.testAttempt.update({
+    where: { id: attempt.id },
+    data: {
+      currentSectionIndex: timeline.index + 1,
+      sectionStartedAt: now,
+      currentQuestionIndex: 0,
+    },
+  });
+}
+
+// =============================================================================
+// ATTEMPT LIMITS
+// =============================================================================
+
+/**
+ * Resolve the attempt limits for a test series. Exam and series limits both
+ * apply, so the stricter one wins.
+ */
+export function getAttemptLimits(
+  exam: Pick<Exam, 'maxAttempts'>,
+  testSeries: Pick<TestSeries, 'allowRetakes' | 'maxAttempts'>
+): AttemptLimits {
+  const limits = [exam.maxAttempts, testSeries.maxAttempts]
+    .filter((value): value is number => value !== null && value > 0);
+
+  return {
+    allowRetakes: testSeries.allowRetakes,
+    maxAttempts: limits.length > 0 ? Math.min(...limits) : null,
+  };
+}
+
+/**
+ * Get the reason a new attempt cannot be started, or null when it can
+ */
+export function getAttemptLimitError(limits: AttemptLimits, completedAttempts: number): string | null {
+  if (completedAttempts > 0 && !limits.allowRetakes) {
+    return 'Retakes are not allowed for this test';
+  }
+
+  if (limits.maxAttempts !== null && completedAttempts >= limits.maxAttempts) {
+    return `Maximum attempts reached (${limits.maxAttempts})`;
+  }
+
+  return null;
+}
+
+/**
+ * Summarize a student's attempts on a test series (attempts newest first)
+ */
+export function summarizeSeriesAttempts(
+  attempts: Pick<TestAttempt, 'id' | 'completedAt' | 'score' | 'percentage' | 'rank'>[],
+  limits: AttemptLimits
+): TestSeriesAttemptSummary {
+  const active = attempts.find(attempt => !attempt.completedAt) ?? null;
+  const completed = attempts.filter(attempt => attempt.completedAt);
+  const best = completed.reduce<typeof completed[number] | null>(
+    (top, attempt) => (!top || Number(attempt.score) > Number(top.score) ? attempt : top),
+    null
+  );
+  const ranks = completed.flatMap(attempt => (attempt.rank !== null ? [attempt.rank] : []));
+  const limitReason = active ? null : getAttemptLimitError(limits, completed.length);
+
+  return {
+    status: active ? 'IN_PROGRESS' : completed.length > 0 ? 'COMPLETED' : 'NOT_STARTED',
+    attemptsUsed: completed.length,
+    activeAttemptId: active?.id ?? null,
+    lastAttemptId: attempts[0]?.id ?? null,
+    bestScore: best ? Number(best.score) : null,
+    bestPercentage: best ? Number(best.percentage) : null,
+    bestRank: ranks.length > 0 ? Math.min(...ranks) : null,
+    canAttempt: limitReason === null,
+    limitReason,
+  };
+}
+
+// =============================================================================
+// ANSWER CONVERSION
+// =============================================================================
+
+/**
+ * Convert a client answer payload into the JSON stored on QuestionAttempt.userAnswer
+ */
+export function toUserAnswer(answer: SavedAnswer): Prisma.InputJsonValue {
+  switch (answer.type) {
+    case 'MULTIPLE_CHOICE':
+      return answer.selectedOption;
+    case 'MULTIPLE_SELECT':
+      return answer.selectedOptions;
+    case 'TRUE_FALSE':
+    case 'NUMERICAL':
+    case 'DESCRIPTIVE':
+      return answer.answer;
+    case 'FILL_BLANKS':
+      return answer.answers;
+  }
+}
+
+// =============================================================================
+// PROGRESS PERSISTENCE
+// =============================================================================
+
+/**
+ * Persist autosaved answers, bookmarks and position for an in-progress attempt.
+ * Answers are upserted so repeated saves overwrite the previous snapshot.
+ * Option indices are stored in their original (unshuffled) order.
+ */
+export async function saveAttemptProgress(
+  attemptId: string,
+  progress: Omit<SaveProgressFormData, 'examId'>,
+  order: QuestionsOrder | null = null
+): Promise<TestAttempt> {
+  const bookmarkedQuestions = new Set(progress.bookmarkedQuestions ?? []);
+
+  progress.answers.forEach(answer => {
+    if (answer.bookmarked) {
+      bookmarkedQuestions.add(answer.questionId);
+    }
+  });
+
+  const upserts = progress.answers.map(answer => {
+    // Saves without a time for the answer keep the one stored before
+    const data = {
+      userAnswer: toOriginalAnswer(answer.questionId, toUserAnswer(answer), order),
+      isSkipped: false,
+      isMarked: bookmarkedQuestions.has(answer.questionId),
+      ...(answer.timeSpent !== undefined && { timeTaken: Math.round(answer.timeSpent) }),
+    };
+
+    return prisma.questionAttempt.upsert({
+      where: {
+        testAttemptId_questionId: {
+          testAttemptId: attemptId,
+          questionId: answer.questionId,
+        },
+      },
+      update: data,
+      create: {
+        testAttemptId: attemptId,
+        questionId: answer.questionId,
+        ...data,
+      },
+    });
+  });
+
+  const [attempt] = await prisma.$transaction([
+    prisma.testAttempt.update({
+      where: { id: attemptId },
+      data: {
+        currentQuestionIndex: progress.currentQuestion,
+        bookmarkedQuestions: Array.from(bookmarkedQuestions),
+        timeSpent: Math.round(progress.timeSpent),
+        lastSavedAt: new Date(),
+      },
+    }),
+    ...upserts,
+  ]);
+
+  return attempt;
+}
+
+/**
+ * Build the resume payload for an attempt from its saved question attempts,
+ * with option indices mapped back to the attempt's display order
+ */
+export function serializeAttemptProgress(
+  attempt: TestAttempt,
+  questionAttempts: QuestionAttempt[]
+): AttemptProgress {
+  const order = parseQuestionsOrder(attempt.questionsOrder);
+
+  return {
+    currentQuestionIndex: attempt.currentQuestionIndex,
+    bookmarkedQuestions: attempt.bookmarkedQuestions,
+    timeSpent: attempt.timeSpent,
+    lastSavedAt: attempt.lastSavedAt,
+    answers: questionAttempts.map(qa => ({
+      questionId: qa.questionId,
+      userAnswer: toDisplayedAnswer(qa.questionId, qa.userAnswer, order),
+      timeTaken: qa.timeTaken,
+      isMarked: qa.isMarked,
+    })),
+  };
+}
+
+// =============================================================================
+// COMPLETION
+// =============================================================================
+
+/**
+ * Work out an attempt's percentage and pass status. Adaptive attempts are
+ * marked out of the questions they were served (maxScore) and pass at the
+ * series' passing share of those marks.
+ */
+export function getAttemptOutcome(
+  score: number,
+  maxScore: number,
+  testSeries: Pick<TestSeries, 'totalMarks' | 'passingMarks' | 'isAdaptive'>,
+  clearsCutoffs: boolean
+): { percentage: number; isPassed: boolean } {
+  const totalMarks = testSeries.isAdaptive ? maxScore : testSeries.totalMarks;
+
+  return {
+    percentage: totalMarks > 0 ? (score / totalMarks) * 100 : 0,
+    isPassed: score * testSeries.totalMarks >= testSeries.passingMarks * totalMarks && clearsCutoffs,
+  };
+}
+
+/**
+ * Grade and close an attempt. Autosaved answers are merged with the submitted
+ * ones (submitted answers win); once the attempt has expired only what was
+ * saved in time is graded. Attempts are graded on the questions they were
+ * served; adaptive ones out of those questions' marks. The series is
+ * re-ranked when results are released. Only the first submission closes the
+ * attempt; later ones get the result it stored.
+ */
+export async function completeTestAttempt(
+  attempt: TestAttempt,
+  testSeries: CompletableTestSeries,
+  submitted: SubmittedAnswer[] = [],
+  now: Date = new Date()
+): Promise<CompletedAttempt> {
+  const windowEnd = getAttemptWindowEnd(testSeries.exam, testSeries.liveTest);
+  const endTime = getAttemptDeadline(attempt, testSeries, windowEnd);
+  const autoSubmitted = endTime !== null && isAttemptExpired(endTime, now);
+  const { sections } = testSeries;
+  const order = parseQuestionsOrder(attempt.questionsOrder);
+
+  // Only the questions the attempt was served are graded (for adaptive attempts, those reached)
+  const questions = filterServedQuestions(testSeries.questions, order);
+
+  const savedAnswers = await prisma.questionAttempt.findMany({
+    where: { testAttemptId: attempt.id },
+  });
+
+  const mergedAnswers = new Map<string, {
+    questionId: string;
+    userAnswer: Prisma.InputJsonValue | null;
+    timeTaken: number;
+    isMarked: boolean;
+  }>();
+
+  for (const saved of savedAnswers) {
+    mergedAnswers.set(saved.questionId, {
+      questionId: saved.questionId,
+      userAnswer: saved.userAnswer as Prisma.InputJsonValue | null,
+      timeTaken: saved.timeTaken,
+      isMarked: saved.isMarked,
+    });
+  }
+
+  // Practice and adaptive answers are recorded as they are given and cannot change
+  if (!autoSubmitted && !attempt.isPractice && !testSeries.isAdaptive) {
+    // Submitted choice answers use displayed option indices; store the originals
+    // Closed sections keep the answers saved while they were open
+    const openQuestionIds = getOpenQuestionIds(attempt, testSeries, windowEnd, now);
+
+    for (const answer of submitted) {
+      if (openQuestionIds && !openQuestionIds.has(answer.questionId)) {
+        continue;
+      }
+
+      // A client that lost its timings reports 0; keep the time autosaved for the question
+      mergedAnswers.set(answer.questionId, {
+        ...answer,
+        userAnswer: toOriginalAnswer(answer.questionId, answer.userAnswer, order),
+        timeTaken: answer.timeTaken || (mergedAnswers.get(answer.questionId)?.timeTaken ?? 0),
+      });
+    }
+  }
+
+  const scheme = sections.length > 0
+    ? (question: (typeof questions)[number]) => getSectionMarkingScheme(
+        testSeries.exam,
+        testSeries,
+        sections[getSectionIndex(question.sectionId, sections)]
+      )
+    : getMarkingScheme(testSeries.exam, testSeries);
+
+  // Unanswered questions count as skipped
+  const graded = scoreAttempt(
+    questions,
+    new Map(Array.from(mergedAnswers.values()).map(a => [a.questionId, a.userAnswer])),
+    scheme
+  );
+
+  const sectionIds = new Map(testSeries.questions.map(question => [question.id, question.sectionId]));
+  const clearsCutoffs = clearsSectionCutoffs(sections, graded.answers.map(answer => ({
+    sectionId: sectionIds.get(answer.questionId) ?? null,
+    marksAwarded: answer.marksAwarded,
+  })));
+  const outcome = getAttemptOutcome(graded.score, graded.maxScore, testSeries, clearsCutoffs);
+
+  // Each answer records the question revision it was graded against
+  const versions = new Map(testSeries.questions.map(question => [question.id, question.version]));
+
+  const questionAnswers = graded.answers.flatMap(result => {
+    const answer = mergedAnswers.get(result.questionId);
+    if (!answer) {
+      return [];
+    }
+
+    return [{
+      questionId: result.questionId,
+      questionVersion: versions.get(result.questionId) ?? null,
+      userAnswer: answer.userAnswer ?? Prisma.JsonNull,
+      isCorrect: result.isCorrect,
+      isSkipped: result.isSkipped,
+      isMarked: answer.isMarked,
+      timeTaken: answer.timeTaken,
+      marksAwarded: result.marksAwarded,
+      gradingStatus: result.gradingStatus,
+    }];
+  });
+
+  const closedAt = autoSubmitted && endTime ? endTime : now;
+  const timeSpent = Math.max(0, Math.floor((closedAt.getTime() - attempt.startedAt.getTime()) / 1000));
+
+  // Close the attempt only if it is still open, so a double submit, the
+  // expiry sweep and auto-submits grade and rank it once
+  const claimed = await prisma.$transaction(async (tx) => {
+    // Hold the live test's release status until this attempt is stored, so a
+    // release running now either waits for it or has already happened
+    const [liveTest] = testSeries.liveTest
+      ? await tx.$queryRaw<Pick<LiveTest, 'resultsReleasedAt'>[]>`
+          SELECT "resultsReleasedAt" FROM "live_tests" WHERE "testSeriesId" = ${testSeries.id} FOR SHARE
+        `
+      : [];
+    const resultsReleasedAt = graded.pendingReview === 0 && !isLiveResultHeld(liveTest ?? null) ? now : null;
+
+    const { count } = await tx.testAttempt.updateMany({
+      where: { id: attempt.id, completedAt: null },
+      data: {
+        submittedAt: now,
+        completedAt: now,
+        timeSpent,
+        score: graded.score,
+        percentage: outcome.percentage,
+        isPassed: outcome.isPassed,
+        attemptedQuestions: graded.attemptedQuestions,
+        correctAnswers: graded.correctAnswers,
+        incorrectAnswers: graded.incorrectAnswers,
+        skippedQuestions: graded.skippedQuestions,
+        // Descriptive answers hold back the result until they are graded,
+        // and live tests until everyone's results are released
+        pendingReview: graded.pendingReview,
+        resultsReleasedAt,
+      },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    // Store question attempts, replacing any autosaved snapshot
+    for (const qa of questionAnswers) {
+      await tx.questionAttempt.upsert({
+        where: {
+          testAttemptId_questionId: {
+            testAttemptId: attempt.id,
+            questionId: qa.questionId,
+          },
+        },
+        update: qa,
+        create: {
+          testAttemptId: attempt.id,
+          ...qa,
+        },
+      });
+    }
+
+    return { resultsReleasedAt };
+  });
+
+  if (!claimed) {
+    // Another submission closed the attempt first; report what it stored
+    const { questionAttempts, ...stored } = await prisma.testAttempt.findUniqueOrThrow({
+      where: { id: attempt.id },
+      include: { questionAttempts: true },
+    });
+
+    return {
+      attempt: stored,
+      graded: scoreAttempt(
+        questions,
+        new Map(questionAttempts.map(qa => [qa.questionId, qa.userAnswer])),
+        scheme
+      ),
+      autoSubmitted,
+    };
+  }
+
+  // Re-rank the series so earlier attempts reflect the new submission
+  if (claimed.resultsReleasedAt) {
+    await recomputeTestSeriesRankings(testSeries.id);
+  }
+
+  return {
+    attempt: await prisma.testAttempt.findUniqueOrThrow({ where: { id: attempt.id } }),
+    graded,
+    autoSubmitted,
+  };
+}
+
+/**
+ * Close every in-progress attempt matching the filter whose time has run out,
+ * grading the answers saved before the deadline. Returns the number closed.
+ */
+export async function closeExpiredAttempts(
+  where: Prisma.TestAttemptWhereInput = {},
+  now: Date = new Date()
+): Promise<number> {
+  const attempts = await prisma.testAttempt.findMany({
+    where: { ...where, completedAt: null },
+    include: {
+      testSeries: {
+        include: {
+          exam: { select: { allowNegativeMarking: true, endDate: true } },
+          questions: true,
+          sections: { orderBy: { order: 'asc' } },
+          liveTest: { select: { endTime: true, resultsReleasedAt: true } },
+        },
+      },
+    },
+  });
+
+  let closed = 0;
+
+  for (const { testSeries, ...attempt } of attempts) {
+    const endTime = getAttemptDeadline(attempt, testSeries, getAttemptWindowEnd(testSeries.exam, testSeries.liveTest));
+
+    if (endTime && isAttemptExpired(endTime, now)) {
+      await completeTestAttempt(attempt, testSeries, [], now);
+      closed++;
+    }
+  }
+
+  return closed;
+}
@@ -0,0 +1,358 @@
+/**
+ * Manual Grading Utilities
+ *
+ * Grading queue for answers the scoring engine leaves pending (descriptive
+ * questions), instructor mark awards, re-finalizing test attempts once
+ * every pending answer has been graded, and re-grading every answer to a
+ * question after its answer key is corrected.
+ */
+
+import type { Prisma, Question, TestAttempt } from '@prisma/client';
+import { prisma } from './prisma';
+import { getAttemptOutcome, isLiveResultHeld } from './exam-attempt';
+import { createNotification, NOTIFICATION_TYPES } from './notifications';
+import { parseQuestionsOrder } from './randomization';
+import { recomputeTestSeriesRankings } from './rankings';
+import { scoreQuestion } from './scoring';
+import { clearsSectionCutoffs, getSectionMarkingScheme } from './test-sections';
+import type { GradeAnswerFormData } from './validations/exam';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface GradingQueueFilters {
+  status: 'PENDING' | 'GRADED';
+  creatorId?: string; // restrict to test series created by this instructor
+  testSeriesId?: string;
+  questionId?: string;
+}
+
+export interface RegradeSummary {
+  regradedAnswers: number;
+  changedAnswers: number; // answers whose marks or correctness changed
+  affectedAttempts: number; // attempts whose score changed
+}
+
+// =============================================================================
+// GRADING QUEUE
+// =============================================================================
+
+/**
+ * Build the question attempt filter for a grading queue. Only submitted
+ * attempts are included; in-progress answers can still change.
+ */
+export function buildGradingQueueWhere(filters: GradingQueueFilters): Prisma.QuestionAttemptWhereInput {
+  const where: Prisma.QuestionAttemptWhereInput = {
+    gradingStatus: filters.status,
+    isSkipped: false,
+    testAttempt: { completedAt: { not: null } },
+    question: {
+      type: 'DESCRIPTIVE',
+      ...(filters.testSeriesId && { testSeriesId: filters.testSeriesId }),
+      ...(filters.creatorId && { testSeries: { creatorId: filters.creatorId } }),
+    },
+  };
+
+  if (filters.questionId) {
+    where.questionId = filters.questionId;
+  }
+
+  return where;
+}
+
+// =============================================================================
+// GRADING
+// =============================================================================
+
+/**
+ * Award marks to a pending (or re-grade an already graded) answer, then
+ * re-finalize its test attempt
+ */
+export async function gradeQuestionAttempt(
+  questionAttemptId: string,
+  graderId: string,
+  grade: GradeAnswerFormData,
+  maxMarks: number
+) {
+  const marksAwarded = Math.round(grade.marksAwarded * 100) / 100;
+
+  const questionAttempt = await prisma.questionAttempt.update({
+    where: { id: questionAttemptId },
+    data: {
+      marksAwarded,
+      isCorrect: marksAwarded >= maxMarks,
+      gradingStatus: 'GRADED',
+      rubricScores: grade.rubric ?? [],
+      feedback: grade.feedback ?? null,
+      gradedAt: new Date(),
+      gradedBy: graderId,
+    },
+  });
+
+  const testAttempt = await finalizeTestAttempt(questionAttempt.testAttemptId);
+
+  return { questionAttempt, testAttempt };
+}
+
+/**
+ * Recompute an attempt's score from its stored question attempts. When no
+ * answers remain pending the results are released, the series re-ranked and
+ * the student notified. Batch callers can skip re-ranking and rank once.
+ */
+export async function finalizeTestAttempt(
+  testAttemptId: string,
+  { rerank = true }: { rerank?: boolean } = {}
+): Promise<TestAttempt> {
+  const attempt = await prisma.testAttempt.findUniqueOrThrow({
+    where: { id: testAttemptId },
+    include: {
+      questionAttempts: {
+        include: { question: { select: { sectionId: true } } },
+      },
+      testSeries: {
+        select: {
+          id: true,
+          title: true,
+          examId: true,
+          totalMarks: true,
+          passingMarks: true,
+          isAdaptive: true,
+          sections: {
+            orderBy: { order: 'asc' },
+            select: { id: true, cutoffMarks: true },
+          },
+          liveTest: {
+            select: { resultsReleasedAt: true },
+          },
+        },
+      },
+    },
+  });
+
+  let score = 0;
+  let correctAnswers = 0;
+  let incorrectAnswers = 0;
+  let pendingReview = 0;
+
+  for (const qa of attempt.questionAttempts) {
+    const marks = Number(qa.marksAwarded);
+    score += marks;
+
+    if (qa.isSkipped) {
+      continue;
+    }
+
+    if (qa.gradingStatus === 'PENDING') {
+      pendingReview++;
+    } else if (qa.isCorrect) {
+      correctAnswers++;
+    } else if (marks <= 0) {
+      incorrectAnswers++;
+    }
+  }
+
+  score = Math.round(score * 100) / 100;
+  const { testSeries } = attempt;
+
+  // Adaptive attempts are marked out of the questions they were served
+  let maxScore = testSeries.totalMarks;
+  const order = testSeries.isAdaptive ? parseQuestionsOrder(attempt.questionsOrder) : null;
+  if (order) {
+    const served = await prisma.question.aggregate({
+      where: { id: { in: order.questions } },
+      _sum: { marks: true },
+    });
+    maxScore = Number(served._sum.marks ?? 0);
+  }
+
+  const outcome = getAttemptOutcome(score, maxScore, testSeries, clearsSectionCutoffs(
+    testSeries.sections,
+    attempt.questionAttempts.map(qa => ({
+      sectionId: qa.question.sectionId,
+      marksAwarded: Number(qa.marksAwarded),
+    }))
+  ));
+  const releaseResults = pendingReview === 0 && !attempt.resultsReleasedAt && !isLiveResultHeld(testSeries.liveTest);
+
+  const updated = await prisma.testAttempt.update({
+    where: { id: attempt.id },
+    data: {
+      score,
+      percentage: outcome.percentage,
+      isPassed: outcome.isPassed,
+      correctAnswers,
+      incorrectAnswers,
+      pendingReview,
+      ...(releaseResults && { resultsReleasedAt: new Date() }),
+    },
+  });
+
+  // Re-grading a released attempt can move it in the ranking too
+  if (rerank && (releaseResults || attempt.resultsReleasedAt)) {
+    await recomputeTestSeriesRankings(testSeries.id);
+  }
+
+  if (releaseResults) {
+    await createNotification(attempt.userId, {
+      type: NOTIFICATION_TYPES.TEST_RESULT,
+      title: 'Your test result is ready',
+      message: `All answers in "${testSeries.title}" have been graded. You scored ${score} out of ${maxScore}.`,
+      actionUrl: `/exams/${testSeries.examId}/results/${attempt.id}`,
+      actionText: 'View result',
+      metadata: {
+        testAttemptId: attempt.id,
+        testSeriesId: testSeries.id,
+        score,
+      },
+    });
+  }
+
+  return updated;
+}
+
+// =============================================================================
+// RE-GRADING
+// =============================================================================
+
+/**
+ * Re-score every submitted answer to a question against its current answer
+ * key and revision, re-finalize the attempts whose marks changed, re-rank the
+ * series once and notify the students whose score changed. Manually graded
+ * (descriptive) answers are left as they are.
+ */
+async function regradeQuestionAnswers(question: Question): Promise<RegradeSummary> {
+  const testSeries = await prisma.testSeries.findUniqueOrThrow({
+    where: { id: question.testSeriesId },
+    select: {
+      id: true,
+      title: true,
+      examId: true,
+      negativeMarking: true,
+      negativeMarkingRatio: true,
+      exam: { select: { allowNegativeMarking: true } },
+    },
+  });
+  // Unassigned questions of a sectional series belong to its last section
+  const section = await prisma.testSection.findFirst({
+    where: question.sectionId ? { id: question.sectionId } : { testSeriesId: testSeries.id },
+    orderBy: { order: 'desc' },
+  });
+  const scheme = getSectionMarkingScheme(testSeries.exam, testSeries, section);
+
+  const answers = await prisma.questionAttempt.findMany({
+    where: {
+      questionId: question.id,
+      gradingStatus: 'AUTO_GRADED',
+      testAttempt: { completedAt: { not: null } },
+    },
+    select: {
+      id: true,
+      testAttemptId: true,
+      userAnswer: true,
+      isCorrect: true,
+      marksAwarded: true,
+    },
+  });
+
+  const updates: Prisma.PrismaPromise<unknown>[] = [];
+  const changedAttemptIds = new Set<string>();
+  let changedAnswers = 0;
+
+  for (const answer of answers) {
+    const graded = scoreQuestion(question, answer.userAnswer, scheme);
+
+    // Stored marks have two decimal places
+    if (Math.round(graded.marksAwarded * 100) / 100 !== Number(answer.marksAwarded) || graded.isCorrect !== answer.isCorrect) {
+      changedAnswers++;
+      changedAttemptIds.add(answer.testAttemptId);
+    }
+
+    updates.push(prisma.questionAttempt.update({
+      where: { id: answer.id },
+      data: {
+        questionVersion: question.version,
+        isCorrect: graded.isCorrect,
+        isSkipped: graded.isSkipped,
+        marksAwarded: graded.marksAwarded,
+      },
+    }));
+  }
+
+  if (updates.length > 0) {
+    await prisma.$transaction(updates);
+  }
+
+  const previousScores = new Map(
+    (await prisma.testAttempt.findMany({
+      where: { id: { in: Array.from(changedAttemptIds) } },
+      select: { id: true, score: true },
+    })).map(attempt => [attempt.id, Number(attempt.score)])
+  );
+
+  let affectedAttempts = 0;
+  let rerank = false;
+
+  for (const attemptId of changedAttemptIds) {
+    const updated = await finalizeTestAttempt(attemptId, { rerank: false });
+    const previousScore = previousScores.get(attemptId);
+    const score = Number(updated.score);
+
+    rerank ||= updated.resultsReleasedAt !== null;
+
+    if (previousScore === undefined || previousScore === score) {
+      continue;
+    }
+
+    affectedAttempts++;
+
+    // Unreleased attempts are announced once their grading completes
+    if (updated.resultsReleasedAt) {
+      await createNotification(updated.userId, {
+        type: NOTIFICATION_TYPES.TEST_RESULT,
+        title: 'Your test score has been updated',
+        message: `A corrected answer key in "${testSeries.title}" changed your score from ${previousScore} to ${score}.`,
+        actionUrl: `/exams/${testSeries.examId}/results/${attemptId}`,
+        actionText: 'View result',
+        metadata: {
+          testAttemptId: attemptId,
+          testSeriesId: testSeries.id,
+          questionId: question.id,
+          previousScore,
+          score,
+        },
+      });
+    }
+  }
+
+  if (rerank) {
+    await recomputeTestSeriesRankings(testSeries.id);
+  }
+
+  return {
+    regradedAnswers: answers.length,
+    changedAnswers,
+    affectedAttempts,
+  };
+}
+
+/**
+ * Re-grade every answer to a question after its answer key is corrected,
+ * including answers to its custom test copies already synced to this revision
+ */
+export async function regradeQuestion(question: Question): Promise<RegradeSummary> {
+  const copies = await prisma.question.findMany({
+    where: { sourceQuestionId: question.id, version: question.version },
+  });
+
+  const summary: RegradeSummary = { regradedAnswers: 0, changedAnswers: 0, affectedAttempts: 0 };
+
+  for (const graded of [question, ...copies]) {
+    const result = await regradeQuestionAnswers(graded);
+    summary.regradedAnswers += result.regradedAnswers;
+    summary.changedAnswers += result.changedAnswers;
+    summary.affectedAttempts += result.affectedAttempts;
+  }
+
+  return summary;
+}
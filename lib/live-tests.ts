@@ -0,0 +1,356 @@
+/**
+ * Live Tests
+ *
+ * Scheduled all-India mocks: students register in a window before the test,
+ * everyone starts at the same instant and stops at a common end time, a live
+ * leaderboard follows submissions as they arrive, and every participant's
+ * result is released together once the test is over.
+ *
+ * A live test is one attempt per student; the attempt window itself is
+ * enforced through getAttemptWindowEnd in exam-attempt.ts.
+ */
+
+import type { LiveTest, TestSeries } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+  closeExpiredAttempts,
+  getAttemptDeadline,
+  getAttemptWindowEnd,
+  isAttemptExpired,
+  isLiveResultHeld,
+} from './exam-attempt';
+import { createNotifications, NOTIFICATION_TYPES } from './notifications';
+import { getRankingScore, rankAttempts, recomputeTestSeriesRankings, type RankingSummary } from './rankings';
+import type { LiveTestScheduleFormData } from './validations/exam';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type LiveTestStatus = 'SCHEDULED' | 'LIVE' | 'COMPLETED' | 'CANCELLED';
+
+export type LiveTestTiming = Pick<
+  LiveTest,
+  'registrationOpensAt' | 'registrationClosesAt' | 'startTime' | 'endTime' | 'cancelledAt'
+>;
+
+export interface LiveLeaderboardEntry {
+  rank: number;
+  userId: string;
+  name: string;
+  avatar: string | null;
+  score: number;
+  questionsAnswered: number;
+  accuracy: number; // percentage of answered questions that were correct
+  timeTaken: number; // in minutes
+}
+
+export interface LiveLeaderboard {
+  testSeriesId: string;
+  submissions: number;
+  lastSubmissionAt: Date | null;
+  entries: LiveLeaderboardEntry[];
+}
+
+// A leaderboard with the live test's schedule as it was when it was loaded
+export interface LiveLeaderboardSnapshot {
+  liveTest: LiveTestTiming | null; // null once the live test is deleted
+  leaderboard: LiveLeaderboard;
+}
+
+export interface LiveResultRelease {
+  closedAttempts: number;
+  releasedAttempts: number;
+  ranking: RankingSummary;
+}
+
+// =============================================================================
+// SCHEDULE
+// =============================================================================
+
+// Leaderboard queries are shared by every stream of a test for this long
+export const LEADERBOARD_REFRESH_SECONDS = 5;
+
+/**
+ * Status of a live test at a moment
+ */
+export function getLiveTestStatus(liveTest: LiveTestTiming, now: Date = new Date()): LiveTestStatus {
+  if (liveTest.cancelledAt) return 'CANCELLED';
+  if (now < liveTest.startTime) return 'SCHEDULED';
+  if (now < liveTest.endTime) return 'LIVE';
+  return 'COMPLETED';
+}
+
+/**
+ * Check whether students can register for a live test
+ */
+export function isRegistrationOpen(liveTest: LiveTestTiming, now: Date = new Date()): boolean {
+  return !liveTest.cancelledAt &&
+    liveTest.registrationOpensAt <= now &&
+    now < liveTest.registrationClosesAt;
+}
+
+/**
+ * Why a student cannot start a live test attempt now, or null if they can.
+ * Late joiners may still start but stop at the common end time.
+ */
+export function getLiveTestStartError(
+  liveTest: LiveTestTiming,
+  isRegistered: boolean,
+  now: Date = new Date()
+): string | null {
+  switch (getLiveTestStatus(liveTest, now)) {
+    case 'CANCELLED':
+      return 'This live test has been cancelled';
+    case 'SCHEDULED':
+      return `The live test starts at ${liveTest.startTime.toISOString()}`;
+    case 'COMPLETED':
+      return 'This live test has ended';
+    case 'LIVE':
+      return isRegistered ? null : 'You are not registered for this live test';
+  }
+}
+
+/**
+ * Build the live test timing from a schedule request. The test runs for the
+ * test series duration from its start, so everyone shares the end time.
+ */
+export function toLiveTestSchedule(
+  schedule: LiveTestScheduleFormData,
+  testSeries: Pick<TestSeries, 'duration'>,
+  now: Date = new Date()
+): Pick<LiveTest, 'registrationOpensAt' | 'registrationClosesAt' | 'startTime' | 'endTime' | 'maxParticipants'> {
+  const startTime = new Date(schedule.startTime);
+
+  return {
+    registrationOpensAt: schedule.registrationOpensAt ? new Date(schedule.registrationOpensAt) : now,
+    registrationClosesAt: schedule.registrationClosesAt ? new Date(schedule.registrationClosesAt) : startTime,
+    startTime,
+    endTime: new Date(startTime.getTime() + testSeries.duration * 60 * 1000),
+    maxParticipants: schedule.maxParticipants ?? null,
+  };
+}
+
+// =============================================================================
+// LEADERBOARD
+// =============================================================================
+
+const leaderboardCache = new Map<string, { expiresAt: number; snapshot: Promise<LiveLeaderboardSnapshot> }>();
+
+async function loadLiveLeaderboard(testSeriesId: string, limit: number): Promise<LiveLeaderboardSnapshot> {
+  const liveTest = await prisma.liveTest.findUnique({
+    where: { testSeriesId },
+    select: { registrationOpensAt: true, registrationClosesAt: true, startTime: true, endTime: true, cancelledAt: true },
+  });
+
+  const testSeries = await prisma.testSeries.findUnique({
+    where: { id: testSeriesId },
+    select: { isAdaptive: true },
+  });
+
+  const attempts = await prisma.testAttempt.findMany({
+    where: { testSeriesId, completedAt: { not: null }, proctoringStatus: { not: 'EXCLUDED' } },
+    orderBy: { completedAt: 'asc' },
+    select: {
+      id: true,
+      userId: true,
+      score: true,
+      abilityEstimate: true,
+      timeSpent: true,
+      attemptedQuestions: true,
+      correctAnswers: true,
+      completedAt: true,
+      user: { select: { fullName: true, avatar: true } },
+    },
+  });
+
+  const byId = new Map(attempts.map(attempt => [attempt.id, attempt]));
+  const ranked = rankAttempts(attempts.map(attempt => ({
+    id: attempt.id,
+    score: getRankingScore(attempt, testSeries?.isAdaptive ?? false),
+    timeSpent: attempt.timeSpent,
+  })));
+
+  const entries = ranked.slice(0, limit).flatMap((entry): LiveLeaderboardEntry[] => {
+    const attempt = byId.get(entry.id);
+    if (!attempt) {
+      return [];
+    }
+
+    return [{
+      rank: entry.rank,
+      userId: attempt.userId,
+      name: attempt.user.fullName,
+      avatar: attempt.user.avatar,
+      score: Number(attempt.score),
+      questionsAnswered: attempt.attemptedQuestions,
+      accuracy: attempt.attemptedQuestions > 0
+        ? Math.round((attempt.correctAnswers / attempt.attemptedQuestions) * 10000) / 100
+        : 0,
+      timeTaken: Math.round((attempt.timeSpent / 60) * 100) / 100,
+    }];
+  });
+
+  return {
+    liveTest,
+    leaderboard: {
+      testSeriesId,
+      submissions: attempts.length,
+      lastSubmissionAt: attempts[attempts.length - 1]?.completedAt ?? null,
+      entries,
+    },
+  };
+}
+
+/**
+ * Live standings of a live test: submitted attempts by score (ability
+ * estimate in adaptive series), then time, with the test's current schedule
+ * so streams notice a cancellation.
+ * Scores are shown as submitted; descriptive answers are graded after the
+ * test. Results are cached briefly so thousands of open streams share a query.
+ */
+export async function getLiveLeaderboard(
+  testSeriesId: string,
+  limit: number = 100
+): Promise<LiveLeaderboardSnapshot> {
+  const key = `${testSeriesId}:${limit}`;
+  const now = Date.now();
+  const cached = leaderboardCache.get(key);
+
+  if (cached && cached.expiresAt > now) {
+    return cached.snapshot;
+  }
+
+  // Drop expired entries so finished tests and unused limits do not pile up
+  for (const [cachedKey, entry] of leaderboardCache) {
+    if (entry.expiresAt <= now) {
+      leaderboardCache.delete(cachedKey);
+    }
+  }
+
+  const snapshot = loadLiveLeaderboard(testSeriesId, limit);
+  leaderboardCache.set(key, { expiresAt: now + LEADERBOARD_REFRESH_SECONDS * 1000, snapshot });
+  // A failed query is not cached
+  snapshot.catch(() => leaderboardCache.delete(key));
+
+  return snapshot;
+}
+
+// =============================================================================
+// RESULT RELEASE
+// =============================================================================
+
+/**
+ * Check whether a live test's results can be released: it is over, late
+ * submissions are no longer accepted and no participant given extra time by
+ * an accommodation is still writing
+ */
+export async function isResultReleaseDue(
+  liveTest: LiveTestTiming & Pick<LiveTest, 'testSeriesId' | 'resultsReleasedAt'>,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (liveTest.cancelledAt || liveTest.resultsReleasedAt || !isAttemptExpired(liveTest.endTime, now)) {
+    return false;
+  }
+
+  // Everyone else's time ended with the test
+  const extended = await prisma.testAttempt.findMany({
+    where: { testSeriesId: liveTest.testSeriesId, completedAt: null, extraTimePerHour: { gt: 0 } },
+    include: {
+      testSeries: {
+        select: {
+          duration: true,
+          sections: { orderBy: { order: 'asc' }, select: { duration: true } },
+          exam: { select: { endDate: true } },
+        },
+      },
+    },
+  });
+
+  return extended.every(({ testSeries, ...attempt }) => {
+    const endTime = getAttemptDeadline(attempt, testSeries, getAttemptWindowEnd(testSeries.exam, liveTest));
+    return endTime === null || isAttemptExpired(endTime, now);
+  });
+}
+
+/**
+ * Why a live test participant's result is still hidden, or null once released
+ */
+export function getLiveResultEmbargo(liveTest: Pick<LiveTest, 'endTime' | 'resultsReleasedAt'> | null): string | null {
+  return liveTest && isLiveResultHeld(liveTest)
+    ? `Results will be released for everyone after the live test ends at ${liveTest.endTime.toISOString()}`
+    : null;
+}
+
+/**
+ * Release every participant's result together: close attempts left open,
+ * release the graded results, rank the series and notify the participants.
+ * Attempts still awaiting manual grading are released as they are graded.
+ * Returns null if the results are not due or were already released.
+ */
+export async function releaseLiveTestResults(
+  liveTestId: string,
+  now: Date = new Date()
+): Promise<LiveResultRelease | null> {
+  const liveTest = await prisma.liveTest.findUnique({
+    where: { id: liveTestId },
+    include: {
+      testSeries: { select: { id: true, title: true, examId: true } },
+    },
+  });
+
+  if (!liveTest || !(await isResultReleaseDue(liveTest, now))) {
+    return null;
+  }
+
+  const { testSeries } = liveTest;
+  const closedAttempts = await closeExpiredAttempts({ testSeriesId: testSeries.id }, now);
+
+  // Only one caller gets to release; concurrent calls see the test released.
+  // Claiming the live test waits for submissions still being stored, so the
+  // attempts released below include them
+  const [claimed] = await prisma.$transaction([
+    prisma.liveTest.updateMany({
+      where: { id: liveTest.id, resultsReleasedAt: null },
+      data: { resultsReleasedAt: now },
+    }),
+    prisma.testAttempt.updateMany({
+      where: {
+        testSeriesId: testSeries.id,
+        completedAt: { not: null },
+        pendingReview: 0,
+        resultsReleasedAt: null,
+      },
+      data: { resultsReleasedAt: now },
+    }),
+  ]);
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const releasable = await prisma.testAttempt.findMany({
+    where: { testSeriesId: testSeries.id, resultsReleasedAt: now },
+    select: { id: true, userId: true },
+  });
+
+  const ranking = await recomputeTestSeriesRankings(testSeries.id);
+
+  await createNotifications(releasable.map(attempt => attempt.userId), {
+    type: NOTIFICATION_TYPES.TEST_RESULT,
+    title: 'Live test results are out',
+    message: `Results for "${testSeries.title}" have been released. See your score and all-India rank.`,
+    actionUrl: `/exams/${testSeries.examId}/results`,
+    actionText: 'View result',
+    metadata: {
+      testSeriesId: testSeries.id,
+      liveTestId: liveTest.id,
+    },
+  });
+
+  return {
+    closedAttempts,
+    releasedAttempts: releasable.length,
+    ranking,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Notification Utilities
+ *
+ * Creates in-app notifications stored on the Notification model.
+ */
+
+import type { Notification, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Values stored in Notification.type
+ */
+export const NOTIFICATION_TYPES = {
+  TEST_RESULT: 'test_result',
+  QUESTION_REVIEW: 'question_review',
+  QUESTION_ISSUE: 'question_issue',
+} as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[keyof typeof NOTIFICATION_TYPES];
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  actionText?: string;
+  metadata?: Prisma.InputJsonValue;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Create a notification for a single user
+ */
+export async function createNotification(
+  userId: string,
+  notification: NotificationInput
+): Promise<Notification> {
+  return prisma.notification.create({
+    data: {
+      userId,
+      ...notification,
+    },
+  });
+}
+
+/**
+ * Create the same notification for many users
+ */
+export async function createNotifications(
+  userIds: string[],
+  notification: NotificationInput
+): Promise<number> {
+  if (userIds.length === 0) {
+    return 0;
+  }
+
+  const result = await prisma.notification.createMany({
+    data: userIds.map(userId => ({
+      userId,
+      ...notification,
+    })),
+  });
+
+  return result.count;
+}
@@ -0,0 +1,393 @@
+/**
+ * PDF Document Writer
+ *
+ * Minimal flowing-layout PDF generator for printable documents (question
+ * papers, answer keys). Text is set in the standard Helvetica fonts with
+ * WinAnsi encoding; paragraphs containing characters outside that encoding
+ * (e.g. Devanagari) are rendered to images with sharp, which shapes complex
+ * scripts using the fonts installed on the server. Images are embedded as JPEG.
+ */
+
+import sharp from 'sharp';
+import { deflateSync } from 'zlib';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PdfTextOptions {
+  size?: number; // font size in points
+  bold?: boolean;
+  indent?: number; // left indent in points
+  align?: 'left' | 'center';
+  spaceAfter?: number;
+}
+
+export interface PdfDocumentOptions {
+  title?: string;
+  footer?: string; // printed on every page next to the page number
+}
+
+interface PdfImage {
+  name: string;
+  width: number;
+  height: number;
+  data: Buffer;
+  filter: 'DCTDecode' | 'FlateDecode';
+  colorSpace: 'DeviceRGB' | 'DeviceGray';
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SIZE = 8;
+const LINE_SPACING = 1.35;
+const DEFAULT_SIZE = 11;
+
+// Resolution used when rasterizing text that Helvetica cannot encode
+const TEXT_IMAGE_SCALE = 3; // pixels per point
+
+// =============================================================================
+// FONT METRICS
+// =============================================================================
+
+// Glyph widths (1/1000 em) for characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Unicode characters WinAnsi places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+  '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+  '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * WinAnsi byte for a character, or null when Helvetica cannot show it
+ */
+function toWinAnsi(char: string): number | null {
+  const code = char.charCodeAt(0);
+  if (char.length === 1 && ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff))) {
+    return code;
+  }
+  return WIN_ANSI_EXTRAS[char] ?? null;
+}
+
+const isWinAnsiText = (text: string): boolean =>
+  Array.from(text).every(char => char === '\t' || toWinAnsi(char) !== null);
+
+function textWidth(text: string, size: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126
+      ? widths[code - 32]!
+      : char === '—' || char === '…' ? 1000 : 556;
+  }
+
+  return (units / 1000) * size;
+}
+
+/**
+ * Encode text as a PDF literal string in WinAnsi
+ */
+function pdfString(text: string): string {
+  const bytes = Array.from(text.replace(/\t/g, '    ')).map(char => toWinAnsi(char) ?? 0x3f);
+  const escaped = Buffer.from(bytes).toString('latin1').replace(/([\\()])/g, '\\$1');
+  return `(${escaped})`;
+}
+
+/**
+ * Break text into lines that fit the given width
+ */
+function wrapText(text: string, maxWidth: number, size: number, bold: boolean): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/ +/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (textWidth(candidate, size, bold) <= maxWidth || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+
+    // Break words longer than a line
+    while (textWidth(current, size, bold) > maxWidth && current.length > 1) {
+      let cut = current.length - 1;
+      while (cut > 1 && textWidth(current.slice(0, cut), size, bold) > maxWidth) cut--;
+      lines.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  }
+  lines.push(current);
+
+  return lines;
+}
+
+const escapePangoMarkup = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// =============================================================================
+// DOCUMENT
+// =============================================================================
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private images: PdfImage[] = [];
+  private y = 0;
+
+  constructor(private options: PdfDocumentOptions = {}) {
+    this.addPage();
+  }
+
+  /**
+   * Start a new page
+   */
+  addPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /**
+   * Add vertical space
+   */
+  space(points: number): void {
+    this.y -= points;
+  }
+
+  /**
+   * Draw a horizontal rule across the content width
+   */
+  rule(): void {
+    this.ensureSpace(8);
+    this.y -= 4;
+    this.current().push(`0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S`);
+    this.y -= 4;
+  }
+
+  /**
+   * Add a paragraph of text (newlines start new lines)
+   */
+  async text(value: string, options: PdfTextOptions = {}): Promise<void> {
+    const size = options.size ?? DEFAULT_SIZE;
+    const bold = options.bold ?? false;
+    const indent = options.indent ?? 0;
+    const maxWidth = CONTENT_WIDTH - indent;
+    const lineHeight = size * LINE_SPACING;
+
+    for (const paragraph of value.split(/\r?\n/)) {
+      if (!isWinAnsiText(paragraph)) {
+        await this.textImage(paragraph, size, bold, indent);
+        continue;
+      }
+
+      for (const line of wrapText(paragraph, maxWidth, size, bold)) {
+        this.ensureSpace(lineHeight);
+        this.y -= lineHeight;
+
+        const x = options.align === 'center'
+          ? MARGIN + (CONTENT_WIDTH - textWidth(line, size, bold)) / 2
+          : MARGIN + indent;
+        const baseline = this.y + (lineHeight - size) / 2;
+        this.current().push(
+          `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${baseline.toFixed(2)} Td ${pdfString(line)} Tj ET`
+        );
+      }
+    }
+
+    this.y -= options.spaceAfter ?? 0;
+  }
+
+  /**
+   * Add an image (any format sharp reads), scaled to fit the given width
+   */
+  async image(source: Buffer, options: { maxWidth?: number; indent?: number } = {}): Promise<void> {
+    const indent = options.indent ?? 0;
+    const maxWidth = Math.min(options.maxWidth ?? CONTENT_WIDTH, CONTENT_WIDTH - indent);
+
+    const { data, info } = await sharp(source)
+      .flatten({ background: '#ffffff' })
+      .toColourspace('srgb')
+      .resize({ width: Math.round(maxWidth * 2), withoutEnlargement: true })
+      .jpeg({ quality: 85 })
+      .toBuffer({ resolveWithObject: true });
+
+    const width = Math.min(info.width, maxWidth);
+    const height = (info.height / info.width) * width;
+
+    this.placeImage({ width: info.width, height: info.height, data, filter: 'DCTDecode', colorSpace: 'DeviceRGB' }, indent, width, height);
+    this.y -= 4;
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const addObject = (body: Buffer | string): number => {
+      objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+      return objects.length;
+    };
+    const stream = (dictionary: string, data: Buffer): Buffer => Buffer.concat([
+      Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+
+    // 1: catalog, 2: page tree (written last, once page ids are known)
+    addObject('<< /Type /Catalog /Pages 2 0 R >>');
+    addObject('');
+    const regular = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const bold = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const imageRefs = this.images.map(image => `/${image.name} ${addObject(stream(
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+      `/ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /${image.filter}`,
+      image.data
+    ))} 0 R`).join(' ');
+
+    const pageIds = this.pages.map((operations, index) => {
+      const footer = `${this.options.footer ? `${this.options.footer} - ` : ''}Page ${index + 1} of ${this.pages.length}`;
+      const footerX = (PAGE_WIDTH - textWidth(footer, FOOTER_SIZE, false)) / 2;
+      const content = [
+        ...operations,
+        `BT /F1 ${FOOTER_SIZE} Tf ${footerX.toFixed(2)} ${MARGIN / 2} Td ${pdfString(footer)} Tj ET`,
+      ].join('\n');
+
+      const contentId = addObject(stream('/Filter /FlateDecode', deflateSync(Buffer.from(content, 'latin1'))));
+      return addObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> /XObject << ${imageRefs} >> >> ` +
+        `/Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      'latin1'
+    );
+
+    const info = this.options.title
+      ? addObject(`<< /Title ${pdfString(this.options.title)} /Producer (Question Bank) >>`)
+      : null;
+
+    // Body with cross-reference table
+    const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let length = parts[0]!.length;
+    const offsets: number[] = [];
+
+    objects.forEach((body, index) => {
+      offsets.push(length);
+      const object = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        body,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      parts.push(object);
+      length += object.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R${info ? ` /Info ${info} 0 R` : ''} >>`,
+      'startxref',
+      String(length),
+      '%%EOF',
+    ].join('\n');
+    parts.push(Buffer.from(xref, 'latin1'));
+
+    return Buffer.concat(parts);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1]!;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private placeImage(image: Omit<PdfImage, 'name'>, indent: number, width: number, height: number): void {
+    const name = `Im${this.images.length + 1}`;
+    this.images.push({ ...image, name });
+
+    this.ensureSpace(height);
+    this.y -= height;
+    this.current().push(
+      `q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${(MARGIN + indent).toFixed(2)} ${this.y.toFixed(2)} cm /${name} Do Q`
+    );
+  }
+
+  /**
+   * Render a paragraph Helvetica cannot encode as a greyscale image
+   */
+  private async textImage(value: string, size: number, bold: boolean, indent: number): Promise<void> {
+    const lineHeight = size * LINE_SPACING;
+
+    if (!value.trim()) {
+      this.y -= lineHeight;
+      return;
+    }
+
+    const maxWidth = CONTENT_WIDTH - indent;
+    const { data, info } = await sharp({
+      text: {
+        text: escapePangoMarkup(value),
+        font: `sans${bold ? ' bold' : ''} ${size}`,
+        width: Math.round(maxWidth * TEXT_IMAGE_SCALE),
+        dpi: 72 * TEXT_IMAGE_SCALE,
+        spacing: Math.round(size * (LINE_SPACING - 1) * TEXT_IMAGE_SCALE),
+      },
+    })
+      .negate({ alpha: false })
+      .flatten({ background: '#ffffff' })
+      .toColourspace('b-w')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const width = info.width / TEXT_IMAGE_SCALE;
+    const height = info.height / TEXT_IMAGE_SCALE;
+    const padding = (lineHeight - size) / 2;
+
+    this.y -= padding;
+    this.placeImage(
+      { width: info.width, height: info.height, data: deflateSync(data), filter: 'FlateDecode', colorSpace: 'DeviceGray' },
+      indent,
+      width,
+      height
+    );
+    this.y -= padding;
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Practice Mode
+ *
+ * Attempts at PRACTICE_TEST exams run in practice mode: there is no timer and
+ * no ranking, and every answer is checked the moment it is given. The checked
+ * answer is stored as the attempt's question attempt straight away and cannot
+ * be changed, so it counts towards the final score and question analytics
+ * like any other answer.
+ */
+
+import type {
+  Exam,
+  GradingStatus,
+  Prisma,
+  Question,
+  QuestionAttempt,
+  TestAttempt,
+  TestSection,
+  TestSeries,
+} from '@prisma/client';
+import { prisma } from './prisma';
+import { toUserAnswer, type SavedAnswer } from './exam-attempt';
+import {
+  parseQuestionsOrder,
+  toDisplayedAnswer,
+  toOriginalAnswer,
+  type QuestionsOrder,
+} from './randomization';
+import { getMarkingScheme, scoreQuestion, type ScorableQuestion } from './scoring';
+import { getSectionIndex, getSectionMarkingScheme } from './test-sections';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PracticeQuestion = ScorableQuestion &
+  Pick<Question, 'version' | 'sectionId' | 'explanation' | 'correctAttempts' | 'totalAttempts'>;
+
+export interface PracticeTestSeries extends Pick<TestSeries, 'negativeMarking' | 'negativeMarkingRatio'> {
+  exam: Pick<Exam, 'allowNegativeMarking'>;
+  sections: Pick<TestSection, 'id' | 'negativeMarking' | 'negativeMarkingRatio'>[];
+}
+
+/**
+ * Feedback on a checked practice answer
+ */
+export interface PracticeFeedback {
+  questionId: string;
+  userAnswer: Prisma.JsonValue; // the answer that was checked, displayed option indices
+  isCorrect: boolean;
+  gradingStatus: GradingStatus; // PENDING for descriptive answers
+  marksAwarded: number;
+  correctAnswer: Prisma.JsonValue; // displayed option indices for choice questions
+  explanation: string | null;
+  communityAccuracy: number | null; // % of students who got it right, null before any data
+  alreadyChecked: boolean; // the question was checked before; this is the first answer's feedback
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Check whether attempts at an exam run in practice mode
+ */
+export function isPracticeExam(exam: Pick<Exam, 'type'>): boolean {
+  return exam.type === 'PRACTICE_TEST';
+}
+
+/**
+ * Share of all recorded answers to a question that were correct, in percent
+ */
+export function getCommunityAccuracy(question: Pick<Question, 'correctAttempts' | 'totalAttempts'>): number | null {
+  if (question.totalAttempts === 0) {
+    return null;
+  }
+
+  return Math.round((question.correctAttempts / question.totalAttempts) * 10000) / 100;
+}
+
+/**
+ * Build the feedback on a checked answer, in the attempt's display order
+ */
+function toPracticeFeedback(
+  question: PracticeQuestion,
+  checked: QuestionAttempt,
+  order: QuestionsOrder | null,
+  alreadyChecked: boolean
+): PracticeFeedback {
+  return {
+    questionId: question.id,
+    userAnswer: toDisplayedAnswer(question.id, checked.userAnswer, order),
+    isCorrect: checked.isCorrect,
+    gradingStatus: checked.gradingStatus,
+    marksAwarded: Number(checked.marksAwarded),
+    correctAnswer: toDisplayedAnswer(question.id, question.correctAnswer, order),
+    explanation: question.explanation,
+    communityAccuracy: getCommunityAccuracy(question),
+    alreadyChecked,
+  };
+}
+
+// =============================================================================
+// CHECKING
+// =============================================================================
+
+/**
+ * Grade a practice answer and record it. A question is only checked once:
+ * asking again returns the feedback on the first answer.
+ */
+export async function checkPracticeAnswer(
+  attempt: Pick<TestAttempt, 'id' | 'questionsOrder'>,
+  testSeries: PracticeTestSeries,
+  question: PracticeQuestion,
+  answer: SavedAnswer
+): Promise<PracticeFeedback> {
+  const order = parseQuestionsOrder(attempt.questionsOrder);
+  const { sections } = testSeries;
+  const scheme = sections.length > 0
+    ? getSectionMarkingScheme(testSeries.exam, testSeries, sections[getSectionIndex(question.sectionId, sections)])
+    : getMarkingScheme(testSeries.exam, testSeries);
+
+  const userAnswer = toOriginalAnswer(question.id, toUserAnswer(answer), order);
+  const graded = scoreQuestion(question, userAnswer, scheme);
+
+  const existing = await prisma.questionAttempt.findUnique({
+    where: { testAttemptId_questionId: { testAttemptId: attempt.id, questionId: question.id } },
+  });
+
+  const checked = existing ?? await prisma.questionAttempt.create({
+    data: {
+      testAttemptId: attempt.id,
+      questionId: question.id,
+      questionVersion: question.version,
+      userAnswer,
+      isCorrect: graded.isCorrect,
+      isSkipped: graded.isSkipped,
+      isMarked: answer.bookmarked,
+      timeTaken: Math.round(answer.timeSpent ?? 0),
+      marksAwarded: graded.marksAwarded,
+      gradingStatus: graded.gradingStatus,
+    },
+  });
+
+  return toPracticeFeedback(question, checked, order, existing !== null);
+}
+
+/**
+ * Feedback on every answer already checked in a practice attempt, restored
+ * into the exam client when the attempt is resumed
+ */
+export async function getPracticeFeedback(
+  attempt: Pick<TestAttempt, 'questionsOrder'>,
+  questionAttempts: QuestionAttempt[]
+): Promise<PracticeFeedback[]> {
+  const order = parseQuestionsOrder(attempt.questionsOrder);
+  const questions = new Map((await prisma.question.findMany({
+    where: { id: { in: questionAttempts.map(qa => qa.questionId) } },
+  })).map(question => [question.id, question]));
+
+  return questionAttempts.flatMap(checked => {
+    const question = questions.get(checked.questionId);
+    return question ? [toPracticeFeedback(question, checked, order, true)] : [];
+  });
+}
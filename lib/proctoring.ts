@@ -0,0 +1,191 @@
+/**
+ * Proctoring
+ *
+ * Proctoring events streamed by the exam client during an attempt (tab
+ * switches, window blur, fullscreen exits, copy/paste), the violation limit
+ * that submits an attempt automatically, and the invigilator review that
+ * clears, flags or excludes an attempt from the ranking.
+ *
+ * Every reported event counts as a violation; severity only helps
+ * invigilators triage.
+ */
+
+import type {
+  Exam,
+  Prisma,
+  ProctoringEventType,
+  ProctoringStatus,
+  TestAttempt,
+  ViolationSeverity,
+} from '@prisma/client';
+import { prisma } from './prisma';
+import { completeTestAttempt, type CompletableTestSeries } from './exam-attempt';
+import { recomputeTestSeriesRankings } from './rankings';
+import type { ProctoringEventsFormData, ProctoringReviewFormData } from './validations/exam';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ProctoringSettings = Pick<Exam, 'proctoringEnabled' | 'violationLimit'>;
+
+export interface ProctoringState {
+  enabled: boolean;
+  violationCount: number;
+  violationLimit: number | null;
+  violationsRemaining: number | null; // before the attempt is submitted
+}
+
+export interface ProctoringEventResult {
+  attempt: TestAttempt;
+  proctoring: ProctoringState;
+  autoSubmitted: boolean; // the batch took the attempt to its violation limit
+}
+
+export interface ProctoringQueueFilters {
+  status: Exclude<ProctoringStatus, 'NONE'>;
+  creatorId?: string; // restrict to test series created by this instructor
+  testSeriesId?: string;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const EVENT_SEVERITY: Record<ProctoringEventType, ViolationSeverity> = {
+  WINDOW_BLUR: 'LOW',
+  TAB_SWITCH: 'MEDIUM',
+  FULLSCREEN_EXIT: 'MEDIUM',
+  COPY_PASTE: 'HIGH',
+  WEBCAM_OFF: 'HIGH',
+  SUSPICIOUS_ACTIVITY: 'HIGH',
+};
+
+/**
+ * Proctoring settings and violation count as sent to the exam client
+ */
+export function serializeProctoringState(
+  exam: ProctoringSettings,
+  attempt: Pick<TestAttempt, 'violationCount'>
+): ProctoringState {
+  return {
+    enabled: exam.proctoringEnabled,
+    violationCount: attempt.violationCount,
+    violationLimit: exam.violationLimit,
+    violationsRemaining: exam.violationLimit === null
+      ? null
+      : Math.max(0, exam.violationLimit - attempt.violationCount),
+  };
+}
+
+// =============================================================================
+// EVENT INGESTION
+// =============================================================================
+
+/**
+ * Store a batch of proctoring events for an in-progress attempt and count
+ * them as violations. The batch that reaches the exam's violation limit
+ * submits the attempt with the answers saved so far.
+ */
+export async function recordProctoringEvents(
+  attempt: TestAttempt,
+  testSeries: CompletableTestSeries & { exam: ProctoringSettings },
+  events: ProctoringEventsFormData['events'],
+  now: Date = new Date()
+): Promise<ProctoringEventResult> {
+  const { exam } = testSeries;
+
+  const [, counted] = await prisma.$transaction([
+    prisma.proctoringEvent.createMany({
+      data: events.map(event => ({
+        testAttemptId: attempt.id,
+        type: event.type,
+        severity: EVENT_SEVERITY[event.type],
+        description: event.description ?? null,
+        ...(event.details && { details: event.details as Prisma.InputJsonObject }),
+        // Client clocks drift; events are never recorded in the future
+        occurredAt: new Date(Math.min(new Date(event.occurredAt).getTime(), now.getTime())),
+      })),
+    }),
+    prisma.testAttempt.update({
+      where: { id: attempt.id },
+      data: {
+        violationCount: { increment: events.length },
+        // Cleared attempts go back to the queue when new violations arrive
+        proctoringStatus: attempt.proctoringStatus === 'FLAGGED' || attempt.proctoringStatus === 'EXCLUDED'
+          ? attempt.proctoringStatus
+          : 'PENDING',
+      },
+    }),
+  ]);
+
+  if (exam.violationLimit === null || counted.violationCount < exam.violationLimit) {
+    return { attempt: counted, proctoring: serializeProctoringState(exam, counted), autoSubmitted: false };
+  }
+
+  // Only the first batch over the limit submits the attempt
+  const { count } = await prisma.testAttempt.updateMany({
+    where: { id: attempt.id, violationLimitReachedAt: null, completedAt: null },
+    data: { violationLimitReachedAt: now },
+  });
+
+  if (count === 0) {
+    return { attempt: counted, proctoring: serializeProctoringState(exam, counted), autoSubmitted: false };
+  }
+
+  const { attempt: completed } = await completeTestAttempt(
+    { ...counted, violationLimitReachedAt: now },
+    testSeries,
+    [],
+    now
+  );
+
+  return { attempt: completed, proctoring: serializeProctoringState(exam, completed), autoSubmitted: true };
+}
+
+// =============================================================================
+// INVIGILATOR REVIEW
+// =============================================================================
+
+/**
+ * Build the attempt filter for the proctoring review queue. In-progress
+ * attempts are included so invigilators can follow a test while it runs.
+ */
+export function buildProctoringQueueWhere(filters: ProctoringQueueFilters): Prisma.TestAttemptWhereInput {
+  return {
+    proctoringStatus: filters.status,
+    ...(filters.testSeriesId && { testSeriesId: filters.testSeriesId }),
+    ...(filters.creatorId && { testSeries: { creatorId: filters.creatorId } }),
+  };
+}
+
+/**
+ * Record an invigilator's decision on an attempt. Excluding an attempt takes
+ * it out of the ranking and re-ranks the series; reinstating it puts it back.
+ */
+export async function reviewAttemptProctoring(
+  attempt: Pick<TestAttempt, 'id' | 'testSeriesId' | 'proctoringStatus' | 'resultsReleasedAt'>,
+  review: ProctoringReviewFormData,
+  reviewerId: string
+): Promise<TestAttempt> {
+  const excluded = review.status === 'EXCLUDED';
+  const rankingChanged = excluded !== (attempt.proctoringStatus === 'EXCLUDED');
+
+  const updated = await prisma.testAttempt.update({
+    where: { id: attempt.id },
+    data: {
+      proctoringStatus: review.status,
+      proctoringNote: review.note ?? null,
+      proctoringReviewedBy: reviewerId,
+      proctoringReviewedAt: new Date(),
+      ...(excluded && { rank: null, percentile: null }),
+    },
+  });
+
+  if (rankingChanged && attempt.resultsReleasedAt) {
+    await recomputeTestSeriesRankings(attempt.testSeriesId);
+    return prisma.testAttempt.findUniqueOrThrow({ where: { id: attempt.id } });
+  }
+
+  return updated;
+}
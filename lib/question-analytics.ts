@@ -0,0 +1,272 @@
+/**
+ * Question Analytics
+ *
+ * Batch job aggregating answers into the per-question statistics on Question:
+ * attempt counts, average time, an empirical difficulty index and an
+ * upper/lower group discrimination index. Questions whose empirical
+ * difficulty disagrees with their declared difficulty get a suggestedDifficulty
+ * so editors can fix the tagging.
+ *
+ * Only each student's first released attempt is counted (the ranking pool);
+ * retakes have already seen the questions. Answers to an older revision of a
+ * question are only counted when its graded content (text, options, answer
+ * key, marks) is unchanged since, so retagging keeps the statistics.
+ */
+
+import type { Prisma, QuestionDifficulty } from '@prisma/client';
+import { prisma } from './prisma';
+import { hasGradedChanges } from './question-bank';
+import { compareAttempts, getRankingPool } from './rankings';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface QuestionAnalyticsSummary {
+  testSeries: number;
+  questions: number;
+  flagged: number; // questions with a suggestedDifficulty
+}
+
+interface AnswerRow {
+  questionVersion: number | null;
+  isCorrect: boolean;
+  isSkipped: boolean;
+  timeTaken: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Share of the ranking pool in the upper and lower scoring groups
+const DISCRIMINATION_GROUP_SHARE = 0.27;
+
+// Smallest ranking pool the discrimination index is computed for
+const MIN_DISCRIMINATION_POOL = 20;
+
+// Answers needed before a question's declared difficulty is questioned
+const MIN_ATTEMPTS_FOR_FLAG = 30;
+
+// Difficulty index (share of answers that were wrong) expected per level
+const DIFFICULTY_BANDS: Record<QuestionDifficulty, { min: number; max: number }> = {
+  EASY: { min: 0, max: 0.3 },
+  MEDIUM: { min: 0.3, max: 0.6 },
+  HARD: { min: 0.6, max: 0.8 },
+  VERY_HARD: { min: 0.8, max: 1 },
+};
+
+// Leeway around a band before a question is flagged
+const FLAG_MARGIN = 0.05;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const roundTo = (value: number, places: number): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Difficulty level whose band contains a difficulty index
+ */
+export function getEmpiricalDifficulty(difficultyIndex: number): QuestionDifficulty {
+  const levels = Object.keys(DIFFICULTY_BANDS) as QuestionDifficulty[];
+  return levels.find(level => difficultyIndex < DIFFICULTY_BANDS[level].max) ?? 'VERY_HARD';
+}
+
+/**
+ * Suggested difficulty for a question, or null when the declared one fits
+ */
+export function getSuggestedDifficulty(
+  declared: QuestionDifficulty,
+  difficultyIndex: number | null,
+  totalAttempts: number
+): QuestionDifficulty | null {
+  if (difficultyIndex === null || totalAttempts < MIN_ATTEMPTS_FOR_FLAG) {
+    return null;
+  }
+
+  const band = DIFFICULTY_BANDS[declared];
+  if (difficultyIndex >= band.min - FLAG_MARGIN && difficultyIndex <= band.max + FLAG_MARGIN) {
+    return null;
+  }
+
+  return getEmpiricalDifficulty(difficultyIndex);
+}
+
+/**
+ * Share of a scoring group that answered correctly. Students who answered a
+ * differently graded revision are left out; those who skipped count as incorrect.
+ */
+function groupCorrectRate(
+  attemptIds: string[],
+  answers: Map<string, AnswerRow>,
+  versions: Set<number>
+): number | null {
+  let counted = 0;
+  let correct = 0;
+
+  for (const attemptId of attemptIds) {
+    const answer = answers.get(attemptId);
+    if (answer && (answer.questionVersion === null || !versions.has(answer.questionVersion))) {
+      continue;
+    }
+
+    counted++;
+    if (answer?.isCorrect) {
+      correct++;
+    }
+  }
+
+  return counted > 0 ? correct / counted : null;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Recompute analytics for every question of a test series. Returns the
+ * number of questions updated and how many were flagged.
+ */
+export async function recomputeTestSeriesQuestionAnalytics(
+  testSeriesId: string
+): Promise<Omit<QuestionAnalyticsSummary, 'testSeries'>> {
+  const [questions, pool] = await Promise.all([
+    prisma.question.findMany({
+      where: { testSeriesId },
+      select: {
+        id: true,
+        version: true,
+        difficulty: true,
+        questionText: true,
+        options: true,
+        correctAnswer: true,
+        type: true,
+        marks: true,
+        negativeMarks: true,
+        partialMarking: true,
+        revisions: {
+          select: {
+            version: true,
+            questionText: true,
+            options: true,
+            correctAnswer: true,
+            type: true,
+            marks: true,
+            negativeMarks: true,
+            partialMarking: true,
+          },
+        },
+      },
+    }),
+    getRankingPool(testSeriesId),
+  ]);
+
+  if (questions.length === 0) {
+    return { questions: 0, flagged: 0 };
+  }
+
+  const rows = await prisma.questionAttempt.findMany({
+    where: { testAttemptId: { in: pool.map(attempt => attempt.id) } },
+    select: {
+      testAttemptId: true,
+      questionId: true,
+      questionVersion: true,
+      isCorrect: true,
+      isSkipped: true,
+      timeTaken: true,
+    },
+  });
+
+  // questionId -> testAttemptId -> answer
+  const answersByQuestion = new Map<string, Map<string, AnswerRow>>();
+  for (const { questionId, testAttemptId, ...answer } of rows) {
+    const answers = answersByQuestion.get(questionId) ?? new Map<string, AnswerRow>();
+    answers.set(testAttemptId, answer);
+    answersByQuestion.set(questionId, answers);
+  }
+
+  // Upper and lower groups in ranking order
+  const ranked = [...pool].sort((a, b) => compareAttempts(
+    { ...a, score: a.rankingScore },
+    { ...b, score: b.rankingScore }
+  ));
+  const groupSize = ranked.length >= MIN_DISCRIMINATION_POOL
+    ? Math.round(ranked.length * DISCRIMINATION_GROUP_SHARE)
+    : 0;
+  const upper = ranked.slice(0, groupSize).map(attempt => attempt.id);
+  const lower = ranked.slice(ranked.length - groupSize).map(attempt => attempt.id);
+
+  const now = new Date();
+  let flagged = 0;
+
+  const updates = questions.map(question => {
+    const answers = answersByQuestion.get(question.id) ?? new Map<string, AnswerRow>();
+    // Revisions graded the same way as the current one
+    const versions = new Set([
+      question.version,
+      ...question.revisions.filter(revision => !hasGradedChanges(revision, question)).map(revision => revision.version),
+    ]);
+    const current = Array.from(answers.values()).filter(answer =>
+      answer.questionVersion !== null && versions.has(answer.questionVersion) && !answer.isSkipped
+    );
+
+    const totalAttempts = current.length;
+    const correctAttempts = current.filter(answer => answer.isCorrect).length;
+    const difficultyIndex = totalAttempts > 0 ? 1 - correctAttempts / totalAttempts : null;
+
+    const upperRate = groupSize > 0 ? groupCorrectRate(upper, answers, versions) : null;
+    const lowerRate = groupSize > 0 ? groupCorrectRate(lower, answers, versions) : null;
+
+    const suggestedDifficulty = getSuggestedDifficulty(question.difficulty, difficultyIndex, totalAttempts);
+    if (suggestedDifficulty) {
+      flagged++;
+    }
+
+    const data: Prisma.QuestionUpdateInput = {
+      totalAttempts,
+      correctAttempts,
+      averageTime: totalAttempts > 0
+        ? Math.round(current.reduce((sum, answer) => sum + answer.timeTaken, 0) / totalAttempts)
+        : null,
+      difficultyLevel: difficultyIndex !== null ? roundTo(difficultyIndex, 2) : null,
+      discriminationIndex: upperRate !== null && lowerRate !== null ? roundTo(upperRate - lowerRate, 3) : null,
+      suggestedDifficulty,
+      analyticsUpdatedAt: now,
+    };
+
+    return prisma.question.update({ where: { id: question.id }, data });
+  });
+
+  await prisma.$transaction(updates);
+
+  return { questions: questions.length, flagged };
+}
+
+/**
+ * Recompute question analytics for the matching test series, one series at a
+ * time to keep memory bounded
+ */
+export async function recomputeQuestionAnalytics(
+  where: Prisma.TestSeriesWhereInput = {}
+): Promise<QuestionAnalyticsSummary> {
+  const testSeries = await prisma.testSeries.findMany({
+    // Personal custom tests have no ranking pool to learn from
+    where: { ...where, isPersonal: false, questions: { some: {} } },
+    select: { id: true },
+  });
+
+  const summary: QuestionAnalyticsSummary = { testSeries: 0, questions: 0, flagged: 0 };
+
+  for (const { id } of testSeries) {
+    const result = await recomputeTestSeriesQuestionAnalytics(id);
+    summary.testSeries++;
+    summary.questions += result.questions;
+    summary.flagged += result.flagged;
+  }
+
+  return summary;
+}
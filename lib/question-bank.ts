@@ -0,0 +1,424 @@
+/**
+ * Question Bank Utilities
+ *
+ * Converts between the question form payloads in lib/validations/exam.ts and
+ * Question rows, and builds question bank filters.
+ *
+ * Form and database type names differ for choice questions:
+ * - MULTIPLE_CHOICE (exactly one correct option) is stored as SINGLE_CHOICE
+ * - MULTIPLE_SELECT (several correct options) is stored as MULTIPLE_CHOICE
+ *
+ * Options are stored without their isCorrect flags (they are sent to students
+ * as-is); the answer key lives in correctAnswer in the format lib/scoring.ts reads.
+ *
+ * Every content change is also recorded as an immutable QuestionRevision, so
+ * answers keep pointing at the version they were graded against.
+ */
+
+import type { Prisma, Question, QuestionType } from '@prisma/client';
+import { toArray } from './scoring';
+import { questionSchema, type QuestionFormData, type UpdateQuestionFormData } from './validations/exam';
+import type { QuestionBankFilters } from '@/types/exam';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Shape of an entry in Question.options
+ */
+export interface StoredQuestionOption {
+  id: string;
+  text: string;
+  explanation?: string;
+}
+
+/**
+ * Question columns derived from a form payload
+ */
+export type QuestionContentData = Pick<
+  Prisma.QuestionUncheckedCreateInput,
+  | 'type'
+  | 'questionText'
+  | 'options'
+  | 'correctAnswer'
+  | 'explanation'
+  | 'difficulty'
+  | 'marks'
+  | 'negativeMarks'
+  | 'partialMarking'
+  | 'subject'
+  | 'topic'
+  | 'tags'
+  | 'language'
+  | 'image'
+>;
+
+type QuestionFormType = QuestionFormData['type'];
+
+const FORM_TO_DB_TYPE: Record<QuestionFormType, QuestionType> = {
+  MULTIPLE_CHOICE: 'SINGLE_CHOICE',
+  MULTIPLE_SELECT: 'MULTIPLE_CHOICE',
+  TRUE_FALSE: 'TRUE_FALSE',
+  NUMERICAL: 'NUMERICAL',
+  FILL_BLANKS: 'FILL_BLANKS',
+  DESCRIPTIVE: 'DESCRIPTIVE',
+};
+
+const DB_TO_FORM_TYPE: Record<QuestionType, QuestionFormType> = {
+  SINGLE_CHOICE: 'MULTIPLE_CHOICE',
+  MULTIPLE_CHOICE: 'MULTIPLE_SELECT',
+  TRUE_FALSE: 'TRUE_FALSE',
+  NUMERICAL: 'NUMERICAL',
+  FILL_BLANKS: 'FILL_BLANKS',
+  DESCRIPTIVE: 'DESCRIPTIVE',
+};
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * Database question type for a form question type
+ */
+export function toQuestionType(formType: QuestionFormType): QuestionType {
+  return FORM_TO_DB_TYPE[formType];
+}
+
+/**
+ * Option ids: a, b, c, ...
+ */
+const optionId = (index: number): string => String.fromCharCode(97 + index);
+
+/**
+ * Build the Question columns for a validated form payload
+ */
+export function toQuestionData(question: QuestionFormData): QuestionContentData {
+  const base = {
+    type: toQuestionType(question.type),
+    questionText: question.question,
+    explanation: question.explanation ?? null,
+    difficulty: question.difficulty,
+    marks: question.marks,
+    subject: question.subject,
+    topic: question.topic ?? null,
+    tags: question.tags ?? [],
+    language: question.language,
+    image: question.image ?? null,
+  };
+
+  switch (question.type) {
+    case 'MULTIPLE_CHOICE':
+    case 'MULTIPLE_SELECT': {
+      const options: StoredQuestionOption[] = question.options.map((option, index) => ({
+        id: optionId(index),
+        text: option.text,
+        ...(option.explanation && { explanation: option.explanation }),
+      }));
+      const correct = question.options
+        .map((option, index) => (option.isCorrect ? index : -1))
+        .filter(index => index >= 0);
+
+      return {
+        ...base,
+        options: options as unknown as Prisma.InputJsonValue,
+        correctAnswer: question.type === 'MULTIPLE_CHOICE' ? correct[0]! : correct,
+        negativeMarks: question.negativeMarks ?? 0,
+        partialMarking: question.type === 'MULTIPLE_SELECT' && question.partialMarking,
+      };
+    }
+    case 'TRUE_FALSE':
+      return {
+        ...base,
+        options: [],
+        correctAnswer: question.correctAnswer,
+        negativeMarks: question.negativeMarks ?? 0,
+        partialMarking: false,
+      };
+    case 'NUMERICAL':
+      return {
+        ...base,
+        options: [],
+        correctAnswer: {
+          value: question.correctAnswer,
+          tolerance: question.tolerance ?? 0,
+          ...(question.unit && { unit: question.unit }),
+        },
+        negativeMarks: question.negativeMarks ?? 0,
+        partialMarking: false,
+      };
+    case 'FILL_BLANKS':
+      return {
+        ...base,
+        options: [],
+        correctAnswer: question.blanks,
+        negativeMarks: question.negativeMarks ?? 0,
+        partialMarking: question.partialMarking,
+      };
+    case 'DESCRIPTIVE':
+      // The model answer is only a grading reference; marks are awarded manually
+      return {
+        ...base,
+        options: [],
+        correctAnswer: question.modelAnswer ?? '',
+        negativeMarks: 0,
+        partialMarking: false,
+      };
+  }
+}
+
+/**
+ * Read a stored question back into the form payload shape. The result is not
+ * validated; rows written before validation existed may not pass questionSchema.
+ */
+export function toQuestionFormData(question: Question): Record<string, unknown> {
+  const base = {
+    type: DB_TO_FORM_TYPE[question.type],
+    question: question.questionText,
+    marks: Number(question.marks),
+    negativeMarks: Number(question.negativeMarks),
+    difficulty: question.difficulty,
+    subject: question.subject ?? undefined,
+    topic: question.topic ?? undefined,
+    explanation: question.explanation ?? undefined,
+    image: question.image ?? undefined,
+    language: question.language,
+    tags: question.tags,
+  };
+  const key = question.correctAnswer;
+
+  switch (question.type) {
+    case 'SINGLE_CHOICE':
+    case 'MULTIPLE_CHOICE': {
+      const correct = new Set(toArray(key).map(String));
+      const options = (Array.isArray(question.options) ? question.options : []) as unknown as StoredQuestionOption[];
+
+      return {
+        ...base,
+        options: options.map((option, index) => ({
+          text: option.text,
+          isCorrect: correct.has(String(index)) || correct.has(option.id),
+          ...(option.explanation && { explanation: option.explanation }),
+        })),
+        ...(question.type === 'MULTIPLE_CHOICE' && { partialMarking: question.partialMarking }),
+      };
+    }
+    case 'TRUE_FALSE':
+      return { ...base, correctAnswer: key === true || String(key).toLowerCase() === 'true' };
+    case 'NUMERICAL': {
+      if (key && typeof key === 'object' && !Array.isArray(key) && 'value' in key) {
+        return {
+          ...base,
+          correctAnswer: Number(key['value']),
+          tolerance: Number(key['tolerance'] ?? 0),
+          ...(typeof key['unit'] === 'string' && { unit: key['unit'] }),
+        };
+      }
+      return { ...base, correctAnswer: Number(toArray(key)[0]) };
+    }
+    case 'FILL_BLANKS': {
+      const accepted = toArray(key);
+      return {
+        ...base,
+        blanks: accepted.some(Array.isArray) ? accepted.map(toArray) : [accepted],
+        partialMarking: question.partialMarking,
+      };
+    }
+    case 'DESCRIPTIVE':
+      return { ...base, modelAnswer: typeof key === 'string' && key ? key : undefined };
+  }
+}
+
+/**
+ * Apply a partial update over a stored question and validate the result as a
+ * whole; changing the type starts from the new type's fields only
+ */
+export function mergeQuestionUpdate(existing: Question, updates: UpdateQuestionFormData) {
+  const current = toQuestionType(updates.type) === existing.type ? toQuestionFormData(existing) : {};
+
+  return questionSchema.safeParse({
+    ...current,
+    ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+  });
+}
+
+// =============================================================================
+// FILTERS
+// =============================================================================
+
+/**
+ * Build the question filter for a question bank listing. onlyMyQuestions is
+ * resolved by the caller into createdBy.
+ */
+export function buildQuestionBankWhere(filters: QuestionBankFilters): Prisma.QuestionWhereInput {
+  const where: Prisma.QuestionWhereInput = {};
+
+  if (!filters.includeInactive) {
+    where.isActive = true;
+  }
+
+  if (filters.query) {
+    where.OR = [
+      { title: { contains: filters.query, mode: 'insensitive' } },
+      { questionText: { contains: filters.query, mode: 'insensitive' } },
+    ];
+  }
+
+  if (filters.type) where.type = filters.type;
+  if (filters.difficulty) where.difficulty = filters.difficulty;
+  if (filters.language) where.language = filters.language;
+  if (filters.subject) where.subject = { equals: filters.subject, mode: 'insensitive' };
+  if (filters.topic) where.topic = { equals: filters.topic, mode: 'insensitive' };
+  if (filters.tags && filters.tags.length > 0) where.tags = { hasSome: filters.tags };
+  if (filters.createdBy) where.creatorId = filters.createdBy;
+  if (filters.testSeriesId) where.testSeriesId = filters.testSeriesId;
+  if (filters.isVerified !== undefined) where.isVerified = filters.isVerified;
+
+  // Copies in students' custom tests are not part of the bank
+  where.testSeries = {
+    isPersonal: false,
+    ...(filters.examId && { examId: filters.examId }),
+    ...(filters.onlyPublished && { isPublished: true }),
+  };
+
+  return where;
+}
+
+// =============================================================================
+// REVISIONS
+// =============================================================================
+
+// Question columns captured in each revision
+const REVISION_FIELDS = [
+  'title',
+  'questionText',
+  'options',
+  'correctAnswer',
+  'explanation',
+  'type',
+  'difficulty',
+  'marks',
+  'negativeMarks',
+  'partialMarking',
+  'subject',
+  'topic',
+  'subtopic',
+  'tags',
+  'language',
+  'image',
+  'audio',
+  'video',
+] as const satisfies readonly (keyof Question)[];
+
+// Revisioned columns that decide how an answer is graded
+const GRADED_FIELDS = [
+  'questionText',
+  'options',
+  'correctAnswer',
+  'type',
+  'marks',
+  'negativeMarks',
+  'partialMarking',
+] as const satisfies readonly (typeof REVISION_FIELDS)[number][];
+
+export type GradedContent = Pick<Question, (typeof GRADED_FIELDS)[number]>;
+
+/**
+ * Build the revision row holding a question's current content
+ */
+export function toRevisionData(question: Question, createdBy: string): Prisma.QuestionRevisionCreateManyInput {
+  return {
+    questionId: question.id,
+    version: question.version,
+    title: question.title,
+    questionText: question.questionText,
+    options: question.options as Prisma.InputJsonValue,
+    correctAnswer: question.correctAnswer as Prisma.InputJsonValue,
+    explanation: question.explanation,
+    type: question.type,
+    difficulty: question.difficulty,
+    marks: question.marks,
+    negativeMarks: question.negativeMarks,
+    partialMarking: question.partialMarking,
+    subject: question.subject,
+    topic: question.topic,
+    subtopic: question.subtopic,
+    tags: question.tags,
+    language: question.language,
+    image: question.image,
+    audio: question.audio,
+    video: question.video,
+    createdBy,
+  };
+}
+
+/**
+ * Check whether two states of a question differ in revisioned content
+ */
+export function hasRevisionChanges(before: Question, after: Question): boolean {
+  return REVISION_FIELDS.some(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+/**
+ * Check whether two revisions of a question differ in what answers are graded
+ * against. Retagging, explanations and metadata leave answers comparable.
+ */
+export function hasGradedChanges(before: GradedContent, after: GradedContent): boolean {
+  return GRADED_FIELDS.some(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+/**
+ * Record an edit as a new revision. Unreviewed earlier edits are superseded
+ * and the question goes back into the review queue, even if it was verified.
+ * Returns the question unchanged when the edit touched no revisioned content.
+ */
+export async function reviseQuestion(
+  tx: Prisma.TransactionClient,
+  before: Question,
+  after: Question,
+  editorId: string
+): Promise<Question> {
+  if (!hasRevisionChanges(before, after)) {
+    return after;
+  }
+
+  await tx.questionRevision.updateMany({
+    where: { questionId: after.id, status: 'PENDING' },
+    data: { status: 'SUPERSEDED' },
+  });
+
+  const revised = await tx.question.update({
+    where: { id: after.id },
+    data: {
+      version: before.version + 1,
+      isVerified: false,
+      verifiedAt: null,
+      verifiedBy: null,
+      // Retagging settles a difficulty flag until analytics next run
+      ...(before.difficulty !== after.difficulty && { suggestedDifficulty: null }),
+    },
+  });
+
+  await tx.questionRevision.create({
+    data: toRevisionData(revised, editorId),
+  });
+
+  return revised;
+}
+
+/**
+ * Keep TestSeries.totalQuestions in line with its active questions
+ */
+export async function syncTestSeriesQuestionCount(
+  tx: Prisma.TransactionClient,
+  testSeriesId: string
+): Promise<void> {
+  const totalQuestions = await tx.question.count({
+    where: { testSeriesId, isActive: true },
+  });
+
+  await tx.testSeries.update({
+    where: { id: testSeriesId },
+    data: { totalQuestions },
+  });
+}
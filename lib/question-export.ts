@@ -0,0 +1,575 @@
+/**
+ * Question Export
+ *
+ * Exports Question rows as an IMS QTI 2.1 content package (zip) or as
+ * printable PDF question papers with a separate answer key. Question images
+ * stored through lib/upload.ts are downloaded and packaged/embedded; other
+ * image URLs are linked in QTI items and left out of PDFs.
+ *
+ * Marks shown and scored follow the test series' marking scheme when one is
+ * given (see lib/scoring.ts), otherwise each question's own negativeMarks.
+ */
+
+import type { Language, Question } from '@prisma/client';
+import { PdfDocument } from './pdf';
+import { createZip, type ZipEntry } from './zip';
+import { downloadFileFromS3, getFileExtension, getFileKeyFromUrl } from './upload';
+import { getPenalty, type MarkingScheme } from './scoring';
+import { toQuestionFormData } from './question-bank';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface QuestionExportOptions {
+  title: string;
+  language: Language;
+  scheme?: MarkingScheme | null; // test series marking scheme
+  duration?: number | null; // in minutes
+  instructions?: string | null;
+}
+
+interface ExportOption {
+  text: string;
+  isCorrect: boolean;
+}
+
+/**
+ * Question in form shape (see toQuestionFormData) with its export details
+ */
+interface ExportItem {
+  id: string;
+  identifier: string;
+  number: number;
+  marks: number;
+  penalty: number;
+  form: Record<string, unknown>;
+  image: { url: string; fileName: string | null; data: Buffer | null } | null;
+}
+
+interface PaperLabels {
+  question: string;
+  totalQuestions: string;
+  totalMarks: string;
+  duration: string;
+  minutes: string;
+  instructions: string;
+  markingNote: string;
+  answer: string;
+  answerKey: string;
+  explanation: string;
+  trueLabel: string;
+  falseLabel: string;
+  manuallyGraded: string;
+}
+
+// Values are plain strings; Devanagari is rasterized by lib/pdf.ts
+const ENGLISH_LABELS: PaperLabels = {
+  question: 'Q',
+  totalQuestions: 'Total questions',
+  totalMarks: 'Total marks',
+  duration: 'Duration',
+  minutes: 'minutes',
+  instructions: 'Instructions',
+  markingNote: 'Marks for each question are shown in brackets as (+correct, -wrong). Unanswered questions score zero.',
+  answer: 'Answer',
+  answerKey: 'Answer Key',
+  explanation: 'Explanation',
+  trueLabel: 'True',
+  falseLabel: 'False',
+  manuallyGraded: 'Evaluated manually',
+};
+
+const PAPER_LABELS: Partial<Record<Language, PaperLabels>> = {
+  ENGLISH: ENGLISH_LABELS,
+  HINDI: {
+    question: 'प्रश्न ',
+    totalQuestions: 'कुल प्रश्न',
+    totalMarks: 'पूर्णांक',
+    duration: 'समय',
+    minutes: 'मिनट',
+    instructions: 'निर्देश',
+    markingNote: 'प्रत्येक प्रश्न के अंक कोष्ठक में (+सही, -गलत) दिए गए हैं। अनुत्तरित प्रश्नों के लिए शून्य अंक।',
+    answer: 'उत्तर',
+    answerKey: 'उत्तर कुंजी',
+    explanation: 'व्याख्या',
+    trueLabel: 'सत्य',
+    falseLabel: 'असत्य',
+    manuallyGraded: 'मूल्यांकन परीक्षक द्वारा',
+  },
+};
+
+// xml:lang codes for Language values
+const LANGUAGE_CODES: Record<Language, string> = {
+  ENGLISH: 'en',
+  HINDI: 'hi',
+  TAMIL: 'ta',
+  TELUGU: 'te',
+  BENGALI: 'bn',
+  GUJARATI: 'gu',
+  MARATHI: 'mr',
+  KANNADA: 'kn',
+};
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA_LOCATION = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+
+// Three or more underscores mark a blank in question text
+const BLANK_PATTERN = /_{3,}/;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const roundTwo = (value: number): number => Math.round(value * 100) / 100;
+
+const choiceLetter = (index: number): string => String.fromCharCode(65 + index);
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Escape text and keep its line breaks
+ */
+const xmlText = (value: string): string => escapeXml(value).replace(/\r?\n/g, '<br/>');
+
+const getLabels = (language: Language): PaperLabels => PAPER_LABELS[language] ?? ENGLISH_LABELS;
+
+const formOptions = (item: ExportItem): ExportOption[] =>
+  (item.form['options'] as ExportOption[] | undefined) ?? [];
+
+const formString = (item: ExportItem, key: string): string =>
+  typeof item.form[key] === 'string' ? (item.form[key] as string) : '';
+
+/**
+ * Download a question image stored through lib/upload.ts
+ */
+async function resolveImage(question: Question): Promise<ExportItem['image']> {
+  if (!question.image) {
+    return null;
+  }
+
+  const key = getFileKeyFromUrl(question.image);
+  if (!key) {
+    return { url: question.image, fileName: null, data: null };
+  }
+
+  try {
+    const data = await downloadFileFromS3(key);
+    const extension = getFileExtension(key) || 'jpg';
+    return { url: question.image, fileName: `images/${question.id}.${extension}`, data };
+  } catch (error) {
+    console.error(`Question export: could not load image for ${question.id}:`, error);
+    return { url: question.image, fileName: null, data: null };
+  }
+}
+
+/**
+ * Prepare questions for export, in the given order
+ */
+async function toExportItems(questions: Question[], scheme: MarkingScheme | null | undefined): Promise<ExportItem[]> {
+  const items: ExportItem[] = [];
+
+  // Sequential to limit concurrent S3 downloads
+  for (const [index, question] of questions.entries()) {
+    items.push({
+      id: question.id,
+      identifier: `item_${question.id}`,
+      number: index + 1,
+      marks: Number(question.marks),
+      penalty: question.type === 'DESCRIPTIVE'
+        ? 0
+        : scheme ? getPenalty(question, scheme) : Number(question.negativeMarks),
+      form: toQuestionFormData(question),
+      image: await resolveImage(question),
+    });
+  }
+
+  return items;
+}
+
+// =============================================================================
+// QTI 2.1
+// =============================================================================
+
+const setScore = (expression: string): string =>
+  `<setOutcomeValue identifier="SCORE">${expression}</setOutcomeValue>`;
+
+const floatValue = (value: number): string => `<baseValue baseType="float">${value}</baseValue>`;
+
+/**
+ * Response processing: nothing answered scores 0, a correct answer full marks,
+ * an optional partial-credit rule, anything else the penalty
+ */
+function scoringRules(item: ExportItem, isNull: string, isCorrect: string, partial?: { condition: string; score: string }): string {
+  return [
+    '<responseCondition>',
+    `<responseIf>${isNull}${setScore(floatValue(0))}</responseIf>`,
+    `<responseElseIf>${isCorrect}${setScore(floatValue(item.marks))}</responseElseIf>`,
+    ...(partial ? [`<responseElseIf>${partial.condition}${setScore(partial.score)}</responseElseIf>`] : []),
+    `<responseElse>${setScore(floatValue(-item.penalty))}</responseElse>`,
+    '</responseCondition>',
+  ].join('');
+}
+
+const responseIsNull = (identifier = 'RESPONSE') => `<isNull><variable identifier="${identifier}"/></isNull>`;
+const responseMatches = '<match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>';
+
+/**
+ * Response declarations, interaction markup and response processing for an item
+ */
+function buildQtiInteraction(item: ExportItem, labels: PaperLabels): { declarations: string; body: string; processing: string } {
+  const type = item.form['type'];
+  const question = formString(item, 'question');
+
+  switch (type) {
+    case 'MULTIPLE_CHOICE':
+    case 'MULTIPLE_SELECT':
+    case 'TRUE_FALSE': {
+      const options: ExportOption[] = type === 'TRUE_FALSE'
+        ? [
+          { text: labels.trueLabel, isCorrect: item.form['correctAnswer'] === true },
+          { text: labels.falseLabel, isCorrect: item.form['correctAnswer'] !== true },
+        ]
+        : formOptions(item);
+      const isMultiple = type === 'MULTIPLE_SELECT';
+      const correct = options
+        .map((option, index) => (option.isCorrect ? `<value>${choiceLetter(index)}</value>` : ''))
+        .join('');
+
+      const partial = isMultiple && item.form['partialMarking']
+        ? {
+          // Only correct choices selected: proportional credit
+          condition: '<contains><correct identifier="RESPONSE"/><variable identifier="RESPONSE"/></contains>',
+          score: `<product>${floatValue(roundTwo(item.marks / Math.max(1, options.filter(o => o.isCorrect).length)))}` +
+            '<containerSize><variable identifier="RESPONSE"/></containerSize></product>',
+        }
+        : undefined;
+
+      return {
+        declarations: `<responseDeclaration identifier="RESPONSE" cardinality="${isMultiple ? 'multiple' : 'single'}" baseType="identifier">` +
+          `<correctResponse>${correct}</correctResponse></responseDeclaration>`,
+        body: `<div>${xmlText(question)}</div>` +
+          `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${isMultiple ? 0 : 1}">` +
+          options.map((option, index) => `<simpleChoice identifier="${choiceLetter(index)}">${xmlText(option.text)}</simpleChoice>`).join('') +
+          '</choiceInteraction>',
+        processing: scoringRules(item, responseIsNull(), responseMatches, partial),
+      };
+    }
+    case 'NUMERICAL': {
+      const tolerance = Number(item.form['tolerance'] ?? 0);
+      const unit = formString(item, 'unit');
+      const comparison = tolerance > 0
+        ? `<equal toleranceMode="absolute" tolerance="${tolerance}">`
+        : '<equal toleranceMode="exact">';
+
+      return {
+        declarations: '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">' +
+          `<correctResponse><value>${Number(item.form['correctAnswer'])}</value></correctResponse></responseDeclaration>`,
+        body: `<div>${xmlText(question)}</div>` +
+          `<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="12"/>${unit ? ` ${escapeXml(unit)}` : ''}</p>`,
+        processing: scoringRules(
+          item,
+          responseIsNull(),
+          `${comparison}<variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal>`
+        ),
+      };
+    }
+    case 'FILL_BLANKS': {
+      const blanks = (item.form['blanks'] as string[][] | undefined) ?? [];
+      const ids = blanks.map((_, index) => `RESPONSE_${index + 1}`);
+      const entry = (id: string) => `<textEntryInteraction responseIdentifier="${id}" expectedLength="15"/>`;
+
+      // Put interactions where the text has blanks; extra blanks go after the text
+      const pieces = question.split(BLANK_PATTERN);
+      let body = pieces.map((piece, index) => xmlText(piece) + (index < pieces.length - 1 && ids[index] ? entry(ids[index]!) : '')).join('');
+      const remaining = ids.slice(pieces.length - 1);
+      body = `<p>${body}</p>${remaining.length > 0 ? `<p>${remaining.map(entry).join(' ')}</p>` : ''}`;
+
+      const matched = (id: string) => `<gte><mapResponse identifier="${id}"/>${floatValue(1)}</gte>`;
+      const partial = item.form['partialMarking']
+        ? {
+          condition: `<or>${ids.map(matched).join('')}</or>`,
+          score: `<product>${floatValue(roundTwo(item.marks / Math.max(1, ids.length)))}` +
+            `<sum>${ids.map(id => `<mapResponse identifier="${id}"/>`).join('')}</sum></product>`,
+        }
+        : undefined;
+
+      return {
+        declarations: blanks.map((alternatives, index) =>
+          `<responseDeclaration identifier="${ids[index]}" cardinality="single" baseType="string">` +
+          `<correctResponse><value>${escapeXml(alternatives[0] ?? '')}</value></correctResponse>` +
+          '<mapping defaultValue="0" upperBound="1">' +
+          alternatives.map(alt => `<mapEntry mapKey="${escapeXml(alt)}" mappedValue="1" caseSensitive="false"/>`).join('') +
+          '</mapping></responseDeclaration>'
+        ).join(''),
+        body,
+        processing: scoringRules(
+          item,
+          `<and>${ids.map(id => responseIsNull(id)).join('')}</and>`,
+          `<and>${ids.map(matched).join('')}</and>`,
+          partial
+        ),
+      };
+    }
+    default: {
+      // DESCRIPTIVE: scored outside the package; the model answer is shown to scorers
+      const modelAnswer = formString(item, 'modelAnswer');
+      return {
+        declarations: '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>',
+        body: `<div>${xmlText(question)}</div>` +
+          '<extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="15"/>' +
+          (modelAnswer ? `<rubricBlock view="scorer"><p>${xmlText(modelAnswer)}</p></rubricBlock>` : ''),
+        processing: '',
+      };
+    }
+  }
+}
+
+function buildQtiItem(item: ExportItem, language: Language): string {
+  const { declarations, body, processing } = buildQtiInteraction(item, getLabels(language));
+  const explanation = formString(item, 'explanation');
+  const imageSrc = item.image ? item.image.fileName ? `../${item.image.fileName}` : item.image.url : null;
+
+  const responseProcessing = processing || explanation
+    ? '<responseProcessing>' + processing +
+      (explanation ? '<setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>' : '') +
+      '</responseProcessing>'
+    : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ` +
+      `xsi:schemaLocation="${QTI_SCHEMA_LOCATION}" identifier="${item.identifier}" ` +
+      `title="${escapeXml(`Question ${item.number}`)}" adaptive="false" timeDependent="false" xml:lang="${LANGUAGE_CODES[language]}">`,
+    declarations,
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>',
+    `<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${item.marks}</value></defaultValue></outcomeDeclaration>`,
+    ...(explanation ? ['<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>'] : []),
+    '<itemBody>',
+    body,
+    ...(imageSrc ? [`<p><img src="${escapeXml(imageSrc)}" alt="${escapeXml(`Question ${item.number} figure`)}"/></p>`] : []),
+    '</itemBody>',
+    responseProcessing,
+    ...(explanation
+      ? [`<modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${xmlText(explanation)}</modalFeedback>`]
+      : []),
+    '</assessmentItem>',
+  ].join('\n');
+}
+
+function buildQtiTest(items: ExportItem[], options: QuestionExportOptions): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ` +
+      `xsi:schemaLocation="${QTI_SCHEMA_LOCATION}" identifier="test" title="${escapeXml(options.title)}">`,
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+    ...(options.duration ? [`<timeLimits maxTime="${options.duration * 60}"/>`] : []),
+    '<testPart identifier="part1" navigationMode="nonlinear" submissionMode="simultaneous">',
+    `<assessmentSection identifier="section1" title="${escapeXml(options.title)}" visible="true">`,
+    ...(options.instructions ? [`<rubricBlock view="candidate"><p>${xmlText(options.instructions)}</p></rubricBlock>`] : []),
+    ...items.map(item => `<assessmentItemRef identifier="${item.identifier}" href="items/${item.identifier}.xml"/>`),
+    '</assessmentSection>',
+    '</testPart>',
+    '<outcomeProcessing><setOutcomeValue identifier="SCORE"><sum><testVariables variableIdentifier="SCORE"/></sum></setOutcomeValue></outcomeProcessing>',
+    '</assessmentTest>',
+  ].join('\n');
+}
+
+function buildQtiManifest(items: ExportItem[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+      'xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd" ' +
+      `identifier="manifest_${Date.now()}">`,
+    '<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+    '<organizations/>',
+    '<resources>',
+    '<resource identifier="test" type="imsqti_test_xmlv2p1" href="assessment.xml">',
+    '<file href="assessment.xml"/>',
+    ...items.map(item => `<dependency identifierref="${item.identifier}"/>`),
+    '</resource>',
+    ...items.map(item => [
+      `<resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="items/${item.identifier}.xml">`,
+      `<file href="items/${item.identifier}.xml"/>`,
+      ...(item.image?.fileName ? [`<file href="${item.image.fileName}"/>`] : []),
+      '</resource>',
+    ].join('\n')),
+    '</resources>',
+    '</manifest>',
+  ].join('\n');
+}
+
+// =============================================================================
+// PDF
+// =============================================================================
+
+const formatMarks = (value: number): string => String(roundTwo(value));
+
+/**
+ * Answer text for the answer key
+ */
+function formatAnswer(item: ExportItem, labels: PaperLabels): string {
+  switch (item.form['type']) {
+    case 'MULTIPLE_CHOICE':
+    case 'MULTIPLE_SELECT':
+      return formOptions(item)
+        .map((option, index) => (option.isCorrect ? `(${choiceLetter(index)})` : null))
+        .filter(Boolean)
+        .join(', ');
+    case 'TRUE_FALSE':
+      return item.form['correctAnswer'] === true ? labels.trueLabel : labels.falseLabel;
+    case 'NUMERICAL': {
+      const tolerance = Number(item.form['tolerance'] ?? 0);
+      const unit = formString(item, 'unit');
+      return `${item.form['correctAnswer']}${tolerance > 0 ? ` (± ${tolerance})` : ''}${unit ? ` ${unit}` : ''}`;
+    }
+    case 'FILL_BLANKS':
+      return ((item.form['blanks'] as string[][] | undefined) ?? [])
+        .map((alternatives, index) => `${index + 1}. ${alternatives.join(' / ')}`)
+        .join('   ');
+    default:
+      return formString(item, 'modelAnswer') || labels.manuallyGraded;
+  }
+}
+
+async function addPaperHeader(pdf: PdfDocument, items: ExportItem[], options: QuestionExportOptions, heading: string): Promise<void> {
+  const labels = getLabels(options.language);
+  const totalMarks = items.reduce((sum, item) => sum + item.marks, 0);
+
+  await pdf.text(heading, { size: 16, bold: true, align: 'center', spaceAfter: 4 });
+  await pdf.text(
+    [
+      `${labels.totalQuestions}: ${items.length}`,
+      `${labels.totalMarks}: ${formatMarks(totalMarks)}`,
+      ...(options.duration ? [`${labels.duration}: ${options.duration} ${labels.minutes}`] : []),
+    ].join('   |   '),
+    { size: 10, align: 'center', spaceAfter: 6 }
+  );
+  pdf.rule();
+}
+
+/**
+ * Build the printable question paper
+ */
+async function buildPaperPdf(items: ExportItem[], options: QuestionExportOptions): Promise<Buffer> {
+  const labels = getLabels(options.language);
+  const pdf = new PdfDocument({ title: options.title, footer: options.title });
+
+  await addPaperHeader(pdf, items, options, options.title);
+
+  await pdf.text(labels.instructions, { bold: true, spaceAfter: 2 });
+  if (options.instructions) {
+    await pdf.text(options.instructions, { size: 10, spaceAfter: 2 });
+  }
+  await pdf.text(labels.markingNote, { size: 10, spaceAfter: 4 });
+  pdf.rule();
+  pdf.space(6);
+
+  for (const item of items) {
+    const markText = item.penalty > 0
+      ? `(+${formatMarks(item.marks)}, -${formatMarks(item.penalty)})`
+      : `(+${formatMarks(item.marks)})`;
+
+    await pdf.text(`${labels.question}${item.number}.  ${markText}`, { bold: true, spaceAfter: 2 });
+    await pdf.text(formString(item, 'question'), { indent: 18, spaceAfter: 4 });
+
+    if (item.image?.data) {
+      await pdf.image(item.image.data, { maxWidth: 300, indent: 18 });
+    }
+
+    switch (item.form['type']) {
+      case 'MULTIPLE_CHOICE':
+      case 'MULTIPLE_SELECT':
+        for (const [index, option] of formOptions(item).entries()) {
+          await pdf.text(`(${choiceLetter(index)})  ${option.text}`, { indent: 30 });
+        }
+        break;
+      case 'TRUE_FALSE':
+        await pdf.text(`(A)  ${labels.trueLabel}        (B)  ${labels.falseLabel}`, { indent: 30 });
+        break;
+      case 'NUMERICAL': {
+        const unit = formString(item, 'unit');
+        await pdf.text(`${labels.answer}: ____________________${unit ? ` ${unit}` : ''}`, { indent: 30 });
+        break;
+      }
+      case 'FILL_BLANKS':
+        if (!BLANK_PATTERN.test(formString(item, 'question'))) {
+          await pdf.text(`${labels.answer}: ____________________`, { indent: 30 });
+        }
+        break;
+      default:
+        // Room for a written answer
+        pdf.space(120);
+    }
+
+    pdf.space(12);
+  }
+
+  return pdf.toBuffer();
+}
+
+/**
+ * Build the answer key, kept separate from the paper for printing
+ */
+async function buildAnswerKeyPdf(items: ExportItem[], options: QuestionExportOptions): Promise<Buffer> {
+  const labels = getLabels(options.language);
+  const heading = `${options.title} - ${labels.answerKey}`;
+  const pdf = new PdfDocument({ title: heading, footer: heading });
+
+  await addPaperHeader(pdf, items, options, heading);
+  pdf.space(6);
+
+  for (const item of items) {
+    await pdf.text(`${labels.question}${item.number}.  ${formatAnswer(item, labels)}`, { bold: true, spaceAfter: 2 });
+
+    const explanation = formString(item, 'explanation');
+    if (explanation) {
+      await pdf.text(`${labels.explanation}: ${explanation}`, { size: 9, indent: 18 });
+    }
+
+    pdf.space(8);
+  }
+
+  return pdf.toBuffer();
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Export questions as an IMS QTI 2.1 content package
+ */
+export async function exportQuestionsToQti(questions: Question[], options: QuestionExportOptions): Promise<Buffer> {
+  const items = await toExportItems(questions, options.scheme);
+
+  const entries: ZipEntry[] = [
+    { path: 'imsmanifest.xml', data: buildQtiManifest(items) },
+    { path: 'assessment.xml', data: buildQtiTest(items, options) },
+    ...items.map(item => ({ path: `items/${item.identifier}.xml`, data: buildQtiItem(item, options.language) })),
+    ...items.flatMap(item => (item.image?.fileName && item.image.data
+      ? [{ path: item.image.fileName, data: item.image.data }]
+      : [])),
+  ];
+
+  return createZip(entries);
+}
+
+/**
+ * Export questions as a printable PDF question paper or answer key
+ */
+export async function exportQuestionsToPdf(
+  questions: Question[],
+  options: QuestionExportOptions,
+  document: 'paper' | 'answer_key'
+): Promise<Buffer> {
+  const items = await toExportItems(questions, options.scheme);
+
+  return document === 'paper'
+    ? buildPaperPdf(items, options)
+    : buildAnswerKeyPdf(items, options);
+}
@@ -0,0 +1,585 @@
+/**
+ * Question Import
+ *
+ * Parses question files into question form payloads, validates each entry
+ * with questionSchema and reports errors per row. Supported formats:
+ *
+ * - CSV: one question per row with a header row. Columns (case-insensitive):
+ *   type, question, option_a .. option_h, answer, tolerance, unit, marks,
+ *   negative_marks, partial_marking, difficulty, subject, topic, explanation,
+ *   language, tags, image. The answer column holds option letters ("B" or
+ *   "A,C"), true/false, a number, the model answer (DESCRIPTIVE) or accepted
+ *   answers for FILL_BLANKS ("|" between alternatives, ";" between blanks).
+ *   Tags are separated by "|". Without a type, rows with options are treated
+ *   as MULTIPLE_CHOICE, or MULTIPLE_SELECT when several letters are given.
+ * - Aiken: single-answer multiple choice blocks ending in "ANSWER: <letter>".
+ * - GIFT (Moodle): multiple choice, multiple answer (positive % weights),
+ *   true/false, short answer (as FILL_BLANKS), numerical and essay questions.
+ *   $CATEGORY paths set subject/topic; "####" general feedback becomes the
+ *   explanation. Matching questions are not supported.
+ *
+ * Values missing from a file (subject, marks, ...) are filled from the import
+ * defaults before validation.
+ */
+
+import { questionSchema, type QuestionFormData, type ImportQuestionsFormData } from './validations/exam';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type QuestionImportFormat = 'CSV' | 'AIKEN' | 'GIFT';
+
+export type QuestionImportDefaults = NonNullable<ImportQuestionsFormData['defaults']>;
+
+/**
+ * A question candidate read from a file, before validation
+ */
+interface ParsedEntry {
+  row: number; // CSV row or first line of the block, 1-based
+  input: Record<string, unknown>;
+  errors: string[];
+}
+
+export interface ImportRowResult {
+  row: number;
+  status: 'valid' | 'invalid';
+  type?: string;
+  question?: string; // preview
+  errors: string[];
+}
+
+export interface QuestionImportResult {
+  format: QuestionImportFormat;
+  rows: ImportRowResult[];
+  questions: QuestionFormData[]; // valid questions, in file order
+}
+
+// Upper bound on questions per import file
+export const MAX_IMPORT_QUESTIONS = 1000;
+
+const OPTION_LETTERS = 'abcdefgh';
+const PREVIEW_LENGTH = 120;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const letterIndex = (letter: string): number => OPTION_LETTERS.indexOf(letter.trim().toLowerCase());
+
+const splitList = (value: string, separator: string): string[] =>
+  value.split(separator).map(item => item.trim()).filter(Boolean);
+
+/**
+ * Infer the import format from a file name
+ */
+export function detectImportFormat(fileName: string): QuestionImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'csv':
+      return 'CSV';
+    case 'gift':
+      return 'GIFT';
+    case 'aiken':
+      return 'AIKEN';
+    default:
+      return null;
+  }
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+/**
+ * Split CSV text into records (RFC 4180 quoting), keeping each record's line number
+ */
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRecord();
+
+  return records;
+}
+
+/**
+ * Build a question payload from a CSV row keyed by lower-cased header
+ */
+function csvRowToEntry(row: number, values: Record<string, string>): ParsedEntry {
+  const errors: string[] = [];
+  const value = (key: string): string | undefined => values[key]?.trim() || undefined;
+
+  const options = Array.from(OPTION_LETTERS)
+    .map(letter => value(`option_${letter}`))
+    .filter((option): option is string => option !== undefined);
+  const answer = value('answer') ?? '';
+  const answerLetters = splitList(answer, ',');
+
+  let type = value('type')?.toUpperCase().replace(/[\s-]+/g, '_');
+  if (type === 'SINGLE_CHOICE') type = 'MULTIPLE_CHOICE';
+  if (!type && options.length > 0) {
+    type = answerLetters.length > 1 ? 'MULTIPLE_SELECT' : 'MULTIPLE_CHOICE';
+  }
+
+  const input: Record<string, unknown> = {
+    type,
+    question: value('question'),
+    marks: value('marks') !== undefined ? Number(value('marks')) : undefined,
+    negativeMarks: value('negative_marks') !== undefined ? Number(value('negative_marks')) : undefined,
+    difficulty: value('difficulty')?.toUpperCase(),
+    subject: value('subject'),
+    topic: value('topic'),
+    explanation: value('explanation'),
+    language: value('language')?.toUpperCase(),
+    tags: value('tags') !== undefined ? splitList(value('tags')!, '|') : undefined,
+    image: value('image'),
+  };
+
+  if (value('partial_marking') !== undefined) {
+    input['partialMarking'] = ['true', 'yes', '1'].includes(value('partial_marking')!.toLowerCase());
+  }
+
+  switch (type) {
+    case 'MULTIPLE_CHOICE':
+    case 'MULTIPLE_SELECT': {
+      const correct = new Set(answerLetters.map(letterIndex));
+      if (correct.has(-1)) {
+        errors.push(`answer: "${answer}" is not a valid option letter`);
+      }
+      input['options'] = options.map((text, index) => ({ text, isCorrect: correct.has(index) }));
+      break;
+    }
+    case 'TRUE_FALSE':
+      if (!['true', 'false'].includes(answer.toLowerCase())) {
+        errors.push('answer: must be true or false');
+      }
+      input['correctAnswer'] = answer.toLowerCase() === 'true';
+      break;
+    case 'NUMERICAL':
+      input['correctAnswer'] = answer === '' ? undefined : Number(answer);
+      input['tolerance'] = value('tolerance') !== undefined ? Number(value('tolerance')) : undefined;
+      input['unit'] = value('unit');
+      break;
+    case 'FILL_BLANKS':
+      input['blanks'] = splitList(answer, ';').map(blank => splitList(blank, '|'));
+      break;
+    case 'DESCRIPTIVE':
+      input['modelAnswer'] = answer || undefined;
+      break;
+  }
+
+  return { row, input, errors };
+}
+
+function parseCsvQuestions(text: string): ParsedEntry[] {
+  const [header, ...records] = parseCsv(text);
+
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.cells.map(cell => cell.trim().toLowerCase().replace(/\s+/g, '_'));
+  if (!columns.includes('question')) {
+    return [{ row: header.line, input: {}, errors: ['Header row must include a "question" column'] }];
+  }
+
+  return records.map(record => csvRowToEntry(
+    record.line,
+    Object.fromEntries(columns.map((column, index) => [column, record.cells[index] ?? '']))
+  ));
+}
+
+// =============================================================================
+// AIKEN
+// =============================================================================
+
+const AIKEN_OPTION = /^([A-Za-z])[.)]\s+(.*)$/;
+const AIKEN_ANSWER = /^ANSWER:\s*([A-Za-z])\s*$/i;
+
+function parseAikenQuestions(text: string): ParsedEntry[] {
+  const entries: ParsedEntry[] = [];
+  let block: { line: number; question: string[]; options: string[] } | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (!block) {
+      block = { line: index + 1, question: [], options: [] };
+    }
+
+    const answer = line.match(AIKEN_ANSWER);
+    if (answer) {
+      const correct = letterIndex(answer[1]!);
+      entries.push({
+        row: block.line,
+        input: {
+          type: 'MULTIPLE_CHOICE',
+          question: block.question.join('\n'),
+          options: block.options.map((optionText, optionIndex) => ({
+            text: optionText,
+            isCorrect: optionIndex === correct,
+          })),
+        },
+        errors: correct >= block.options.length ? [`ANSWER: option ${answer[1]} does not exist`] : [],
+      });
+      block = null;
+      return;
+    }
+
+    const option = line.match(AIKEN_OPTION);
+    if (option && block.question.length > 0) {
+      block.options.push(option[2]!);
+    } else if (block.options.length === 0) {
+      block.question.push(line);
+    } else {
+      block.options[block.options.length - 1] += ` ${line}`;
+    }
+  });
+
+  const unfinished = block as { line: number } | null;
+  if (unfinished) {
+    entries.push({ row: unfinished.line, input: {}, errors: ['Question is missing an "ANSWER:" line'] });
+  }
+
+  return entries;
+}
+
+// =============================================================================
+// GIFT
+// =============================================================================
+
+/**
+ * Remove GIFT escapes (\~ \= \# \{ \} \:) and collapse whitespace
+ */
+const unescapeGift = (value: string): string =>
+  value.replace(/\\([~=#{}:])/g, '$1').replace(/\\n/g, '\n').replace(/[ \t]+/g, ' ').trim();
+
+/**
+ * Split on a separator character that is not escaped
+ */
+function splitUnescaped(value: string, separators: string): { separator: string; text: string }[] {
+  const parts: { separator: string; text: string }[] = [];
+  let current = { separator: '', text: '' };
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!;
+    if (char === '\\' && i + 1 < value.length) {
+      current.text += char + value[i + 1];
+      i++;
+    } else if (separators.includes(char)) {
+      parts.push(current);
+      current = { separator: char, text: '' };
+    } else {
+      current.text += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Index of the first unescaped occurrence of a character
+ */
+function indexOfUnescaped(value: string, char: string, from = 0): number {
+  for (let i = from; i < value.length; i++) {
+    if (value[i] === '\\') {
+      i++;
+    } else if (value[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse the answer block of a GIFT question into form fields
+ */
+function parseGiftAnswers(body: string, errors: string[]): Record<string, unknown> {
+  // General feedback applies to the whole question
+  const feedbackIndex = body.indexOf('####');
+  const explanation = feedbackIndex >= 0 ? unescapeGift(body.slice(feedbackIndex + 4)) : undefined;
+  const answers = (feedbackIndex >= 0 ? body.slice(0, feedbackIndex) : body).trim();
+  const withExplanation = (fields: Record<string, unknown>) => ({ ...fields, ...(explanation && { explanation }) });
+
+  // Essay
+  if (answers === '') {
+    return withExplanation({ type: 'DESCRIPTIVE' });
+  }
+
+  // True/false, with optional feedback
+  const trueFalse = answers.match(/^(T|F|TRUE|FALSE)\b/i);
+  if (trueFalse) {
+    return withExplanation({ type: 'TRUE_FALSE', correctAnswer: trueFalse[1]!.toUpperCase().startsWith('T') });
+  }
+
+  // Numerical: #value, #value:tolerance, #min..max or #=value:tolerance alternatives
+  if (answers.startsWith('#')) {
+    const first = splitUnescaped(answers.slice(1), '=~#').find(part => part.separator !== '#' && part.text.trim());
+    const spec = first?.text.replace(/^%-?\d+(\.\d+)?%/, '').trim() ?? '';
+    const range = spec.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+
+    if (range) {
+      const min = Number(range[1]);
+      const max = Number(range[2]);
+      return withExplanation({ type: 'NUMERICAL', correctAnswer: (min + max) / 2, tolerance: (max - min) / 2 });
+    }
+
+    const [valuePart, tolerancePart] = spec.split(':');
+    const value = Number(valuePart);
+    if (!valuePart || Number.isNaN(value)) {
+      errors.push(`Invalid numerical answer "${spec}"`);
+    }
+    return withExplanation({
+      type: 'NUMERICAL',
+      correctAnswer: value,
+      ...(tolerancePart && { tolerance: Number(tolerancePart) }),
+    });
+  }
+
+  if (answers.includes('->')) {
+    errors.push('Matching questions are not supported');
+    return {};
+  }
+
+  // Choices: "=" marks a correct answer, "~" a wrong one; "~%50%" weights a correct one
+  const choices = splitUnescaped(answers, '=~')
+    .filter(part => part.separator !== '')
+    .map(part => {
+      const feedbackAt = indexOfUnescaped(part.text, '#');
+      let text = feedbackAt >= 0 ? part.text.slice(0, feedbackAt) : part.text;
+      const feedback = feedbackAt >= 0 ? unescapeGift(part.text.slice(feedbackAt + 1)) : undefined;
+
+      const weight = text.match(/^\s*%(-?\d+(\.\d+)?)%/);
+      if (weight) text = text.slice(weight[0].length);
+
+      return {
+        text: unescapeGift(text),
+        isCorrect: part.separator === '=' || (weight !== null && Number(weight[1]) > 0),
+        isWrongChoice: part.separator === '~',
+        feedback,
+      };
+    });
+
+  // Only "=" answers: short answer with accepted alternatives
+  if (choices.length > 0 && choices.every(choice => !choice.isWrongChoice)) {
+    return withExplanation({ type: 'FILL_BLANKS', blanks: [choices.map(choice => choice.text)] });
+  }
+
+  const correctCount = choices.filter(choice => choice.isCorrect).length;
+  return withExplanation({
+    type: correctCount > 1 ? 'MULTIPLE_SELECT' : 'MULTIPLE_CHOICE',
+    options: choices.map(choice => ({
+      text: choice.text,
+      isCorrect: choice.isCorrect,
+      ...(choice.feedback && { explanation: choice.feedback }),
+    })),
+  });
+}
+
+/**
+ * Parse one GIFT question (comments and category lines already removed)
+ */
+function parseGiftQuestion(source: string, errors: string[]): Record<string, unknown> {
+  let text = source.trim();
+
+  // Optional ::title::
+  const title = text.match(/^::(.*?)::/s);
+  if (title) {
+    text = text.slice(title[0].length).trim();
+  }
+
+  // Optional [html]/[markdown]/[plain]/[moodle] text format
+  text = text.replace(/^\[(html|markdown|plain|moodle)\]/i, '');
+
+  const open = indexOfUnescaped(text, '{');
+  const close = open >= 0 ? indexOfUnescaped(text, '}', open) : -1;
+
+  if (open < 0 || close < 0) {
+    errors.push('Question has no {answer} block');
+    return { question: unescapeGift(text) };
+  }
+
+  const before = text.slice(0, open).trim();
+  const after = text.slice(close + 1).trim();
+  const fields = parseGiftAnswers(text.slice(open + 1, close), errors);
+
+  // Text after the block makes it a missing-word question: keep a visible blank
+  const question = after ? `${before} _____ ${after}` : before;
+
+  return { ...fields, question: unescapeGift(question) };
+}
+
+function parseGiftQuestions(text: string): ParsedEntry[] {
+  const entries: ParsedEntry[] = [];
+  let category: { subject?: string; topic?: string } = {};
+  let block: { line: number; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (!block) return;
+    const errors: string[] = [];
+    const input = parseGiftQuestion(block.lines.join('\n'), errors);
+    entries.push({
+      row: block.line,
+      input: {
+        ...(category.subject && { subject: category.subject }),
+        ...(category.topic && { topic: category.topic }),
+        ...input,
+      },
+      errors,
+    });
+    block = null;
+  };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+
+    if (line.startsWith('//')) return;
+
+    if (line.startsWith('$CATEGORY:')) {
+      flush();
+      // $CATEGORY: $course$/Physics/Kinematics
+      const segments = line.slice('$CATEGORY:'.length).split('/')
+        .map(segment => segment.trim())
+        .filter(segment => segment && !/^\$\w+\$$/.test(segment));
+      category = {
+        ...(segments[0] && { subject: segments[0] }),
+        ...(segments[1] && { topic: segments[1] }),
+      };
+      return;
+    }
+
+    if (!line) {
+      // A blank line ends a question unless its answer block is still open
+      const current = block as { lines: string[] } | null;
+      if (current && indexOfUnescaped(current.lines.join('\n'), '}') >= 0) {
+        flush();
+      }
+      return;
+    }
+
+    if (!block) {
+      block = { line: index + 1, lines: [] };
+    }
+    block.lines.push(rawLine);
+  });
+  flush();
+
+  return entries;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Format zod issues as "path: message" strings
+ */
+function formatIssues(issues: { path: PropertyKey[]; message: string }[]): string[] {
+  return issues.map(issue => issue.path.length > 0
+    ? `${issue.path.map(String).join('.')}: ${issue.message}`
+    : issue.message);
+}
+
+/**
+ * Parse and validate a question file
+ */
+export function parseQuestionFile(
+  text: string,
+  format: QuestionImportFormat,
+  defaults: QuestionImportDefaults = {}
+): QuestionImportResult {
+  const source = text.replace(/^\uFEFF/, ''); // strip BOM
+  const entries = format === 'CSV'
+    ? parseCsvQuestions(source)
+    : format === 'AIKEN'
+      ? parseAikenQuestions(source)
+      : parseGiftQuestions(source);
+
+  const rows: ImportRowResult[] = [];
+  const questions: QuestionFormData[] = [];
+
+  entries.slice(0, MAX_IMPORT_QUESTIONS).forEach(entry => {
+    // File values win over defaults; undefined values fall back to them
+    const definedInput = Object.fromEntries(
+      Object.entries(entry.input).filter(([, value]) => value !== undefined)
+    );
+    const candidate: Record<string, unknown> = {
+      difficulty: 'MEDIUM',
+      language: 'ENGLISH',
+      marks: 1,
+      ...defaults,
+      ...definedInput,
+    };
+
+    const result = questionSchema.safeParse(candidate);
+    const errors = [...entry.errors, ...(result.success ? [] : formatIssues(result.error.issues))];
+    const preview = typeof candidate['question'] === 'string' ? candidate['question'] : undefined;
+
+    rows.push({
+      row: entry.row,
+      status: errors.length === 0 ? 'valid' : 'invalid',
+      ...(typeof candidate['type'] === 'string' && { type: candidate['type'] }),
+      ...(preview && { question: preview.slice(0, PREVIEW_LENGTH) }),
+      errors,
+    });
+
+    if (result.success && errors.length === 0) {
+      questions.push(result.data);
+    }
+  });
+
+  if (entries.length > MAX_IMPORT_QUESTIONS) {
+    const next = entries[MAX_IMPORT_QUESTIONS]!;
+    rows.push({
+      row: next.row,
+      status: 'invalid',
+      errors: [`Only the first ${MAX_IMPORT_QUESTIONS} questions of a file are imported`],
+    });
+  }
+
+  return { format, rows, questions };
+}
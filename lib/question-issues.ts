@@ -0,0 +1,113 @@
+/**
+ * Question Issue Report Utilities
+ *
+ * Triage for issues students report against questions they answered: the
+ * instructor queue filter and closing reports with a note to the reporter.
+ */
+
+import type { IssueReportStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { createNotification, NOTIFICATION_TYPES } from './notifications';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface QuestionIssueFilters {
+  status?: IssueReportStatus; // all statuses when omitted
+  type?: Prisma.QuestionIssueReportWhereInput['type'];
+  creatorId?: string; // restrict to questions created by this instructor
+  testSeriesId?: string;
+  questionId?: string;
+}
+
+export type IssueResolution = Exclude<IssueReportStatus, 'PENDING'>;
+
+// =============================================================================
+// TRIAGE
+// =============================================================================
+
+/**
+ * Build the report filter for an instructor's triage view
+ */
+export function buildQuestionIssueWhere(filters: QuestionIssueFilters): Prisma.QuestionIssueReportWhereInput {
+  const where: Prisma.QuestionIssueReportWhereInput = {
+    question: {
+      ...(filters.testSeriesId && { testSeriesId: filters.testSeriesId }),
+      ...(filters.creatorId && { creatorId: filters.creatorId }),
+    },
+  };
+
+  if (filters.status) where.status = filters.status;
+  if (filters.type) where.type = filters.type;
+  if (filters.questionId) where.questionId = filters.questionId;
+
+  return where;
+}
+
+/**
+ * Close the pending reports matching the filter and tell each reporter the
+ * outcome. Returns the number of reports closed.
+ */
+export async function closeQuestionIssues(
+  where: Prisma.QuestionIssueReportWhereInput,
+  resolution: IssueResolution,
+  resolverId: string,
+  note: string | null = null
+): Promise<number> {
+  const reports = await prisma.questionIssueReport.findMany({
+    where: { ...where, status: 'PENDING' },
+    select: {
+      id: true,
+      userId: true,
+      questionId: true,
+      questionAttempt: {
+        select: {
+          testAttempt: {
+            select: {
+              id: true,
+              testSeries: { select: { title: true, examId: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (reports.length === 0) {
+    return 0;
+  }
+
+  // Only close what is still pending, in case another reviewer got there first
+  const closed = await prisma.questionIssueReport.updateMany({
+    where: { id: { in: reports.map(report => report.id) }, status: 'PENDING' },
+    data: {
+      status: resolution,
+      resolutionNote: note,
+      resolvedAt: new Date(),
+      resolvedBy: resolverId,
+    },
+  });
+
+  for (const report of reports) {
+    const { testAttempt } = report.questionAttempt;
+    const outcome = resolution === 'RESOLVED'
+      ? 'has been fixed'
+      : 'was reviewed and no change was needed';
+
+    await createNotification(report.userId, {
+      type: NOTIFICATION_TYPES.QUESTION_ISSUE,
+      title: resolution === 'RESOLVED' ? 'Reported issue fixed' : 'Reported issue reviewed',
+      message: `The issue you reported in "${testAttempt.testSeries.title}" ${outcome}.${note ? ` ${note}` : ''}`,
+      actionUrl: `/exams/${testAttempt.testSeries.examId}/results/${testAttempt.id}`,
+      actionText: 'View result',
+      metadata: {
+        reportId: report.id,
+        questionId: report.questionId,
+        status: resolution,
+      },
+    });
+  }
+
+  return closed.count;
+}
@@ -0,0 +1,238 @@
+/**
+ * Question Randomization Utilities
+ *
+ * Deterministic, seeded shuffling of questions and options per exam attempt.
+ * The resulting order is stored on TestAttempt.questionsOrder so resume,
+ * review and grading all see exactly the same layout.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Prisma, QuestionType } from '@prisma/client';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Shape of TestAttempt.questionsOrder
+ */
+export interface QuestionsOrder {
+  seed: string;
+  questions: string[]; // question IDs in display order
+  options: Record<string, number[]>; // display index -> original option index
+}
+
+export interface RandomizationSettings {
+  randomizeQuestions: boolean;
+  randomizeOptions: boolean;
+}
+
+interface OrderableQuestion {
+  id: string;
+  type: QuestionType;
+  options: Prisma.JsonValue;
+}
+
+// Question types whose options can be safely reordered
+const SHUFFLABLE_TYPES: QuestionType[] = ['SINGLE_CHOICE', 'MULTIPLE_CHOICE'];
+
+// =============================================================================
+// SEEDED RANDOM
+// =============================================================================
+
+/**
+ * Hash a string seed into a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle driven by a seeded generator. Returns a new array.
+ */
+export function seededShuffle<T>(items: readonly T[], seed: string): T[] {
+  const random = createSeededRandom(seed);
+  const result = [...items];
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+
+  return result;
+}
+
+/**
+ * Generate a fresh seed for a new attempt
+ */
+export function generateSeed(): string {
+  return randomBytes(8).toString('hex');
+}
+
+// =============================================================================
+// ATTEMPT ORDER
+// =============================================================================
+
+/**
+ * Build the question and option order for a new attempt
+ */
+export function buildQuestionsOrder(
+  questions: OrderableQuestion[],
+  settings: RandomizationSettings,
+  seed: string = generateSeed()
+): QuestionsOrder {
+  const questionIds = questions.map(q => q.id);
+  const options: Record<string, number[]> = {};
+
+  if (settings.randomizeOptions) {
+    questions.forEach(question => {
+      if (SHUFFLABLE_TYPES.includes(question.type) && Array.isArray(question.options)) {
+        const indices = question.options.map((_, index) => index);
+        options[question.id] = seededShuffle(indices, `${seed}:${question.id}`);
+      }
+    });
+  }
+
+  return {
+    seed,
+    questions: settings.randomizeQuestions ? seededShuffle(questionIds, seed) : questionIds,
+    options,
+  };
+}
+
+/**
+ * Read a stored questionsOrder value, tolerating attempts created before randomization
+ */
+export function parseQuestionsOrder(value: Prisma.JsonValue | null): QuestionsOrder | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const order = value as unknown as QuestionsOrder;
+  if (!Array.isArray(order.questions)) {
+    return null;
+  }
+
+  return {
+    seed: String(order.seed ?? ''),
+    questions: order.questions,
+    options: order.options ?? {},
+  };
+}
+
+/**
+ * The questions an attempt was served: those in its stored order, or the
+ * active ones for attempts created before randomization
+ */
+export function filterServedQuestions<T extends { id: string; isActive: boolean }>(
+  questions: T[],
+  order: QuestionsOrder | null
+): T[] {
+  const served = order ? new Set(order.questions) : null;
+  return questions.filter(question => (served ? served.has(question.id) : question.isActive));
+}
+
+/**
+ * Arrange questions (and their options) in the attempt's display order
+ */
+export function applyQuestionsOrder<T extends { id: string; options: Prisma.JsonValue }>(
+  questions: T[],
+  order: QuestionsOrder | null
+): T[] {
+  if (!order) {
+    return questions;
+  }
+
+  const byId = new Map(questions.map(q => [q.id, q]));
+  const ordered = order.questions.flatMap(id => {
+    const question = byId.get(id);
+    return question ? [question] : [];
+  });
+
+  // Questions added after the attempt started go at the end in their original order
+  questions.forEach(question => {
+    if (!order.questions.includes(question.id)) {
+      ordered.push(question);
+    }
+  });
+
+  return ordered.map(question => {
+    const permutation = order.options[question.id];
+    if (!permutation || !Array.isArray(question.options)) {
+      return question;
+    }
+
+    const options = question.options;
+    return {
+      ...question,
+      options: permutation.map(originalIndex => options[originalIndex] ?? null),
+    };
+  });
+}
+
+// =============================================================================
+// ANSWER MAPPING
+// =============================================================================
+
+/**
+ * Map a choice answer from displayed option indices back to original indices
+ */
+export function toOriginalAnswer<T>(
+  questionId: string,
+  userAnswer: T,
+  order: QuestionsOrder | null
+): T {
+  const permutation = order?.options[questionId];
+  if (!permutation) {
+    return userAnswer;
+  }
+
+  const map = (value: unknown) =>
+    typeof value === 'number' ? permutation[value] ?? value : value;
+
+  return (Array.isArray(userAnswer) ? userAnswer.map(map) : map(userAnswer)) as T;
+}
+
+/**
+ * Map a stored choice answer from original option indices to displayed indices
+ */
+export function toDisplayedAnswer<T>(
+  questionId: string,
+  userAnswer: T,
+  order: QuestionsOrder | null
+): T {
+  const permutation = order?.options[questionId];
+  if (!permutation) {
+    return userAnswer;
+  }
+
+  const map = (value: unknown) => {
+    if (typeof value !== 'number') {
+      return value;
+    }
+    const index = permutation.indexOf(value);
+    return index > -1 ? index : value;
+  };
+
+  return (Array.isArray(userAnswer) ? userAnswer.map(map) : map(userAnswer)) as T;
+}
@@ -0,0 +1,238 @@
+/**
+ * Test Rankings
+ *
+ * Rank and percentile computation for test attempts. Each student's first
+ * completed attempt with released results takes part in the ranking; retakes
+ * are compared against that pool without displacing anyone.
+ *
+ * Ordering: higher score first, then less time taken. Attempts tied on both
+ * share a rank (1, 2, 2, 4). Percentile follows the NTA convention: the share
+ * of ranked students scoring at or below the attempt's score.
+ *
+ * Adaptive series serve each student different questions, so their attempts
+ * are ranked on the ability estimate instead of the raw score.
+ */
+
+import type { Prisma, TestAttempt } from '@prisma/client';
+import { prisma } from './prisma';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RankableAttempt {
+  id: string;
+  score: number;
+  timeSpent: number; // in seconds
+}
+
+export interface RankedAttempt extends RankableAttempt {
+  rank: number;
+  percentile: number;
+}
+
+export interface RankingSummary {
+  testSeriesId: string;
+  rankedAttempts: number;
+  totalAttempts: number;
+  averageScore: number | null;
+  topScore: number | null;
+  updatedAttempts: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const roundTwo = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * The value an attempt is ranked on: its ability estimate in adaptive series
+ * (an attempt without answers keeps the prior's average ability), otherwise
+ * its score
+ */
+export function getRankingScore(
+  attempt: Pick<TestAttempt, 'score' | 'abilityEstimate'>,
+  isAdaptive: boolean
+): number {
+  if (!isAdaptive) {
+    return Number(attempt.score);
+  }
+
+  return attempt.abilityEstimate === null ? 0 : Number(attempt.abilityEstimate);
+}
+
+/**
+ * Compare two attempts for ranking: higher score, then faster
+ */
+export function compareAttempts(a: RankableAttempt, b: RankableAttempt): number {
+  return b.score - a.score || a.timeSpent - b.timeSpent;
+}
+
+/**
+ * Percentage of scores at or below the given score
+ */
+export function calculatePercentile(score: number, scores: number[]): number {
+  if (scores.length === 0) {
+    return 100;
+  }
+
+  const atOrBelow = scores.filter(value => value <= score).length;
+  return roundTwo((atOrBelow / scores.length) * 100);
+}
+
+/**
+ * Assign competition ranks and percentiles to a set of attempts
+ */
+export function rankAttempts(attempts: RankableAttempt[]): RankedAttempt[] {
+  const sorted = [...attempts].sort(compareAttempts);
+  const scores = sorted.map(attempt => attempt.score);
+
+  let previous: RankedAttempt | null = null;
+
+  return sorted.map((attempt, index) => {
+    const rank = previous && compareAttempts(previous, attempt) === 0 ? previous.rank : index + 1;
+    const ranked = { ...attempt, rank, percentile: calculatePercentile(attempt.score, scores) };
+    previous = ranked;
+    return ranked;
+  });
+}
+
+/**
+ * Rank an attempt against a pool it is not part of (used for retakes)
+ */
+export function getProjectedRank(attempt: RankableAttempt, pool: RankableAttempt[]): number {
+  return pool.filter(other => compareAttempts(other, attempt) < 0).length + 1;
+}
+
+// =============================================================================
+// RANKING POOL
+// =============================================================================
+
+/**
+ * Attempts eligible for ranking: completed timed attempts with results
+ * released, not excluded by an invigilator and not at a student's personal
+ * custom test
+ */
+export function getRankableAttemptsWhere(testSeriesId: string): Prisma.TestAttemptWhereInput {
+  return {
+    testSeriesId,
+    completedAt: { not: null },
+    resultsReleasedAt: { not: null },
+    isPractice: false,
+    proctoringStatus: { not: 'EXCLUDED' },
+    testSeries: { isPersonal: false },
+  };
+}
+
+/**
+ * Load the ranking pool of a test series: each student's first eligible
+ * attempt, with the value it is ranked on
+ */
+export async function getRankingPool(testSeriesId: string) {
+  const [testSeries, attempts] = await Promise.all([
+    prisma.testSeries.findUnique({
+      where: { id: testSeriesId },
+      select: { isAdaptive: true },
+    }),
+    prisma.testAttempt.findMany({
+      where: getRankableAttemptsWhere(testSeriesId),
+      orderBy: { completedAt: 'asc' },
+      select: {
+        id: true,
+        userId: true,
+        score: true,
+        abilityEstimate: true,
+        timeSpent: true,
+        rank: true,
+        percentile: true,
+      },
+    }),
+  ]);
+
+  const seenUsers = new Set<string>();
+  const isAdaptive = testSeries?.isAdaptive ?? false;
+
+  return attempts
+    .filter(attempt => {
+      if (seenUsers.has(attempt.userId)) {
+        return false;
+      }
+      seenUsers.add(attempt.userId);
+      return true;
+    })
+    .map(attempt => ({ ...attempt, rankingScore: getRankingScore(attempt, isAdaptive) }));
+}
+
+// =============================================================================
+// RECOMPUTATION
+// =============================================================================
+
+/**
+ * Recompute ranks and percentiles for every ranked attempt of a test series
+ * and refresh its averageScore/totalAttempts. Only changed rows are written.
+ */
+export async function recomputeTestSeriesRankings(testSeriesId: string): Promise<RankingSummary> {
+  const [pool, totalAttempts] = await Promise.all([
+    getRankingPool(testSeriesId),
+    prisma.testAttempt.count({ where: getRankableAttemptsWhere(testSeriesId) }),
+  ]);
+
+  const ranked = rankAttempts(pool.map(attempt => ({
+    id: attempt.id,
+    score: attempt.rankingScore,
+    timeSpent: attempt.timeSpent,
+  })));
+
+  const current = new Map(pool.map(attempt => [attempt.id, attempt]));
+  const changed = ranked.filter(attempt => {
+    const existing = current.get(attempt.id);
+    return existing?.rank !== attempt.rank ||
+      (existing.percentile === null ? null : Number(existing.percentile)) !== attempt.percentile;
+  });
+
+  const scores = pool.map(attempt => Number(attempt.score));
+  const topAttempt = ranked[0] ? current.get(ranked[0].id) : undefined;
+  const averageScore = scores.length > 0
+    ? roundTwo(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+    : null;
+
+  await prisma.$transaction([
+    ...changed.map(attempt => prisma.testAttempt.update({
+      where: { id: attempt.id },
+      data: { rank: attempt.rank, percentile: attempt.percentile },
+    })),
+    prisma.testSeries.update({
+      where: { id: testSeriesId },
+      data: { averageScore, totalAttempts },
+    }),
+  ]);
+
+  return {
+    testSeriesId,
+    rankedAttempts: ranked.length,
+    totalAttempts,
+    averageScore,
+    topScore: topAttempt ? Number(topAttempt.score) : null,
+    updatedAttempts: changed.length,
+  };
+}
+
+/**
+ * Recompute rankings for every test series of an exam (batch recompute)
+ */
+export async function recomputeExamRankings(examId: string): Promise<RankingSummary[]> {
+  const testSeries = await prisma.testSeries.findMany({
+    where: { examId, isPersonal: false },
+    select: { id: true },
+  });
+
+  const summaries: RankingSummary[] = [];
+
+  // Sequential to keep each series' transaction small
+  for (const series of testSeries) {
+    summaries.push(await recomputeTestSeriesRankings(series.id));
+  }
+
+  return summaries;
+}
@@ -0,0 +1,331 @@
+/**
+ * Revision Queue
+ *
+ * A per-student queue of questions worth revisiting: every question answered
+ * incorrectly or marked for review in any test, once the attempt's results
+ * are visible. Items are scheduled with the SM-2 spaced-repetition algorithm
+ * from the recall quality (0-5) the student reports after each review.
+ *
+ * Copies of bank questions in custom tests are queued as their bank question,
+ * so a question missed in several tests is revised once.
+ */
+
+import type {
+  Prisma,
+  Question,
+  QuestionType,
+  RevisionItem,
+  RevisionReason,
+  TestSeries,
+} from '@prisma/client';
+import { prisma } from './prisma';
+import { getResultsEmbargo } from './attempt-review';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RevisionSchedule = Pick<
+  RevisionItem,
+  'interval' | 'repetitions' | 'lapses' | 'dueAt' | 'lastReviewedAt' | 'lastQuality'
+> & { easeFactor: number };
+
+export interface RevisionSummary {
+  due: number; // items due now
+  total: number; // items in the queue
+  reviewedToday: number;
+  remainingToday: number; // reviews left under the daily limit
+}
+
+export interface RevisionQuestion {
+  itemId: string;
+  questionId: string;
+  reason: RevisionReason;
+  type: QuestionType;
+  title: string | null;
+  questionText: string;
+  options: Prisma.JsonValue;
+  image: string | null;
+  audio: string | null;
+  video: string | null;
+  subject: string | null;
+  topic: string | null;
+  correctAnswer: Prisma.JsonValue; // null when the series hides answer keys
+  explanation: string | null;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt: Date | null;
+}
+
+type RevisionItemWithQuestion = RevisionItem & {
+  question: Question & { testSeries: Pick<TestSeries, 'showAnswers' | 'showExplanations'> };
+};
+
+// =============================================================================
+// SCHEDULING
+// =============================================================================
+
+/** Reviews served per student per day (UTC) */
+export const REVISION_DAILY_LIMIT = 20;
+
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the UTC day containing the given time
+ */
+export function getRevisionDayStart(now: Date = new Date()): Date {
+  const start = new Date(now);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Next schedule for an item after a review (SM-2). A quality below 3 means
+ * the question was forgotten: it starts over and is due again tomorrow.
+ */
+export function scheduleReview(
+  item: Pick<RevisionSchedule, 'easeFactor' | 'interval' | 'repetitions' | 'lapses'>,
+  quality: number,
+  now: Date = new Date()
+): RevisionSchedule {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    item.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  let { interval, repetitions, lapses } = item;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+    lapses++;
+  } else {
+    repetitions++;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * item.easeFactor);
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+    lastReviewedAt: now,
+    lastQuality: quality,
+  };
+}
+
+// =============================================================================
+// QUEUEING
+// =============================================================================
+
+/**
+ * Add missed and marked questions from a student's finished attempts to their
+ * revision queue. Attempts are picked up once their results are visible; a
+ * question answered incorrectly again after its last review starts over.
+ */
+export async function syncRevisionQueue(userId: string, now: Date = new Date()): Promise<void> {
+  const attempts = await prisma.testAttempt.findMany({
+    where: {
+      userId,
+      completedAt: { not: null },
+      resultsReleasedAt: { not: null },
+      revisionQueuedAt: null,
+    },
+    select: {
+      id: true,
+      completedAt: true,
+      testSeries: { select: { exam: { select: { showResults: true, endDate: true } } } },
+    },
+  });
+
+  const released = attempts.filter(attempt => getResultsEmbargo(attempt.testSeries.exam, now) === null);
+  if (released.length === 0) {
+    return;
+  }
+
+  const completedAt = new Map(released.map(attempt => [attempt.id, attempt.completedAt!]));
+  const answers = await prisma.questionAttempt.findMany({
+    where: {
+      testAttemptId: { in: Array.from(completedAt.keys()) },
+      OR: [
+        { isMarked: true },
+        { isCorrect: false, isSkipped: false, gradingStatus: { not: 'PENDING' } },
+      ],
+    },
+    select: {
+      testAttemptId: true,
+      questionId: true,
+      isCorrect: true,
+      isSkipped: true,
+      gradingStatus: true,
+      question: { select: { sourceQuestionId: true } },
+    },
+  });
+
+  // Latest incorrect answer (or marked-only) per bank question
+  const missed = new Map<string, { reason: RevisionReason; answeredAt: Date | null }>();
+  for (const answer of answers) {
+    const questionId = answer.question.sourceQuestionId ?? answer.questionId;
+    const incorrect = !answer.isCorrect && !answer.isSkipped && answer.gradingStatus !== 'PENDING';
+    const current = missed.get(questionId);
+
+    if (incorrect) {
+      const answeredAt = completedAt.get(answer.testAttemptId)!;
+      if (!current?.answeredAt || current.answeredAt < answeredAt) {
+        missed.set(questionId, { reason: 'INCORRECT', answeredAt });
+      }
+    } else if (!current) {
+      missed.set(questionId, { reason: 'MARKED', answeredAt: null });
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    // Claim the attempts so concurrent syncs queue them once
+    const { count } = await tx.testAttempt.updateMany({
+      where: { id: { in: Array.from(completedAt.keys()) }, revisionQueuedAt: null },
+      data: { revisionQueuedAt: now },
+    });
+    if (count === 0 || missed.size === 0) {
+      return;
+    }
+
+    const existing = await tx.revisionItem.findMany({
+      where: { userId, questionId: { in: Array.from(missed.keys()) } },
+    });
+    const queued = new Map(existing.map(item => [item.questionId, item]));
+
+    await tx.revisionItem.createMany({
+      data: Array.from(missed.entries())
+        .filter(([questionId]) => !queued.has(questionId))
+        .map(([questionId, { reason }]) => ({ userId, questionId, reason, dueAt: now })),
+      skipDuplicates: true,
+    });
+
+    for (const [questionId, { reason, answeredAt }] of missed) {
+      const item = queued.get(questionId);
+      if (!item || reason !== 'INCORRECT') {
+        continue;
+      }
+
+      // Got it wrong again since the last review: start over
+      const lapsed = item.lastReviewedAt !== null && answeredAt !== null && answeredAt > item.lastReviewedAt;
+      if (lapsed) {
+        await tx.revisionItem.update({
+          where: { id: item.id },
+          data: { reason, repetitions: 0, interval: 0, lapses: { increment: 1 }, dueAt: now },
+        });
+      } else if (item.reason !== reason) {
+        await tx.revisionItem.update({
+          where: { id: item.id },
+          data: { reason },
+        });
+      }
+    }
+  });
+}
+
+// =============================================================================
+// REVIEWING
+// =============================================================================
+
+/**
+ * Filter for a student's items that are due for review
+ */
+function buildDueItemsWhere(userId: string, now: Date): Prisma.RevisionItemWhereInput {
+  return {
+    userId,
+    dueAt: { lte: now },
+    question: { isActive: true },
+  };
+}
+
+/**
+ * Queue size and today's progress for a student
+ */
+export async function getRevisionSummary(userId: string, now: Date = new Date()): Promise<RevisionSummary> {
+  const [due, total, reviewedToday] = await Promise.all([
+    prisma.revisionItem.count({ where: buildDueItemsWhere(userId, now) }),
+    prisma.revisionItem.count({ where: { userId } }),
+    prisma.revisionItem.count({ where: { userId, lastReviewedAt: { gte: getRevisionDayStart(now) } } }),
+  ]);
+
+  return {
+    due,
+    total,
+    reviewedToday,
+    remainingToday: Math.max(0, REVISION_DAILY_LIMIT - reviewedToday),
+  };
+}
+
+/**
+ * Shape a due item for the revise screen. Answer keys and explanations follow
+ * the bank question's series settings.
+ */
+function toRevisionQuestion(item: RevisionItemWithQuestion): RevisionQuestion {
+  const { question } = item;
+
+  return {
+    itemId: item.id,
+    questionId: question.id,
+    reason: item.reason,
+    type: question.type,
+    title: question.title,
+    questionText: question.questionText,
+    options: question.options,
+    image: question.image,
+    audio: question.audio,
+    video: question.video,
+    subject: question.subject,
+    topic: question.topic,
+    correctAnswer: question.testSeries.showAnswers ? question.correctAnswer : null,
+    explanation: question.testSeries.showExplanations ? question.explanation : null,
+    repetitions: item.repetitions,
+    lapses: item.lapses,
+    dueAt: item.dueAt,
+    lastReviewedAt: item.lastReviewedAt,
+  };
+}
+
+/**
+ * Today's due questions, most overdue first
+ */
+export async function getDueRevisionQuestions(
+  userId: string,
+  limit: number,
+  now: Date = new Date()
+): Promise<RevisionQuestion[]> {
+  if (limit <= 0) {
+    return [];
+  }
+
+  const items = await prisma.revisionItem.findMany({
+    where: buildDueItemsWhere(userId, now),
+    orderBy: { dueAt: 'asc' },
+    take: limit,
+    include: {
+      question: {
+        include: { testSeries: { select: { showAnswers: true, showExplanations: true } } },
+      },
+    },
+  });
+
+  return items.map(toRevisionQuestion);
+}
+
+/**
+ * Record how well a student recalled a question and schedule its next review
+ */
+export async function recordRevisionReview(
+  item: RevisionItem,
+  quality: number,
+  now: Date = new Date()
+): Promise<RevisionItem> {
+  const schedule = scheduleReview({ ...item, easeFactor: Number(item.easeFactor) }, quality, now);
+
+  return prisma.revisionItem.update({
+    where: { id: item.id },
+    data: schedule,
+  });
+}
@@ -0,0 +1,347 @@
+/**
+ * Scoring Engine
+ *
+ * Grades question attempts with one strategy per QuestionType and applies the
+ * exam's negative marking scheme. Answers and answer keys are stored as JSON:
+ *
+ * - SINGLE_CHOICE / MULTIPLE_CHOICE: option index (or index array); option ids are also accepted
+ * - TRUE_FALSE: boolean (or "true"/"false")
+ * - NUMERICAL: number, or { value, tolerance } / { min, max } for accepted ranges
+ * - FILL_BLANKS: string, string[] of accepted alternatives, or string[][] per blank
+ * - DESCRIPTIVE: free text, always left pending for manual grading
+ */
+
+import type { GradingStatus, Prisma, Question, QuestionType } from '@prisma/client';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ScorableQuestion = Pick<
+  Question,
+  'id' | 'type' | 'marks' | 'negativeMarks' | 'correctAnswer' | 'partialMarking'
+>;
+
+/**
+ * Negative marking configuration resolved from Exam and TestSeries settings
+ */
+export interface MarkingScheme {
+  negativeMarking: boolean;
+  negativeMarkingRatio: number; // fraction of question marks deducted; 0 uses Question.negativeMarks
+}
+
+export interface QuestionScore {
+  isCorrect: boolean;
+  isSkipped: boolean;
+  isPartial: boolean;
+  gradingStatus: GradingStatus;
+  marksAwarded: number;
+}
+
+export interface ScoringStrategy {
+  score(question: ScorableQuestion, userAnswer: unknown, scheme: MarkingScheme): QuestionScore;
+}
+
+export interface GradedAnswer extends QuestionScore {
+  questionId: string;
+}
+
+export interface AttemptScore {
+  answers: GradedAnswer[];
+  score: number;
+  maxScore: number;
+  negativeMarks: number;
+  attemptedQuestions: number;
+  correctAnswers: number;
+  incorrectAnswers: number;
+  skippedQuestions: number;
+  pendingReview: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const roundMarks = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Check whether an answer counts as not attempted
+ */
+export function isEmptyAnswer(userAnswer: unknown): boolean {
+  if (userAnswer === null || userAnswer === undefined) return true;
+  if (typeof userAnswer === 'string') return userAnswer.trim() === '';
+  if (Array.isArray(userAnswer)) return userAnswer.every(isEmptyAnswer);
+  return false;
+}
+
+/**
+ * Normalize free text for comparison: case-insensitive, whitespace collapsed
+ */
+export function normalizeText(value: unknown): string {
+  return String(value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Wrap a single answer value in an array
+ */
+export const toArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Resolve the marking scheme for a test series within an exam
+ */
+export function getMarkingScheme(
+  exam: { allowNegativeMarking: boolean },
+  testSeries: { negativeMarking: boolean; negativeMarkingRatio: Prisma.Decimal | number }
+): MarkingScheme {
+  return {
+    negativeMarking: exam.allowNegativeMarking && testSeries.negativeMarking,
+    negativeMarkingRatio: Number(testSeries.negativeMarkingRatio),
+  };
+}
+
+/**
+ * Marks deducted for a wrong answer under the given scheme
+ */
+export function getPenalty(question: ScorableQuestion, scheme: MarkingScheme): number {
+  if (!scheme.negativeMarking) {
+    return 0;
+  }
+
+  if (scheme.negativeMarkingRatio > 0) {
+    return roundMarks(Number(question.marks) * scheme.negativeMarkingRatio);
+  }
+
+  return Number(question.negativeMarks);
+}
+
+const skipped = (): QuestionScore => ({
+  isCorrect: false,
+  isSkipped: true,
+  isPartial: false,
+  gradingStatus: 'AUTO_GRADED',
+  marksAwarded: 0,
+});
+
+const correct = (question: ScorableQuestion): QuestionScore => ({
+  isCorrect: true,
+  isSkipped: false,
+  isPartial: false,
+  gradingStatus: 'AUTO_GRADED',
+  marksAwarded: Number(question.marks),
+});
+
+const incorrect = (question: ScorableQuestion, scheme: MarkingScheme): QuestionScore => ({
+  isCorrect: false,
+  isSkipped: false,
+  isPartial: false,
+  gradingStatus: 'AUTO_GRADED',
+  marksAwarded: -getPenalty(question, scheme),
+});
+
+const partial = (question: ScorableQuestion, fraction: number): QuestionScore => ({
+  isCorrect: false,
+  isSkipped: false,
+  isPartial: true,
+  gradingStatus: 'AUTO_GRADED',
+  marksAwarded: roundMarks(Number(question.marks) * fraction),
+});
+
+// =============================================================================
+// STRATEGIES
+// =============================================================================
+
+const singleChoiceStrategy: ScoringStrategy = {
+  score(question, userAnswer, scheme) {
+    const expected = toArray(question.correctAnswer).map(String);
+    const given = toArray(userAnswer).map(String);
+
+    if (given.length !== 1) {
+      return incorrect(question, scheme);
+    }
+
+    return expected.includes(given[0]!) ? correct(question) : incorrect(question, scheme);
+  },
+};
+
+const multipleChoiceStrategy: ScoringStrategy = {
+  score(question, userAnswer, scheme) {
+    const expected = new Set(toArray(question.correctAnswer).map(String));
+    const given = new Set(toArray(userAnswer).map(String));
+
+    const selectedWrong = Array.from(given).some(value => !expected.has(value));
+    if (selectedWrong) {
+      return incorrect(question, scheme);
+    }
+
+    if (given.size === expected.size) {
+      return correct(question);
+    }
+
+    // Only correct options chosen, but not all of them
+    return question.partialMarking
+      ? partial(question, given.size / expected.size)
+      : incorrect(question, scheme);
+  },
+};
+
+const trueFalseStrategy: ScoringStrategy = {
+  score(question, userAnswer, scheme) {
+    return normalizeText(userAnswer) === normalizeText(question.correctAnswer)
+      ? correct(question)
+      : incorrect(question, scheme);
+  },
+};
+
+const numericalStrategy: ScoringStrategy = {
+  score(question, userAnswer, scheme) {
+    const value = parseFloat(String(userAnswer));
+    if (Number.isNaN(value)) {
+      return incorrect(question, scheme);
+    }
+
+    const key = question.correctAnswer;
+    let isMatch: boolean;
+
+    if (key && typeof key === 'object' && !Array.isArray(key) && 'min' in key && 'max' in key) {
+      isMatch = value >= Number(key['min']) && value <= Number(key['max']);
+    } else if (key && typeof key === 'object' && !Array.isArray(key) && 'value' in key) {
+      const tolerance = Math.abs(Number(key['tolerance'] ?? 0));
+      isMatch = Math.abs(value - Number(key['value'])) <= tolerance + Number.EPSILON;
+    } else {
+      isMatch = toArray(key).some(expected => Math.abs(value - parseFloat(String(expected))) <= Number.EPSILON);
+    }
+
+    return isMatch ? correct(question) : incorrect(question, scheme);
+  },
+};
+
+const fillBlanksStrategy: ScoringStrategy = {
+  score(question, userAnswer, scheme) {
+    const key = toArray(question.correctAnswer);
+    const given = toArray(userAnswer);
+
+    // A flat key is a list of alternatives for a single blank
+    const blanks: unknown[][] = key.some(Array.isArray)
+      ? key.map(toArray)
+      : [key];
+
+    const matched = blanks.filter((alternatives, index) => {
+      const answer = normalizeText(given[index]);
+      return answer !== '' && alternatives.some(alt => normalizeText(alt) === answer);
+    }).length;
+
+    if (matched === blanks.length) {
+      return correct(question);
+    }
+
+    return matched > 0 && question.partialMarking
+      ? partial(question, matched / blanks.length)
+      : incorrect(question, scheme);
+  },
+};
+
+const descriptiveStrategy: ScoringStrategy = {
+  score() {
+    return {
+      isCorrect: false,
+      isSkipped: false,
+      isPartial: false,
+      gradingStatus: 'PENDING',
+      marksAwarded: 0,
+    };
+  },
+};
+
+const SCORING_STRATEGIES: Record<QuestionType, ScoringStrategy> = {
+  SINGLE_CHOICE: singleChoiceStrategy,
+  MULTIPLE_CHOICE: multipleChoiceStrategy,
+  TRUE_FALSE: trueFalseStrategy,
+  NUMERICAL: numericalStrategy,
+  FILL_BLANKS: fillBlanksStrategy,
+  DESCRIPTIVE: descriptiveStrategy,
+};
+
+/**
+ * Get the scoring strategy for a question type
+ */
+export function getScoringStrategy(type: QuestionType): ScoringStrategy {
+  return SCORING_STRATEGIES[type];
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Score a single answer
+ */
+export function scoreQuestion(
+  question: ScorableQuestion,
+  userAnswer: unknown,
+  scheme: MarkingScheme
+): QuestionScore {
+  if (isEmptyAnswer(userAnswer)) {
+    return skipped();
+  }
+
+  return getScoringStrategy(question.type).score(question, userAnswer, scheme);
+}
+
+/**
+ * Score every question of an attempt. Questions without an answer count as
+ * skipped. Sectional tests pass a per-question scheme.
+ */
+export function scoreAttempt<Q extends ScorableQuestion>(
+  questions: Q[],
+  answers: Map<string, unknown>,
+  scheme: MarkingScheme | ((question: Q) => MarkingScheme)
+): AttemptScore {
+  const result: AttemptScore = {
+    answers: [],
+    score: 0,
+    maxScore: 0,
+    negativeMarks: 0,
+    attemptedQuestions: 0,
+    correctAnswers: 0,
+    incorrectAnswers: 0,
+    skippedQuestions: 0,
+    pendingReview: 0,
+  };
+
+  for (const question of questions) {
+    const graded = scoreQuestion(
+      question,
+      answers.get(question.id),
+      typeof scheme === 'function' ? scheme(question) : scheme
+    );
+
+    result.answers.push({ questionId: question.id, ...graded });
+    result.maxScore += Number(question.marks);
+    result.score += graded.marksAwarded;
+
+    if (graded.isSkipped) {
+      result.skippedQuestions++;
+      continue;
+    }
+
+    result.attemptedQuestions++;
+
+    if (graded.gradingStatus === 'PENDING') {
+      result.pendingReview++;
+    } else if (graded.isCorrect) {
+      result.correctAnswers++;
+    } else if (!graded.isPartial) {
+      result.incorrectAnswers++;
+    }
+
+    if (graded.marksAwarded < 0) {
+      result.negativeMarks += -graded.marksAwarded;
+    }
+  }
+
+  result.score = roundMarks(result.score);
+  result.maxScore = roundMarks(result.maxScore);
+  result.negativeMarks = roundMarks(result.negativeMarks);
+
+  return result;
+}
@@ -0,0 +1,485 @@
+/**
+ * Test Analytics Builder
+ *
+ * Assembles the detailed post-test analytics for a completed attempt:
+ * subject/topic/subtopic and difficulty breakdowns, time per question against
+ * the topper and the average, accuracy against attempt rate, and
+ * recommendations linking to lessons tagged with the student's weak topics.
+ *
+ * Peers are the test series ranking pool (each student's first released attempt).
+ */
+
+import type { GradingStatus, QuestionDifficulty } from '@prisma/client';
+import { prisma } from './prisma';
+import { filterServedQuestions, parseQuestionsOrder } from './randomization';
+import { compareAttempts, getRankingPool } from './rankings';
+import {
+  buildAttemptResult,
+  groupResults,
+  percentOf,
+  roundTwo,
+  subjectOf,
+  UNCATEGORIZED,
+  type ResultAnswer,
+  type ResultQuestion,
+} from './test-results';
+import type {
+  AnalyticsRecommendation,
+  AttemptRateAnalysis,
+  DifficultyAnalysis,
+  QuestionTimeComparison,
+  RecommendedResource,
+  SubtopicWiseResult,
+  TestAnalytics,
+  TestResult,
+  TimeDistribution,
+  TopicWiseResult,
+} from '@/types/exam';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface AnalyticsQuestion extends ResultQuestion {
+  subtopic: string | null;
+  difficulty: QuestionDifficulty;
+}
+
+interface AnalyticsAnswer extends ResultAnswer {
+  gradingStatus: GradingStatus;
+}
+
+export interface AttemptAnalyticsPayload {
+  result: TestResult;
+  analytics: TestAnalytics;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DIFFICULTY_KEYS: Record<QuestionDifficulty, keyof DifficultyAnalysis> = {
+  EASY: 'easy',
+  MEDIUM: 'medium',
+  HARD: 'hard',
+  VERY_HARD: 'veryHard',
+};
+
+// Topic accuracy (percentage) at or above which a topic counts as a strength
+const STRENGTH_ACCURACY = 75;
+
+// Topic accuracy or attempt rate (percentage) below which a topic is weak
+const WEAKNESS_THRESHOLD = 50;
+
+// Gap (percentage points) to the peer average worth pointing out
+const PEER_GAP = 10;
+
+// Share of the duration used after which unanswered questions mean time ran out
+const OUT_OF_TIME_SHARE = 0.95;
+
+const MAX_RECOMMENDATIONS = 5;
+const MAX_RESOURCES_PER_RECOMMENDATION = 3;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Display label of a topic result
+ */
+const topicLabel = (result: TopicWiseResult): string =>
+  result.topic === UNCATEGORIZED ? result.subject : `${result.topic} (${result.subject})`;
+
+/**
+ * Outcome of a single question in the attempt
+ */
+function getQuestionStatus(answer: AnalyticsAnswer | undefined): QuestionTimeComparison['status'] {
+  if (!answer || answer.isSkipped) return 'SKIPPED';
+  if (answer.gradingStatus === 'PENDING') return 'PENDING';
+  return answer.isCorrect ? 'CORRECT' : 'INCORRECT';
+}
+
+/**
+ * Answer counts of every ranking pool attempt and per-question times
+ */
+async function loadPeerStats(testSeriesId: string) {
+  const pool = await getRankingPool(testSeriesId);
+  const topper = [...pool]
+    .map(attempt => ({ ...attempt, score: attempt.rankingScore }))
+    .sort(compareAttempts)[0] ?? null;
+
+  const rows = pool.length > 0
+    ? await prisma.questionAttempt.findMany({
+      where: { testAttemptId: { in: pool.map(attempt => attempt.id) } },
+      select: { testAttemptId: true, questionId: true, isSkipped: true, isCorrect: true, timeTaken: true },
+    })
+    : [];
+
+  // attempt -> { attempted, correct }
+  const attempts = new Map(pool.map(attempt => [attempt.id, { attempted: 0, correct: 0 }]));
+  // question -> times of students who answered
+  const answeredTimes = new Map<string, number[]>();
+  // question -> topper's time
+  const topperTimes = new Map<string, number>();
+
+  for (const row of rows) {
+    if (row.testAttemptId === topper?.id) {
+      topperTimes.set(row.questionId, row.timeTaken);
+    }
+
+    if (row.isSkipped) {
+      continue;
+    }
+
+    const counts = attempts.get(row.testAttemptId)!;
+    counts.attempted++;
+    if (row.isCorrect) counts.correct++;
+
+    const times = answeredTimes.get(row.questionId) ?? [];
+    times.push(row.timeTaken);
+    answeredTimes.set(row.questionId, times);
+  }
+
+  return { topperId: topper?.id ?? null, attempts, answeredTimes, topperTimes };
+}
+
+/**
+ * Published lessons tagged with any of the topics, grouped by lowercase topic
+ */
+async function findLessonsForTopics(topics: string[]): Promise<Map<string, RecommendedResource[]>> {
+  const tags = Array.from(new Set(topics.map(topic => topic.toLowerCase())));
+  const resources = new Map<string, RecommendedResource[]>();
+
+  if (tags.length === 0) {
+    return resources;
+  }
+
+  const lessons = await prisma.lesson.findMany({
+    where: {
+      isPublished: true,
+      topics: { hasSome: tags },
+      course: { isPublished: true },
+    },
+    orderBy: { sortOrder: 'asc' },
+    take: tags.length * MAX_RESOURCES_PER_RECOMMENDATION * 2,
+    select: {
+      title: true,
+      slug: true,
+      description: true,
+      videoUrl: true,
+      topics: true,
+      course: { select: { slug: true, title: true } },
+    },
+  });
+
+  for (const lesson of lessons) {
+    const resource: RecommendedResource = {
+      type: lesson.videoUrl ? 'VIDEO' : 'COURSE',
+      title: lesson.title,
+      url: `/courses/${lesson.course.slug}/lessons/${lesson.slug}`,
+      description: lesson.description ?? lesson.course.title,
+    };
+
+    for (const tag of lesson.topics) {
+      const matches = resources.get(tag) ?? [];
+      if (tags.includes(tag) && matches.length < MAX_RESOURCES_PER_RECOMMENDATION) {
+        resources.set(tag, [...matches, resource]);
+      }
+    }
+  }
+
+  return resources;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Build the result and detailed analytics for a completed attempt
+ */
+export async function buildAttemptAnalytics(attemptId: string): Promise<AttemptAnalyticsPayload | null> {
+  const payload = await buildAttemptResult(attemptId);
+
+  if (!payload) {
+    return null;
+  }
+
+  const { result, peerComparison } = payload;
+
+  const attempt = await prisma.testAttempt.findUniqueOrThrow({
+    where: { id: attemptId },
+    select: {
+      timeSpent: true,
+      questionsOrder: true,
+      questionAttempts: {
+        select: {
+          questionId: true,
+          isSkipped: true,
+          isCorrect: true,
+          marksAwarded: true,
+          timeTaken: true,
+          gradingStatus: true,
+        },
+      },
+      testSeries: {
+        select: {
+          id: true,
+          duration: true,
+          questions: {
+            orderBy: { createdAt: 'asc' },
+            select: {
+              id: true,
+              subject: true,
+              topic: true,
+              subtopic: true,
+              difficulty: true,
+              marks: true,
+              isActive: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  // Only the questions the student was served, numbered as they saw them
+  const order = parseQuestionsOrder(attempt.questionsOrder);
+  const position = (id: string, fallback: number): number => {
+    const index = order?.questions.indexOf(id) ?? -1;
+    return index >= 0 ? index : fallback;
+  };
+  const questions: AnalyticsQuestion[] = filterServedQuestions(attempt.testSeries.questions, order)
+    .map((question, index) => ({ question: { ...question, marks: Number(question.marks) }, index: position(question.id, index) }))
+    .sort((a, b) => a.index - b.index)
+    .map(entry => entry.question);
+
+  const answers = new Map<string, AnalyticsAnswer>(attempt.questionAttempts.map(qa => [qa.questionId, {
+    ...qa,
+    marksAwarded: Number(qa.marksAwarded),
+  }]));
+
+  const peers = await loadPeerStats(attempt.testSeries.id);
+
+  // Subtopic breakdown
+  const subtopicWiseResults: SubtopicWiseResult[] = groupResults(
+    questions,
+    answers,
+    q => `${subjectOf(q)}::${q.topic ?? UNCATEGORIZED}::${q.subtopic ?? UNCATEGORIZED}`
+  ).map(group => ({
+    subtopic: group.question.subtopic ?? UNCATEGORIZED,
+    topic: group.question.topic ?? UNCATEGORIZED,
+    subject: subjectOf(group.question),
+    totalQuestions: group.totalQuestions,
+    attemptedQuestions: group.attemptedQuestions,
+    correctAnswers: group.correctAnswers,
+    score: roundTwo(group.score),
+    maxScore: roundTwo(group.maxScore),
+    accuracy: percentOf(group.correctAnswers, group.attemptedQuestions),
+  }));
+
+  // Difficulty breakdown
+  const emptyBucket = () => ({ total: 0, attempted: 0, correct: 0, accuracy: 0 });
+  const difficultyAnalysis: DifficultyAnalysis = {
+    easy: emptyBucket(),
+    medium: emptyBucket(),
+    hard: emptyBucket(),
+    veryHard: emptyBucket(),
+  };
+
+  for (const question of questions) {
+    const bucket = difficultyAnalysis[DIFFICULTY_KEYS[question.difficulty]];
+    const answer = answers.get(question.id);
+
+    bucket.total++;
+    if (answer && !answer.isSkipped) bucket.attempted++;
+    if (answer?.isCorrect) bucket.correct++;
+  }
+  Object.values(difficultyAnalysis).forEach(bucket => {
+    bucket.accuracy = percentOf(bucket.correct, bucket.attempted);
+  });
+
+  // Time per question against the topper and the average
+  const questionTimes: QuestionTimeComparison[] = questions.map((question, index) => {
+    const answer = answers.get(question.id);
+    const averageTime = average(peers.answeredTimes.get(question.id) ?? []);
+
+    return {
+      questionId: question.id,
+      questionNumber: index + 1,
+      subject: subjectOf(question),
+      topic: question.topic ?? UNCATEGORIZED,
+      status: getQuestionStatus(answer),
+      timeTaken: answer?.timeTaken ?? 0,
+      averageTime: averageTime !== null ? Math.round(averageTime) : null,
+      topperTime: peers.topperTimes.get(question.id) ?? null,
+    };
+  });
+
+  const answered = questionTimes.filter(time => time.status !== 'SKIPPED');
+  const timed = answered.length > 0 ? answered : questionTimes;
+  const fastest = timed.reduce<QuestionTimeComparison | null>(
+    (best, time) => (!best || time.timeTaken < best.timeTaken ? time : best),
+    null
+  );
+  const slowest = timed.reduce<QuestionTimeComparison | null>(
+    (worst, time) => (!worst || time.timeTaken > worst.timeTaken ? time : worst),
+    null
+  );
+
+  const timeDistribution: TimeDistribution = {
+    totalTime: roundTwo(attempt.timeSpent / 60),
+    averageTimePerQuestion: Math.round(average(answered.map(time => time.timeTaken)) ?? 0),
+    fastestQuestion: { questionId: fastest?.questionId ?? '', timeTaken: fastest?.timeTaken ?? 0 },
+    slowestQuestion: { questionId: slowest?.questionId ?? '', timeTaken: slowest?.timeTaken ?? 0 },
+    subjectWiseTime: result.subjectWiseResults.map(subject => {
+      const times = answered.filter(time => time.subject === subject.subject).map(time => time.timeTaken);
+
+      return {
+        subject: subject.subject,
+        timeTaken: subject.timeTaken,
+        averageTimePerQuestion: Math.round(average(times) ?? 0),
+      };
+    }),
+  };
+
+  // Accuracy against attempt rate
+  const totalQuestions = questions.length;
+  const attemptRate = percentOf(result.questionsAttempted, totalQuestions);
+  const peerCounts = Array.from(peers.attempts.values());
+  const topperCounts = peers.topperId ? peers.attempts.get(peers.topperId) : undefined;
+
+  const attemptRateAnalysis: AttemptRateAnalysis = {
+    attemptRate,
+    accuracy: result.accuracy,
+    averageAttemptRate: roundTwo(
+      average(peerCounts.map(counts => percentOf(counts.attempted, totalQuestions))) ?? attemptRate
+    ),
+    averageAccuracy: roundTwo(
+      average(peerCounts.filter(counts => counts.attempted > 0).map(counts => percentOf(counts.correct, counts.attempted)))
+        ?? result.accuracy
+    ),
+    topperAttemptRate: topperCounts ? percentOf(topperCounts.attempted, totalQuestions) : attemptRate,
+    topperAccuracy: topperCounts ? percentOf(topperCounts.correct, topperCounts.attempted) : result.accuracy,
+    subjects: result.subjectWiseResults.map(subject => ({
+      subject: subject.subject,
+      attemptRate: percentOf(subject.attemptedQuestions, subject.totalQuestions),
+      accuracy: subject.accuracy,
+    })),
+  };
+
+  // Strengths and weaknesses by topic
+  const topicAttemptRate = (topic: TopicWiseResult) => percentOf(topic.attemptedQuestions, topic.totalQuestions);
+  const strengths = result.topicWiseResults
+    .filter(topic => topic.attemptedQuestions >= 2 && topic.accuracy >= STRENGTH_ACCURACY)
+    .sort((a, b) => b.accuracy - a.accuracy)
+    .map(topicLabel);
+  const weakTopics = result.topicWiseResults
+    .filter(topic => (topic.attemptedQuestions > 0 && topic.accuracy < WEAKNESS_THRESHOLD)
+      || (topic.totalQuestions >= 2 && topicAttemptRate(topic) < WEAKNESS_THRESHOLD))
+    .sort((a, b) => a.accuracy - b.accuracy || topicAttemptRate(a) - topicAttemptRate(b));
+  const weaknesses = weakTopics.map(topicLabel);
+
+  // Overall improvement areas
+  const improvementAreas: string[] = [];
+  const averagePeerTime = average(questionTimes.flatMap(time => (time.averageTime !== null ? [time.averageTime] : [])));
+  const outOfTime = result.skippedQuestions > 0
+    && attempt.timeSpent >= attempt.testSeries.duration * 60 * OUT_OF_TIME_SHARE;
+  const isSlow = averagePeerTime !== null && timeDistribution.averageTimePerQuestion > averagePeerTime * 1.5;
+
+  if (attemptRate < attemptRateAnalysis.averageAttemptRate - PEER_GAP) {
+    improvementAreas.push(
+      `Attempt more questions: you attempted ${attemptRate}% against an average of ${attemptRateAnalysis.averageAttemptRate}%`
+    );
+  }
+  if (result.accuracy < attemptRateAnalysis.averageAccuracy - PEER_GAP) {
+    improvementAreas.push(
+      `Improve accuracy: ${result.accuracy}% of your answers were correct against an average of ${attemptRateAnalysis.averageAccuracy}%`
+    );
+  }
+  if (result.negativeMarks > 0 && result.accuracy < WEAKNESS_THRESHOLD) {
+    improvementAreas.push(`Avoid guessing: negative marking cost you ${result.negativeMarks} marks`);
+  }
+  if (outOfTime) {
+    improvementAreas.push(`Manage your time: you ran out of time with ${result.skippedQuestions} questions unanswered`);
+  } else if (isSlow) {
+    improvementAreas.push(
+      `Work faster: you spent ${timeDistribution.averageTimePerQuestion}s per question against an average of ${Math.round(averagePeerTime!)}s`
+    );
+  }
+
+  // Recommendations, weakest topics first
+  const lessons = await findLessonsForTopics(
+    weakTopics.flatMap(topic => (topic.topic !== UNCATEGORIZED ? [topic.topic] : []))
+  );
+  const recommendations: AnalyticsRecommendation[] = [];
+
+  if (outOfTime || isSlow) {
+    recommendations.push({
+      type: 'TIME_MANAGEMENT',
+      description: outOfTime
+        ? `You left ${result.skippedQuestions} questions unanswered when time ran out.`
+        : 'You took considerably longer per question than other students.',
+      action: 'Take timed practice tests and move on from questions that take too long',
+      resources: [],
+    });
+  }
+
+  for (const topic of weakTopics) {
+    if (recommendations.length >= MAX_RECOMMENDATIONS) {
+      break;
+    }
+
+    const topicTimes = questionTimes.filter(time => time.subject === topic.subject && time.topic === topic.topic);
+    const yourTime = average(topicTimes.map(time => time.timeTaken)) ?? 0;
+    const peerTime = average(topicTimes.flatMap(time => (time.averageTime !== null ? [time.averageTime] : [])));
+    const label = topicLabel(topic);
+
+    const recommendation: Omit<AnalyticsRecommendation, 'resources'> = topic.attemptedQuestions > 0 && topic.accuracy < WEAKNESS_THRESHOLD
+      ? peerTime !== null && yourTime > peerTime
+        ? {
+          type: 'CONCEPT_CLARITY',
+          description: `You spent longer than average on ${label} and answered ${topic.accuracy}% correctly.`,
+          action: `Revisit the core concepts of ${label}`,
+        }
+        : {
+          type: 'STUDY_MORE',
+          description: `You answered ${topic.accuracy}% of ${label} questions correctly.`,
+          action: `Study ${label} before your next test`,
+        }
+      : {
+        type: 'PRACTICE_MORE',
+        description: `You attempted ${topic.attemptedQuestions} of ${topic.totalQuestions} ${label} questions.`,
+        action: `Practice more ${label} questions`,
+      };
+
+    recommendations.push({
+      ...recommendation,
+      subject: topic.subject,
+      ...(topic.topic !== UNCATEGORIZED && { topic: topic.topic }),
+      resources: lessons.get(topic.topic.toLowerCase()) ?? [],
+    });
+  }
+
+  return {
+    result,
+    analytics: {
+      attemptId,
+      subjectWiseResults: result.subjectWiseResults,
+      topicWiseResults: result.topicWiseResults,
+      subtopicWiseResults,
+      timeDistribution,
+      questionTimes,
+      difficultyAnalysis,
+      attemptRateAnalysis,
+      comparisonWithPeers: peerComparison,
+      recommendations,
+      strengths,
+      weaknesses,
+      improvementAreas,
+    },
+  };
+}
@@ -0,0 +1,332 @@
+/**
+ * Test Result Builder
+ *
+ * Assembles the TestResult and PeerComparison payloads for a completed
+ * attempt from stored question attempts and the test series ranking pool.
+ */
+
+import { prisma } from './prisma';
+import { getAttemptAbility } from './adaptive';
+import { calculatePercentile, getProjectedRank, getRankingPool, getRankingScore } from './rankings';
+import { filterServedQuestions, parseQuestionsOrder } from './randomization';
+import { getSectionIndex, type SectionSettings } from './test-sections';
+import type {
+  PeerComparison,
+  SectionWiseResult,
+  SubjectWiseResult,
+  TestGrade,
+  TestResult,
+  TopicWiseResult,
+} from '@/types/exam';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ResultQuestion {
+  id: string;
+  subject: string | null;
+  topic: string | null;
+  marks: number;
+}
+
+export interface ResultAnswer {
+  questionId: string;
+  isSkipped: boolean;
+  isCorrect: boolean;
+  marksAwarded: number;
+  timeTaken: number; // in seconds
+}
+
+export interface AttemptResultPayload {
+  result: TestResult;
+  peerComparison: PeerComparison;
+}
+
+// Label used for questions without a subject or topic
+export const UNCATEGORIZED = 'General';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export const roundTwo = (value: number): number => Math.round(value * 100) / 100;
+
+export const percentOf = (part: number, whole: number): number =>
+  whole > 0 ? roundTwo((part / whole) * 100) : 0;
+
+/**
+ * Letter grade for a percentage score
+ */
+export function getTestGrade(percentage: number): TestGrade {
+  if (percentage >= 90) return 'A+';
+  if (percentage >= 80) return 'A';
+  if (percentage >= 70) return 'B+';
+  if (percentage >= 60) return 'B';
+  if (percentage >= 50) return 'C+';
+  if (percentage >= 40) return 'C';
+  if (percentage >= 33) return 'D';
+  return 'F';
+}
+
+/**
+ * Group question-level results by a key (subject, or subject + topic)
+ */
+export function groupResults<Q extends ResultQuestion>(
+  questions: Q[],
+  answers: Map<string, ResultAnswer>,
+  keyOf: (question: Q) => string
+) {
+  const groups = new Map<string, {
+    question: Q;
+    totalQuestions: number;
+    attemptedQuestions: number;
+    correctAnswers: number;
+    score: number;
+    maxScore: number;
+    timeTaken: number;
+  }>();
+
+  for (const question of questions) {
+    const key = keyOf(question);
+    const group = groups.get(key) ?? {
+      question,
+      totalQuestions: 0,
+      attemptedQuestions: 0,
+      correctAnswers: 0,
+      score: 0,
+      maxScore: 0,
+      timeTaken: 0,
+    };
+
+    const answer = answers.get(question.id);
+    group.totalQuestions++;
+    group.maxScore += question.marks;
+
+    if (answer) {
+      group.score += answer.marksAwarded;
+      group.timeTaken += answer.timeTaken;
+      if (!answer.isSkipped) group.attemptedQuestions++;
+      if (answer.isCorrect) group.correctAnswers++;
+    }
+
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values());
+}
+
+export const subjectOf = (question: ResultQuestion) => question.subject ?? UNCATEGORIZED;
+
+/**
+ * Section-wise results of an attempt with sectional cut-off pass/fail
+ */
+export function buildSectionResults(
+  sections: SectionSettings[],
+  questions: (ResultQuestion & { sectionId: string | null })[],
+  answers: Map<string, ResultAnswer>
+): SectionWiseResult[] {
+  if (sections.length === 0) {
+    return [];
+  }
+
+  const groups = new Map(
+    groupResults(questions, answers, question => String(getSectionIndex(question.sectionId, sections)))
+      .map(group => [getSectionIndex(group.question.sectionId, sections), group])
+  );
+
+  return sections.map((section, index) => {
+    const group = groups.get(index);
+    const score = roundTwo(group?.score ?? 0);
+    const cutoffMarks = section.cutoffMarks !== null ? Number(section.cutoffMarks) : null;
+
+    return {
+      sectionId: section.id,
+      title: section.title,
+      order: section.order,
+      totalQuestions: group?.totalQuestions ?? 0,
+      attemptedQuestions: group?.attemptedQuestions ?? 0,
+      correctAnswers: group?.correctAnswers ?? 0,
+      score,
+      maxScore: roundTwo(group?.maxScore ?? 0),
+      accuracy: percentOf(group?.correctAnswers ?? 0, group?.attemptedQuestions ?? 0),
+      timeTaken: roundTwo((group?.timeTaken ?? 0) / 60),
+      cutoffMarks,
+      isCleared: cutoffMarks === null || score >= cutoffMarks,
+    };
+  });
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Build the result and peer comparison for a completed attempt
+ */
+export async function buildAttemptResult(attemptId: string): Promise<AttemptResultPayload | null> {
+  const attempt = await prisma.testAttempt.findUnique({
+    where: { id: attemptId },
+    include: {
+      questionAttempts: true,
+      testSeries: {
+        include: {
+          questions: {
+            select: { id: true, subject: true, topic: true, marks: true, sectionId: true, isActive: true },
+          },
+          sections: { orderBy: { order: 'asc' } },
+        },
+      },
+    },
+  });
+
+  if (!attempt || !attempt.completedAt) {
+    return null;
+  }
+
+  const { testSeries } = attempt;
+  // Attempts are reported on the questions they were served
+  const questions = filterServedQuestions(testSeries.questions, parseQuestionsOrder(attempt.questionsOrder))
+    .map(q => ({ ...q, marks: Number(q.marks) }));
+  const answers = new Map<string, ResultAnswer>(attempt.questionAttempts.map(qa => [qa.questionId, {
+    questionId: qa.questionId,
+    isSkipped: qa.isSkipped,
+    isCorrect: qa.isCorrect,
+    marksAwarded: Number(qa.marksAwarded),
+    timeTaken: qa.timeTaken,
+  }]));
+
+  const score = Number(attempt.score);
+  const percentage = Number(attempt.percentage);
+  const negativeMarks = roundTwo(Array.from(answers.values())
+    .reduce((sum, answer) => sum + Math.max(0, -answer.marksAwarded), 0));
+
+  // Ranking pool, with the attempt itself projected in when it is a retake
+  const pool = (await getRankingPool(testSeries.id)).map(p => ({
+    id: p.id,
+    score: p.rankingScore,
+    timeSpent: p.timeSpent,
+  }));
+  const inPool = pool.some(p => p.id === attempt.id);
+  const self = { id: attempt.id, score: getRankingScore(attempt, testSeries.isAdaptive), timeSpent: attempt.timeSpent };
+  const poolScores = pool.map(p => p.score);
+  const comparisonScores = inPool ? poolScores : [...poolScores, self.score];
+
+  const rank = attempt.rank ?? getProjectedRank(self, pool);
+  const percentile = attempt.percentile !== null
+    ? Number(attempt.percentile)
+    : calculatePercentile(self.score, comparisonScores);
+
+  const subjectWiseResults: SubjectWiseResult[] = groupResults(questions, answers, subjectOf)
+    .map(group => ({
+      subject: subjectOf(group.question),
+      totalQuestions: group.totalQuestions,
+      attemptedQuestions: group.attemptedQuestions,
+      correctAnswers: group.correctAnswers,
+      score: roundTwo(group.score),
+      maxScore: roundTwo(group.maxScore),
+      accuracy: percentOf(group.correctAnswers, group.attemptedQuestions),
+      timeTaken: roundTwo(group.timeTaken / 60),
+    }));
+
+  const topicWiseResults: TopicWiseResult[] = groupResults(
+    questions,
+    answers,
+    q => `${subjectOf(q)}::${q.topic ?? UNCATEGORIZED}`
+  ).map(group => ({
+    topic: group.question.topic ?? UNCATEGORIZED,
+    subject: subjectOf(group.question),
+    totalQuestions: group.totalQuestions,
+    attemptedQuestions: group.attemptedQuestions,
+    correctAnswers: group.correctAnswers,
+    score: roundTwo(group.score),
+    maxScore: roundTwo(group.maxScore),
+    accuracy: percentOf(group.correctAnswers, group.attemptedQuestions),
+  }));
+
+  const ability = getAttemptAbility(attempt);
+
+  const result: TestResult = {
+    attemptId: attempt.id,
+    userId: attempt.userId,
+    testSeriesId: testSeries.id,
+    score,
+    maxScore: testSeries.isAdaptive ? roundTwo(questions.reduce((sum, q) => sum + q.marks, 0)) : testSeries.totalMarks,
+    percentage,
+    rank,
+    totalUsers: inPool ? pool.length : pool.length + 1,
+    timeTaken: roundTwo(attempt.timeSpent / 60),
+    questionsAttempted: attempt.attemptedQuestions,
+    correctAnswers: attempt.correctAnswers,
+    incorrectAnswers: attempt.incorrectAnswers,
+    skippedQuestions: attempt.skippedQuestions,
+    accuracy: percentOf(attempt.correctAnswers, attempt.attemptedQuestions),
+    negativeMarks,
+    isPassed: attempt.isPassed,
+    grade: getTestGrade(percentage),
+    percentile,
+    subjectWiseResults,
+    topicWiseResults,
+    sectionWiseResults: buildSectionResults(testSeries.sections, questions, answers),
+    completedAt: attempt.completedAt,
+    ...(ability && { ability }),
+  };
+
+  const peerComparison: PeerComparison = {
+    yourScore: score,
+    averageScore: testSeries.averageScore !== null ? Number(testSeries.averageScore) : score,
+    topScore: Math.max(score, ...poolScores),
+    yourPercentile: percentile,
+    betterThanPercent: percentOf(comparisonScores.filter(value => value < score).length, comparisonScores.length),
+    subjectComparison: await buildSubjectComparison(questions, answers, pool.map(p => p.id), inPool),
+  };
+
+  return { result, peerComparison };
+}
+
+/**
+ * Compare the attempt's subject scores with the ranking pool
+ */
+async function buildSubjectComparison(
+  questions: ResultQuestion[],
+  answers: Map<string, ResultAnswer>,
+  poolAttemptIds: string[],
+  inPool: boolean
+): Promise<PeerComparison['subjectComparison']> {
+  const subjectByQuestion = new Map(questions.map(q => [q.id, subjectOf(q)]));
+  const subjects = Array.from(new Set(subjectByQuestion.values()));
+
+  const poolAnswers = await prisma.questionAttempt.findMany({
+    where: { testAttemptId: { in: poolAttemptIds } },
+    select: { testAttemptId: true, questionId: true, marksAwarded: true },
+  });
+
+  // subject -> attempt -> score
+  const poolScores = new Map<string, Map<string, number>>(subjects.map(s => [s, new Map()]));
+  for (const subject of subjects) {
+    const scores = poolScores.get(subject)!;
+    poolAttemptIds.forEach(id => scores.set(id, 0));
+  }
+  for (const answer of poolAnswers) {
+    const scores = poolScores.get(subjectByQuestion.get(answer.questionId) ?? UNCATEGORIZED);
+    if (scores) {
+      scores.set(answer.testAttemptId, (scores.get(answer.testAttemptId) ?? 0) + Number(answer.marksAwarded));
+    }
+  }
+
+  return subjects.map(subject => {
+    const yourScore = roundTwo(Array.from(answers.values())
+      .filter(answer => subjectByQuestion.get(answer.questionId) === subject)
+      .reduce((sum, answer) => sum + answer.marksAwarded, 0));
+
+    const scores = Array.from(poolScores.get(subject)!.values());
+    const comparison = inPool ? scores : [...scores, yourScore];
+
+    return {
+      subject,
+      yourScore,
+      averageScore: roundTwo(comparison.reduce((sum, value) => sum + value, 0) / comparison.length),
+      percentile: calculatePercentile(yourScore, comparison),
+    };
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * Test Sections
+ *
+ * Sectional test series (CAT, IBPS PO style): ordered sections, each with its
+ * own duration, question count, negative marking and optional cut-off.
+ * Sections are taken strictly in order and a closed section cannot be
+ * revisited; the timing itself lives with the attempt lifecycle in
+ * exam-attempt.ts.
+ *
+ * Questions left without a section in a sectional series belong to the last one.
+ */
+
+import type { Exam, TestSection, TestSeries } from '@prisma/client';
+import { prisma } from './prisma';
+import { getMarkingScheme, type MarkingScheme } from './scoring';
+import type { TestSectionLayoutFormData } from './validations/exam';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SectionSettings = Pick<
+  TestSection,
+  'id' | 'title' | 'order' | 'duration' | 'questionCount' | 'negativeMarking' | 'negativeMarkingRatio' | 'cutoffMarks'
+>;
+
+export type SectionStatus = 'COMPLETED' | 'IN_PROGRESS' | 'LOCKED';
+
+/**
+ * Section as shown to a student during an attempt
+ */
+export interface AttemptSection {
+  id: string;
+  title: string;
+  order: number;
+  duration: number; // in minutes
+  questionCount: number;
+  status: SectionStatus;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Position of a question's section; unassigned questions go to the last section
+ */
+export function getSectionIndex(sectionId: string | null, sections: Pick<TestSection, 'id'>[]): number {
+  const index = sections.findIndex(section => section.id === sectionId);
+  return index >= 0 ? index : sections.length - 1;
+}
+
+/**
+ * Questions of the section at an index
+ */
+export function getSectionQuestions<Q extends { sectionId: string | null }>(
+  questions: Q[],
+  sections: Pick<TestSection, 'id'>[],
+  index: number
+): Q[] {
+  return questions.filter(question => getSectionIndex(question.sectionId, sections) === index);
+}
+
+/**
+ * Sections with their status for the student's current position
+ */
+export function toAttemptSections(sections: SectionSettings[], currentIndex: number): AttemptSection[] {
+  return sections.map((section, index) => ({
+    id: section.id,
+    title: section.title,
+    order: section.order,
+    duration: section.duration,
+    questionCount: section.questionCount,
+    status: index < currentIndex ? 'COMPLETED' : index === currentIndex ? 'IN_PROGRESS' : 'LOCKED',
+  }));
+}
+
+/**
+ * Marking scheme for a question in a section; section settings override the
+ * test series, and the exam can still switch negative marking off
+ */
+export function getSectionMarkingScheme(
+  exam: Pick<Exam, 'allowNegativeMarking'>,
+  testSeries: Pick<TestSeries, 'negativeMarking' | 'negativeMarkingRatio'>,
+  section: Pick<TestSection, 'negativeMarking' | 'negativeMarkingRatio'> | null | undefined
+): MarkingScheme {
+  return getMarkingScheme(exam, {
+    negativeMarking: section?.negativeMarking ?? testSeries.negativeMarking,
+    negativeMarkingRatio: section?.negativeMarkingRatio ?? testSeries.negativeMarkingRatio,
+  });
+}
+
+// =============================================================================
+// RESULTS
+// =============================================================================
+
+/**
+ * Check that an attempt clears every sectional cut-off
+ */
+export function clearsSectionCutoffs(
+  sections: Pick<TestSection, 'id' | 'cutoffMarks'>[],
+  answers: { sectionId: string | null; marksAwarded: number }[]
+): boolean {
+  const scores = sections.map(() => 0);
+
+  for (const answer of answers) {
+    const index = getSectionIndex(answer.sectionId, sections);
+    if (index >= 0) {
+      scores[index]! += answer.marksAwarded;
+    }
+  }
+
+  // Stored marks have two decimal places
+  return sections.every((section, index) =>
+    section.cutoffMarks === null || Math.round(scores[index]! * 100) / 100 >= Number(section.cutoffMarks)
+  );
+}
+
+// =============================================================================
+// LAYOUT
+// =============================================================================
+
+/**
+ * Replace the sections of a test series and assign their questions. The
+ * series duration and question count become the section totals.
+ */
+export async function replaceTestSections(
+  testSeriesId: string,
+  layout: TestSectionLayoutFormData['sections']
+): Promise<TestSection[]> {
+  return prisma.$transaction(async (tx) => {
+    // Questions of removed sections are unassigned by the foreign key
+    await tx.testSection.deleteMany({ where: { testSeriesId } });
+
+    const sections: TestSection[] = [];
+
+    for (const [order, { questionIds, ...settings }] of layout.entries()) {
+      const section = await tx.testSection.create({
+        data: {
+          testSeriesId,
+          order,
+          title: settings.title,
+          duration: settings.duration,
+          questionCount: questionIds.length,
+          negativeMarking: settings.negativeMarking ?? null,
+          negativeMarkingRatio: settings.negativeMarkingRatio ?? null,
+          cutoffMarks: settings.cutoffMarks ?? null,
+        },
+      });
+
+      await tx.question.updateMany({
+        where: { id: { in: questionIds }, testSeriesId },
+        data: { sectionId: section.id },
+      });
+
+      sections.push(section);
+    }
+
+    if (sections.length > 0) {
+      await tx.testSeries.update({
+        where: { id: testSeriesId },
+        data: {
+          duration: sections.reduce((sum, section) => sum + section.duration, 0),
+          totalQuestions: sections.reduce((sum, section) => sum + section.questionCount, 0),
+        },
+      });
+    }
+
+    return sections;
+  });
+}
@@ -38,7 +38,14 @@ export const UPLOAD_CONFIG = {
   allowedTypes: {
     images: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
     videos: ['video/mp4', 'video/webm', 'video/ogg', 'video/avi'],
-    documents: ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    documents: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/csv',
+      'text/plain',
+      'application/vnd.ms-excel', // CSV as reported by some browsers
+    ],
     audio: ['audio/mpeg', 'audio/wav', 'audio/ogg'],
   },
   imageOptimization: {
@@ -373,6 +380,35 @@ export async function uploadFileToS3(
   }
 }
 
+/**
+ * Object key for a URL returned by uploadBufferToS3, or null for other URLs
+ */
+export function getFileKeyFromUrl(url: string): string | null {
+  const prefix = `https://${UPLOAD_CONFIG.bucket}.s3.${s3Config.region}.amazonaws.com/`;
+  return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length)) : null;
+}
+
+/**
+ * Download a file from S3 into memory
+ */
+export async function downloadFileFromS3(key: string): Promise<Buffer> {
+  try {
+    const command = new GetObjectCommand({
+      Bucket: UPLOAD_CONFIG.bucket,
+      Key: key,
+    });
+
+    const response = await s3Client.send(command);
+    if (!response.Body) {
+      throw new Error('Empty response body');
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  } catch (error) {
+    throw new Error(`S3 download failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Delete file from S3
  */
@@ -252,6 +252,19 @@ export const createLessonSchema = z.object({
     .max(20, 'Cannot have more than 20 resources per lesson')
     .optional(),
   
+  // Topic tags used to recommend the lesson after tests
+  topics: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, 'Topic cannot be empty')
+        .max(100, 'Topic must not exceed 100 characters')
+        .transform((topic) => topic.toLowerCase())
+    )
+    .max(20, 'Cannot have more than 20 topics per lesson')
+    .optional(),
+  
   quiz: z
     .object({
       questions: z
@@ -27,7 +27,7 @@ const scoreSchema = z
 // Question ID validation
 const questionIdSchema = z
   .string()
-  .uuid('Invalid question ID');
+  .cuid('Invalid question ID');
 
 // =============================================================================
 // EXAM SCHEMAS
@@ -158,6 +158,12 @@ export const createExamSchema = z.object({
     screen: z.boolean().default(false),
     audio: z.boolean().default(false),
     tabSwitching: z.boolean().default(false),
+    violationLimit: z
+      .number()
+      .int('Violation limit must be a whole number')
+      .min(1, 'Violation limit must be at least 1')
+      .max(50, 'Violation limit cannot exceed 50')
+      .optional(), // attempts are submitted once reached
   }).optional(),
   
   accessibility: z.object({
@@ -208,7 +214,7 @@ export const createExamSchema = z.object({
 
 // Exam update schema
 export const updateExamSchema = createExamSchema.partial().extend({
-  id: z.string().uuid('Invalid exam ID'),
+  id: z.string().cuid('Invalid exam ID'),
 });
 
 // =============================================================================
@@ -255,7 +261,7 @@ export const multipleChoiceQuestionSchema = z.object({
     .max(5, 'Negative marks cannot exceed 5')
     .optional(),
   
-  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD'], {
+  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD', 'VERY_HARD'], {
     errorMap: () => ({ message: 'Please select a valid difficulty level' }),
   }),
   
@@ -280,7 +286,7 @@ export const multipleChoiceQuestionSchema = z.object({
     .url('Invalid image URL')
     .optional(),
   
-  language: z.enum(['ENGLISH', 'HINDI'], {
+  language: z.enum(['ENGLISH', 'HINDI', 'TAMIL', 'TELUGU', 'BENGALI', 'GUJARATI', 'MARATHI', 'KANNADA'], {
     errorMap: () => ({ message: 'Please select a valid language' }),
   }),
   
@@ -346,12 +352,12 @@ export const multipleSelectQuestionSchema = z.object({
     .max(10, 'Negative marks cannot exceed 10')
     .optional(),
   
-  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']),
+  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD', 'VERY_HARD']),
   subject: z.string().min(2).max(100),
   topic: z.string().min(2).max(100).optional(),
   explanation: z.string().max(2000).optional(),
   image: z.string().url().optional(),
-  language: z.enum(['ENGLISH', 'HINDI']),
+  language: z.enum(['ENGLISH', 'HINDI', 'TAMIL', 'TELUGU', 'BENGALI', 'GUJARATI', 'MARATHI', 'KANNADA']),
   tags: z.array(z.string().min(1).max(30)).max(5).optional(),
   reference: z.string().max(500).optional(),
   estimatedTime: z.number().min(15).max(900).optional(),
@@ -383,11 +389,11 @@ export const trueFalseQuestionSchema = z.object({
     .max(3, 'Negative marks cannot exceed 3')
     .optional(),
   
-  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']),
+  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD', 'VERY_HARD']),
   subject: z.string().min(2).max(100),
   topic: z.string().min(2).max(100).optional(),
   image: z.string().url().optional(),
-  language: z.enum(['ENGLISH', 'HINDI']),
+  language: z.enum(['ENGLISH', 'HINDI', 'TAMIL', 'TELUGU', 'BENGALI', 'GUJARATI', 'MARATHI', 'KANNADA']),
   tags: z.array(z.string().min(1).max(30)).max(5).optional(),
   reference: z.string().max(500).optional(),
   estimatedTime: z.number().min(5).max(300).optional(),
@@ -432,37 +438,343 @@ export const numericalQuestionSchema = z.object({
     .max(10, 'Negative marks cannot exceed 10')
     .optional(),
   
-  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']),
+  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD', 'VERY_HARD']),
   subject: z.string().min(2).max(100),
   topic: z.string().min(2).max(100).optional(),
   image: z.string().url().optional(),
-  language: z.enum(['ENGLISH', 'HINDI']),
+  language: z.enum(['ENGLISH', 'HINDI', 'TAMIL', 'TELUGU', 'BENGALI', 'GUJARATI', 'MARATHI', 'KANNADA']),
+  tags: z.array(z.string().min(1).max(30)).max(5).optional(),
+  reference: z.string().max(500).optional(),
+  estimatedTime: z.number().min(10).max(600).optional(),
+});
+
+// Fill in the blanks question schema
+export const fillBlanksQuestionSchema = z.object({
+  type: z.literal('FILL_BLANKS'),
+  question: z
+    .string()
+    .min(10, 'Question must be at least 10 characters long')
+    .max(2000, 'Question must not exceed 2000 characters'),
+  
+  // Accepted answers per blank, in order of appearance
+  blanks: z
+    .array(
+      z
+        .array(z.string().min(1, 'Accepted answer cannot be empty').max(200))
+        .min(1, 'Each blank needs at least one accepted answer')
+    )
+    .min(1, 'Question must have at least 1 blank')
+    .max(10, 'Question cannot have more than 10 blanks'),
+  
+  partialMarking: z.boolean().default(false),
+  
+  marks: z
+    .number()
+    .min(0.25, 'Marks must be at least 0.25')
+    .max(15, 'Marks cannot exceed 15'),
+  
+  negativeMarks: z.number().min(0).max(10).optional(),
+  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD', 'VERY_HARD']),
+  subject: z.string().min(2).max(100),
+  topic: z.string().min(2).max(100).optional(),
+  explanation: z.string().max(2000).optional(),
+  image: z.string().url().optional(),
+  language: z.enum(['ENGLISH', 'HINDI', 'TAMIL', 'TELUGU', 'BENGALI', 'GUJARATI', 'MARATHI', 'KANNADA']),
   tags: z.array(z.string().min(1).max(30)).max(5).optional(),
   reference: z.string().max(500).optional(),
   estimatedTime: z.number().min(10).max(600).optional(),
 });
 
+// Descriptive (manually graded) question schema
+export const descriptiveQuestionSchema = z.object({
+  type: z.literal('DESCRIPTIVE'),
+  question: z
+    .string()
+    .min(10, 'Question must be at least 10 characters long')
+    .max(5000, 'Question must not exceed 5000 characters'),
+  
+  // Reference answer shown to graders
+  modelAnswer: z
+    .string()
+    .max(10000, 'Model answer must not exceed 10000 characters')
+    .optional(),
+  
+  marks: z
+    .number()
+    .min(1, 'Marks must be at least 1')
+    .max(50, 'Marks cannot exceed 50'),
+  
+  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD', 'VERY_HARD']),
+  subject: z.string().min(2).max(100),
+  topic: z.string().min(2).max(100).optional(),
+  explanation: z.string().max(5000).optional(),
+  image: z.string().url().optional(),
+  language: z.enum(['ENGLISH', 'HINDI', 'TAMIL', 'TELUGU', 'BENGALI', 'GUJARATI', 'MARATHI', 'KANNADA']),
+  tags: z.array(z.string().min(1).max(30)).max(5).optional(),
+  reference: z.string().max(500).optional(),
+  estimatedTime: z.number().min(60).max(3600).optional(),
+});
+
 // Union of all question types
 export const questionSchema = z.discriminatedUnion('type', [
   multipleChoiceQuestionSchema,
   multipleSelectQuestionSchema,
   trueFalseQuestionSchema,
   numericalQuestionSchema,
+  fillBlanksQuestionSchema,
+  descriptiveQuestionSchema,
 ]);
 
 // Question creation schema
-export const createQuestionSchema = questionSchema.extend({
-  examId: z.string().uuid('Invalid exam ID').optional(),
-  order: z
+export const createQuestionSchema = questionSchema.and(z.object({
+  testSeriesId: z.string().cuid('Invalid test series ID'),
+}));
+
+// Question update schema - the type is required so the answer key can be validated.
+// Defaults are dropped so omitted fields keep their stored values.
+export const updateQuestionSchema = z.discriminatedUnion('type', [
+  multipleChoiceQuestionSchema.partial().required({ type: true }),
+  multipleSelectQuestionSchema.partial().required({ type: true }).extend({ partialMarking: z.boolean().optional() }),
+  trueFalseQuestionSchema.partial().required({ type: true }),
+  numericalQuestionSchema.partial().required({ type: true }),
+  fillBlanksQuestionSchema.partial().required({ type: true }).extend({ partialMarking: z.boolean().optional() }),
+  descriptiveQuestionSchema.partial().required({ type: true }),
+]);
+
+// Question bank filter schema
+export const questionBankQuerySchema = z.object({
+  page: z.string().optional(),
+  limit: z.string().optional(),
+  search: z.string().optional(),
+  testSeriesId: z.string().optional(),
+  type: z.enum(['MULTIPLE_CHOICE', 'SINGLE_CHOICE', 'TRUE_FALSE', 'DESCRIPTIVE', 'NUMERICAL', 'FILL_BLANKS']).optional(),
+  subject: z.string().optional(),
+  topic: z.string().optional(),
+  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD', 'VERY_HARD']).optional(),
+  language: z.enum(['ENGLISH', 'HINDI', 'TAMIL', 'TELUGU', 'BENGALI', 'GUJARATI', 'MARATHI', 'KANNADA']).optional(),
+  tags: z.string().optional(), // comma-separated, matches any
+  verification: z.enum(['verified', 'unverified', 'all']).default('all'),
+  mine: z.enum(['true', 'false']).optional(),
+  includeInactive: z.enum(['true', 'false']).optional(),
+});
+
+// Question export schema - the bank filters select the questions
+export const questionExportSchema = questionBankQuerySchema.extend({
+  format: z.enum(['qti', 'pdf']),
+  document: z.enum(['paper', 'answer_key']).default('paper'), // PDF only
+});
+
+// Question review queue filter schema
+export const questionReviewQueueSchema = z.object({
+  page: z.string().optional(),
+  limit: z.string().optional(),
+  testSeriesId: z.string().optional(),
+  subject: z.string().optional(),
+});
+
+// Question review decision schema
+export const reviewQuestionSchema = z.object({
+  version: z.number().int().min(1, 'Invalid revision'),
+  
+  decision: z.enum(['APPROVE', 'REJECT']),
+  
+  comment: z
+    .string()
+    .max(2000, 'Comment must not exceed 2000 characters')
+    .optional(),
+}).refine(
+  (data) => data.decision === 'APPROVE' || !!data.comment?.trim(),
+  {
+    message: 'Explain what needs to change when rejecting a question',
+    path: ['comment'],
+  }
+);
+
+// Question issue report schema (student)
+export const reportQuestionIssueSchema = z.object({
+  questionId: z.string().cuid('Invalid question ID'),
+  
+  type: z.enum(['WRONG_ANSWER', 'TYPO', 'UNCLEAR_QUESTION', 'TECHNICAL_ISSUE', 'OTHER']),
+  
+  description: z
+    .string()
+    .min(10, 'Please describe the issue in at least 10 characters')
+    .max(2000, 'Description must not exceed 2000 characters'),
+});
+
+// Question issue triage filter schema
+export const questionIssueQuerySchema = z.object({
+  page: z.string().optional(),
+  limit: z.string().optional(),
+  status: z.enum(['PENDING', 'RESOLVED', 'REJECTED', 'ALL']).default('PENDING'),
+  type: z.enum(['WRONG_ANSWER', 'TYPO', 'UNCLEAR_QUESTION', 'TECHNICAL_ISSUE', 'OTHER']).optional(),
+  testSeriesId: z.string().optional(),
+  questionId: z.string().optional(),
+});
+
+// Question issue triage decision schema
+export const resolveQuestionIssueSchema = z.object({
+  status: z.enum(['RESOLVED', 'REJECTED']),
+  
+  note: z
+    .string()
+    .max(2000, 'Note must not exceed 2000 characters')
+    .optional(),
+});
+
+// Fix a question's answer key and re-grade every answer to it
+export const regradeQuestionSchema = updateQuestionSchema.and(z.object({
+  note: z
+    .string()
+    .max(2000, 'Note must not exceed 2000 characters')
+    .optional(), // sent to students whose reports are resolved
+}));
+
+// Question analytics job schema
+export const questionAnalyticsJobSchema = z.object({
+  testSeriesId: z.string().cuid('Invalid test series ID').optional(), // all series when omitted
+});
+
+// Flagged question listing schema
+export const flaggedQuestionsQuerySchema = z.object({
+  page: z.string().optional(),
+  limit: z.string().optional(),
+  testSeriesId: z.string().optional(),
+  subject: z.string().optional(),
+  mine: z.enum(['true', 'false']).optional(),
+});
+
+// Section of a sectional test series
+const testSectionSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Section title is required')
+    .max(100, 'Section title must not exceed 100 characters'),
+  duration: z
+    .number()
+    .int('Section duration must be a whole number of minutes')
+    .min(1, 'Section duration must be at least 1 minute')
+    .max(300, 'Section duration cannot exceed 300 minutes'),
+  negativeMarking: z.boolean().optional(), // test series setting when omitted
+  negativeMarkingRatio: z.number().min(0).max(1).optional(),
+  cutoffMarks: z.number().min(0, 'Cut-off marks must be non-negative').optional(),
+  questionIds: z
+    .array(z.string().cuid('Invalid question ID'))
+    .min(1, 'A section needs at least one question'),
+});
+
+// Section layout schema; an empty list makes the test series non-sectional
+export const testSectionLayoutSchema = z.object({
+  sections: z
+    .array(testSectionSchema)
+    .max(10, 'A test cannot have more than 10 sections'),
+}).refine(
+  ({ sections }) => {
+    const questionIds = sections.flatMap(section => section.questionIds);
+    return new Set(questionIds).size === questionIds.length;
+  },
+  { message: 'A question can only be in one section', path: ['sections'] }
+);
+
+// Move on to the next section of a sectional attempt
+export const advanceSectionSchema = z.object({
+  fromSection: z.number().int().min(0), // the section being finished; repeated calls are ignored
+});
+
+// Live test schedule schema; the common end time follows from the test duration
+export const liveTestScheduleSchema = z.object({
+  startTime: z.string().datetime('Invalid start time format'),
+  registrationOpensAt: z.string().datetime('Invalid registration opening time').optional(), // now when omitted
+  registrationClosesAt: z.string().datetime('Invalid registration closing time').optional(), // the start time when omitted
+  maxParticipants: z.number().int().min(1, 'At least one participant must be allowed').optional(),
+}).refine(
+  data => !data.registrationClosesAt || new Date(data.registrationClosesAt) <= new Date(data.startTime),
+  { message: 'Registration must close by the start time', path: ['registrationClosesAt'] }
+).refine(
+  data => !data.registrationOpensAt ||
+    new Date(data.registrationOpensAt) < new Date(data.registrationClosesAt ?? data.startTime),
+  { message: 'Registration must open before it closes', path: ['registrationOpensAt'] }
+);
+
+// Live leaderboard stream query schema
+export const liveLeaderboardQuerySchema = z.object({
+  limit: z.string().optional(), // top entries to stream, 100 by default
+});
+
+// Adaptive mode settings; without a question count every question may be served
+export const adaptiveSettingsSchema = z.object({
+  isAdaptive: z.boolean(),
+  
+  questionCount: z
+    .number()
+    .int('Question count must be a whole number')
+    .min(5, 'Adaptive tests must serve at least 5 questions')
+    .max(200, 'Adaptive tests cannot serve more than 200 questions')
+    .optional(),
+  
+  // Standard error of the ability estimate, in logits, at which the test stops
+  targetError: z
     .number()
-    .min(1, 'Question order must be at least 1')
-    .int('Question order must be a whole number')
+    .min(0.2, 'Target error must be at least 0.2')
+    .max(1, 'Target error must not exceed 1')
     .optional(),
 });
 
-// Question update schema
-export const updateQuestionSchema = questionSchema.partial().extend({
-  id: questionIdSchema,
+// Share of a custom test's questions at one difficulty level, in percent
+const difficultyShareSchema = z.number().int().min(0).max(100).default(0);
+
+// Custom practice test a student builds from the question bank
+export const customTestSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(3, 'Title must be at least 3 characters')
+    .max(200, 'Title must not exceed 200 characters')
+    .optional(),
+  subjects: z
+    .array(z.string().trim().min(1))
+    .min(1, 'Pick at least one subject')
+    .max(10, 'A custom test cannot cover more than 10 subjects'),
+  topics: z.array(z.string().trim().min(1)).max(50).optional(), // every topic of the subjects when omitted
+  difficultyMix: z.object({
+    EASY: difficultyShareSchema,
+    MEDIUM: difficultyShareSchema,
+    HARD: difficultyShareSchema,
+    VERY_HARD: difficultyShareSchema,
+  }).refine(
+    mix => mix.EASY + mix.MEDIUM + mix.HARD + mix.VERY_HARD === 100,
+    { message: 'Difficulty shares must add up to 100' }
+  ).optional(), // any difficulty when omitted
+  questionCount: z
+    .number()
+    .int()
+    .min(5, 'A custom test needs at least 5 questions')
+    .max(200, 'A custom test cannot have more than 200 questions'),
+  duration: z
+    .number()
+    .int('Duration must be a whole number of minutes')
+    .min(5, 'Duration must be at least 5 minutes')
+    .max(300, 'Duration cannot exceed 300 minutes'),
+});
+
+// Bulk question import schema
+export const importQuestionsSchema = z.object({
+  testSeriesId: z.string().cuid('Invalid test series ID'),
+  fileKey: z.string().min(1, 'File key is required'), // key returned by /api/upload
+  format: z.enum(['CSV', 'AIKEN', 'GIFT']).optional(), // inferred from the file extension when omitted
+  dryRun: z.boolean().default(true),
+  skipInvalid: z.boolean().default(false),
+  // Applied to fields the file does not provide
+  defaults: z.object({
+    subject: z.string().min(2).max(100).optional(),
+    topic: z.string().min(2).max(100).optional(),
+    difficulty: z.enum(['EASY', 'MEDIUM', 'HARD', 'VERY_HARD']).optional(),
+    language: z.enum(['ENGLISH', 'HINDI', 'TAMIL', 'TELUGU', 'BENGALI', 'GUJARATI', 'MARATHI', 'KANNADA']).optional(),
+    marks: z.number().min(0.25).max(50).optional(),
+    negativeMarks: z.number().min(0).max(10).optional(),
+    tags: z.array(z.string().min(1).max(30)).max(5).optional(),
+  }).optional(),
 });
 
 // =============================================================================
@@ -499,11 +811,25 @@ const answerSchema = z.discriminatedUnion('type', [
     timeSpent: z.number().min(0).optional(),
     bookmarked: z.boolean().default(false),
   }),
+  z.object({
+    type: z.literal('FILL_BLANKS'),
+    questionId: questionIdSchema,
+    answers: z.array(z.string().max(500, 'Blank answer must not exceed 500 characters')).min(1),
+    timeSpent: z.number().min(0).optional(),
+    bookmarked: z.boolean().default(false),
+  }),
+  z.object({
+    type: z.literal('DESCRIPTIVE'),
+    questionId: questionIdSchema,
+    answer: z.string().max(20000, 'Answer must not exceed 20000 characters'),
+    timeSpent: z.number().min(0).optional(),
+    bookmarked: z.boolean().default(false),
+  }),
 ]);
 
 // Exam submission schema
 export const submitExamSchema = z.object({
-  examId: z.string().uuid('Invalid exam ID'),
+  examId: z.string().cuid('Invalid exam ID'),
   
   answers: z
     .array(answerSchema)
@@ -528,7 +854,7 @@ export const submitExamSchema = z.object({
 
 // Save progress schema (for auto-save functionality)
 export const saveProgressSchema = z.object({
-  examId: z.string().uuid('Invalid exam ID'),
+  examId: z.string().cuid('Invalid exam ID'),
   
   currentQuestion: z
     .number()
@@ -546,13 +872,19 @@ export const saveProgressSchema = z.object({
     .optional(),
 });
 
+// A single answer graded as soon as it is given: checked in a practice
+// attempt, or the question an adaptive attempt is waiting on
+export const answerSubmissionSchema = z.object({
+  answer: answerSchema,
+});
+
 // =============================================================================
 // EXAM ATTEMPT SCHEMAS
 // =============================================================================
 
 // Start exam attempt schema
 export const startExamSchema = z.object({
-  examId: z.string().uuid('Invalid exam ID'),
+  examId: z.string().cuid('Invalid exam ID'),
   
   agreeToTerms: z
     .boolean()
@@ -571,13 +903,199 @@ export const startExamSchema = z.object({
   }).optional(),
 });
 
+// Accommodation granted to a student by an admin
+export const accommodationSchema = z.object({
+  extraTimePerHour: z
+    .number()
+    .int('Extra time must be a whole number of minutes')
+    .min(0, 'Extra time cannot be negative')
+    .max(60, 'Extra time cannot exceed 60 minutes per hour'), // e.g. 20 for PwD candidates
+  fontSize: z.enum(['NORMAL', 'LARGE', 'EXTRA_LARGE']).default('NORMAL'),
+  highContrast: z.boolean().default(false),
+  screenReader: z.boolean().default(false),
+  reason: z
+    .string()
+    .max(1000, 'Reason must not exceed 1000 characters')
+    .optional(),
+  validUntil: z.string().datetime('Invalid expiry date').optional(), // never expires when omitted
+});
+
+// =============================================================================
+// MANUAL GRADING SCHEMAS
+// =============================================================================
+
+// Rubric criterion score schema
+export const rubricScoreSchema = z.object({
+  criterion: z
+    .string()
+    .min(1, 'Rubric criterion is required')
+    .max(200, 'Rubric criterion must not exceed 200 characters'),
+  
+  marks: z.number().min(0, 'Rubric marks cannot be negative'),
+  
+  maxMarks: z.number().min(0, 'Rubric maximum marks cannot be negative').optional(),
+  
+  comment: z
+    .string()
+    .max(1000, 'Rubric comment must not exceed 1000 characters')
+    .optional(),
+}).refine(
+  (data) => data.maxMarks === undefined || data.marks <= data.maxMarks,
+  {
+    message: 'Rubric marks cannot exceed the criterion maximum',
+    path: ['marks'],
+  }
+);
+
+// Grade descriptive answer schema
+export const gradeAnswerSchema = z.object({
+  marksAwarded: z.number().min(0, 'Marks awarded cannot be negative'),
+  
+  rubric: z
+    .array(rubricScoreSchema)
+    .max(20, 'Cannot have more than 20 rubric criteria')
+    .optional(),
+  
+  feedback: z
+    .string()
+    .max(5000, 'Feedback must not exceed 5000 characters')
+    .optional(),
+}).refine(
+  (data) => {
+    if (!data.rubric?.length) {
+      return true;
+    }
+    const rubricTotal = data.rubric.reduce((sum, item) => sum + item.marks, 0);
+    return Math.abs(rubricTotal - data.marksAwarded) < 0.01;
+  },
+  {
+    message: 'Marks awarded must equal the rubric total',
+    path: ['marksAwarded'],
+  }
+);
+
+// Grading queue filter schema
+export const gradingQueueSchema = z.object({
+  page: z.string().optional(),
+  limit: z.string().optional(),
+  testSeriesId: z.string().optional(),
+  questionId: z.string().optional(),
+  status: z.enum(['PENDING', 'GRADED']).default('PENDING'),
+});
+
+// =============================================================================
+// PROCTORING SCHEMAS
+// =============================================================================
+
+// Proctoring event reported by the exam client
+const proctoringEventSchema = z.object({
+  type: z.enum(['TAB_SWITCH', 'WINDOW_BLUR', 'FULLSCREEN_EXIT', 'COPY_PASTE', 'WEBCAM_OFF', 'SUSPICIOUS_ACTIVITY']),
+  occurredAt: z.string().datetime('Invalid event time'),
+  description: z
+    .string()
+    .max(500, 'Event description must not exceed 500 characters')
+    .optional(),
+  details: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Batch of proctoring events; clients send what they collected since the last batch
+export const proctoringEventsSchema = z.object({
+  events: z
+    .array(proctoringEventSchema)
+    .min(1, 'At least one event is required')
+    .max(50, 'Cannot send more than 50 events at once'),
+});
+
+// Proctoring review queue filter schema
+export const proctoringQueueSchema = z.object({
+  page: z.string().optional(),
+  limit: z.string().optional(),
+  testSeriesId: z.string().optional(),
+  status: z.enum(['PENDING', 'CLEARED', 'FLAGGED', 'EXCLUDED']).default('PENDING'),
+});
+
+// Invigilator decision on an attempt's violations
+export const proctoringReviewSchema = z.object({
+  status: z.enum(['CLEARED', 'FLAGGED', 'EXCLUDED']),
+  note: z
+    .string()
+    .max(2000, 'Review note must not exceed 2000 characters')
+    .optional(),
+});
+
+// =============================================================================
+// REVISION SCHEMAS
+// =============================================================================
+
+// Revise session query schema
+export const revisionQuerySchema = z.object({
+  limit: z.string().optional(), // due questions to serve, up to what is left of the daily limit
+});
+
+// Recall quality reported after revising a question (SM-2 scale)
+export const reviseItemSchema = z.object({
+  quality: z
+    .number()
+    .int('Recall quality must be a whole number')
+    .min(0, 'Recall quality must be between 0 and 5')
+    .max(5, 'Recall quality must be between 0 and 5'),
+});
+
+// =============================================================================
+// BOOKMARK SCHEMAS
+// =============================================================================
+
+// Personal tags on a bookmarked question
+const bookmarkTagsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(1, 'Tag cannot be empty')
+      .max(30, 'Tag must not exceed 30 characters')
+  )
+  .max(10, 'Cannot have more than 10 tags');
+
+// Bookmark a question from an attempt review
+export const bookmarkQuestionSchema = z.object({
+  questionId: z.string().min(1, 'Question ID is required'),
+  
+  note: z
+    .string()
+    .max(5000, 'Note must not exceed 5000 characters')
+    .optional(),
+  
+  tags: bookmarkTagsSchema.optional(),
+});
+
+// Update a bookmark's note and tags; a null note clears it
+export const updateBookmarkSchema = z.object({
+  note: z
+    .string()
+    .max(5000, 'Note must not exceed 5000 characters')
+    .nullable()
+    .optional(),
+  
+  tags: bookmarkTagsSchema.optional(),
+});
+
+// Bookmark list filter schema
+export const bookmarkQuerySchema = z.object({
+  page: z.string().optional(),
+  limit: z.string().optional(),
+  search: z.string().optional(), // question text and note
+  subject: z.string().optional(),
+  topic: z.string().optional(),
+  tag: z.string().optional(),
+});
+
 // =============================================================================
 // ANALYTICS AND REPORTING SCHEMAS
 // =============================================================================
 
 // Exam analytics filter schema
 export const examAnalyticsSchema = z.object({
-  examId: z.string().uuid('Invalid exam ID').optional(),
+  examId: z.string().cuid('Invalid exam ID').optional(),
   
   dateRange: z.object({
     from: z.string().datetime(),
@@ -637,9 +1155,39 @@ export type UpdateExamFormData = z.infer<typeof updateExamSchema>;
 export type QuestionFormData = z.infer<typeof questionSchema>;
 export type CreateQuestionFormData = z.infer<typeof createQuestionSchema>;
 export type UpdateQuestionFormData = z.infer<typeof updateQuestionSchema>;
+export type QuestionBankQueryFormData = z.infer<typeof questionBankQuerySchema>;
+export type ImportQuestionsFormData = z.infer<typeof importQuestionsSchema>;
+export type QuestionExportFormData = z.infer<typeof questionExportSchema>;
+export type QuestionReviewQueueFormData = z.infer<typeof questionReviewQueueSchema>;
+export type ReviewQuestionFormData = z.infer<typeof reviewQuestionSchema>;
+export type ReportQuestionIssueFormData = z.infer<typeof reportQuestionIssueSchema>;
+export type QuestionIssueQueryFormData = z.infer<typeof questionIssueQuerySchema>;
+export type ResolveQuestionIssueFormData = z.infer<typeof resolveQuestionIssueSchema>;
+export type RegradeQuestionFormData = z.infer<typeof regradeQuestionSchema>;
+export type QuestionAnalyticsJobFormData = z.infer<typeof questionAnalyticsJobSchema>;
+export type FlaggedQuestionsQueryFormData = z.infer<typeof flaggedQuestionsQuerySchema>;
+export type TestSectionLayoutFormData = z.infer<typeof testSectionLayoutSchema>;
+export type AdvanceSectionFormData = z.infer<typeof advanceSectionSchema>;
+export type LiveTestScheduleFormData = z.infer<typeof liveTestScheduleSchema>;
+export type LiveLeaderboardQueryFormData = z.infer<typeof liveLeaderboardQuerySchema>;
+export type AdaptiveSettingsFormData = z.infer<typeof adaptiveSettingsSchema>;
+export type CustomTestFormData = z.infer<typeof customTestSchema>;
 export type SubmitExamFormData = z.infer<typeof submitExamSchema>;
 export type SaveProgressFormData = z.infer<typeof saveProgressSchema>;
+export type AnswerSubmissionFormData = z.infer<typeof answerSubmissionSchema>;
 export type StartExamFormData = z.infer<typeof startExamSchema>;
+export type AccommodationFormData = z.infer<typeof accommodationSchema>;
+export type RubricScoreFormData = z.infer<typeof rubricScoreSchema>;
+export type GradeAnswerFormData = z.infer<typeof gradeAnswerSchema>;
+export type GradingQueueFormData = z.infer<typeof gradingQueueSchema>;
+export type ProctoringEventsFormData = z.infer<typeof proctoringEventsSchema>;
+export type ProctoringQueueFormData = z.infer<typeof proctoringQueueSchema>;
+export type ProctoringReviewFormData = z.infer<typeof proctoringReviewSchema>;
+export type RevisionQueryFormData = z.infer<typeof revisionQuerySchema>;
+export type ReviseItemFormData = z.infer<typeof reviseItemSchema>;
+export type BookmarkQuestionFormData = z.infer<typeof bookmarkQuestionSchema>;
+export type UpdateBookmarkFormData = z.infer<typeof updateBookmarkSchema>;
+export type BookmarkQueryFormData = z.infer<typeof bookmarkQuerySchema>;
 export type ExamAnalyticsFormData = z.infer<typeof examAnalyticsSchema>;
 export type PerformanceReportFormData = z.infer<typeof performanceReportSchema>;
 
@@ -688,7 +1236,8 @@ export const calculateExamDifficulty = (questions: QuestionFormData[]): {
   const distribution = { EASY: 0, MEDIUM: 0, HARD: 0 };
   
   questions.forEach(q => {
-    distribution[q.difficulty]++;
+    // Very hard questions count towards the hard share
+    distribution[q.difficulty === 'VERY_HARD' ? 'HARD' : q.difficulty]++;
   });
   
   const total = questions.length;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "test_attempts" ADD COLUMN     "currentQuestionIndex" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "bookmarkedQuestions" TEXT[],
+ADD COLUMN     "lastSavedAt" TIMESTAMP(3);
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "GradingStatus" AS ENUM ('AUTO_GRADED', 'PENDING', 'GRADED');
+
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN     "partialMarking" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "question_attempts" ADD COLUMN     "gradingStatus" "GradingStatus" NOT NULL DEFAULT 'AUTO_GRADED';
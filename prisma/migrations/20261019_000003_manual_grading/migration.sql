@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "test_attempts" ADD COLUMN     "pendingReview" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "resultsReleasedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "question_attempts" ADD COLUMN     "rubricScores" JSONB,
+ADD COLUMN     "feedback" TEXT,
+ADD COLUMN     "gradedAt" TIMESTAMP(3),
+ADD COLUMN     "gradedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "question_attempts_gradingStatus_idx" ON "question_attempts"("gradingStatus");
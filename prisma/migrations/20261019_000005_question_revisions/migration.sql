@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "RevisionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'SUPERSEDED');
+
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "question_attempts" ADD COLUMN     "questionVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "question_revisions" (
+    "id" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT,
+    "questionText" TEXT NOT NULL,
+    "options" JSONB NOT NULL,
+    "correctAnswer" JSONB NOT NULL,
+    "explanation" TEXT,
+    "type" "QuestionType" NOT NULL,
+    "difficulty" "QuestionDifficulty" NOT NULL,
+    "marks" DECIMAL(4,2) NOT NULL,
+    "negativeMarks" DECIMAL(4,2) NOT NULL,
+    "partialMarking" BOOLEAN NOT NULL DEFAULT false,
+    "subject" TEXT,
+    "topic" TEXT,
+    "subtopic" TEXT,
+    "tags" TEXT[],
+    "language" "Language" NOT NULL,
+    "image" TEXT,
+    "audio" TEXT,
+    "video" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "status" "RevisionStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "reviewComment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "question_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "question_revisions_status_idx" ON "question_revisions"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "question_revisions_questionId_version_key" ON "question_revisions"("questionId", "version");
+
+-- AddForeignKey
+ALTER TABLE "question_revisions" ADD CONSTRAINT "question_revisions_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "questions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "question_attempts" ADD CONSTRAINT "question_attempts_questionId_questionVersion_fkey" FOREIGN KEY ("questionId", "questionVersion") REFERENCES "question_revisions"("questionId", "version") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: the current content of every question becomes revision 1
+INSERT INTO "question_revisions" (
+    "id", "questionId", "version", "title", "questionText", "options", "correctAnswer", "explanation",
+    "type", "difficulty", "marks", "negativeMarks", "partialMarking", "subject", "topic", "subtopic",
+    "tags", "language", "image", "audio", "video", "createdBy", "status", "reviewedAt", "reviewedBy", "createdAt"
+)
+SELECT
+    'rev_' || "id", "id", 1, "title", "questionText", "options", "correctAnswer", "explanation",
+    "type", "difficulty", "marks", "negativeMarks", "partialMarking", "subject", "topic", "subtopic",
+    "tags", "language", "image", "audio", "video", "creatorId",
+    CASE WHEN "isVerified" THEN 'APPROVED'::"RevisionStatus" ELSE 'PENDING'::"RevisionStatus" END,
+    "verifiedAt", "verifiedBy", "updatedAt"
+FROM "questions";
+
+-- Backfill: existing answers were graded against revision 1
+UPDATE "question_attempts" SET "questionVersion" = 1;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "IssueReportType" AS ENUM ('WRONG_ANSWER', 'TYPO', 'UNCLEAR_QUESTION', 'TECHNICAL_ISSUE', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "IssueReportStatus" AS ENUM ('PENDING', 'RESOLVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "question_issue_reports" (
+    "id" TEXT NOT NULL,
+    "questionAttemptId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "questionVersion" INTEGER,
+    "type" "IssueReportType" NOT NULL,
+    "description" TEXT NOT NULL,
+    "status" "IssueReportStatus" NOT NULL DEFAULT 'PENDING',
+    "resolutionNote" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "question_issue_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "question_issue_reports_questionAttemptId_key" ON "question_issue_reports"("questionAttemptId");
+
+-- CreateIndex
+CREATE INDEX "question_issue_reports_questionId_status_idx" ON "question_issue_reports"("questionId", "status");
+
+-- CreateIndex
+CREATE INDEX "question_issue_reports_status_idx" ON "question_issue_reports"("status");
+
+-- AddForeignKey
+ALTER TABLE "question_issue_reports" ADD CONSTRAINT "question_issue_reports_questionAttemptId_fkey" FOREIGN KEY ("questionAttemptId") REFERENCES "question_attempts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "question_issue_reports" ADD CONSTRAINT "question_issue_reports_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "questions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "question_issue_reports" ADD CONSTRAINT "question_issue_reports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
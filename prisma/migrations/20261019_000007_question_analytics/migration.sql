@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN     "discriminationIndex" DECIMAL(4,3),
+ADD COLUMN     "suggestedDifficulty" "QuestionDifficulty",
+ADD COLUMN     "analyticsUpdatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "questions_suggestedDifficulty_idx" ON "questions"("suggestedDifficulty");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "lessons" ADD COLUMN     "topics" TEXT[];
+
+-- CreateIndex
+CREATE INDEX "lessons_topics_idx" ON "lessons" USING GIN ("topics");
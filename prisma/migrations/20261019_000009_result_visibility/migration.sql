@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ResultVisibility" AS ENUM ('IMMEDIATE', 'AFTER_END_TIME', 'NEVER');
+
+-- AlterTable
+ALTER TABLE "exams" ADD COLUMN     "showResults" "ResultVisibility" NOT NULL DEFAULT 'IMMEDIATE';
+
+-- Exams that held results back release them when the exam window closes
+UPDATE "exams" SET "showResults" = 'AFTER_END_TIME' WHERE "showResultsImmediately" = false;
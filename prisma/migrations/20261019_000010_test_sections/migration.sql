@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN     "sectionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "test_attempts" ADD COLUMN     "currentSectionIndex" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "sectionStartedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "test_sections" (
+    "id" TEXT NOT NULL,
+    "testSeriesId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "questionCount" INTEGER NOT NULL DEFAULT 0,
+    "negativeMarking" BOOLEAN,
+    "negativeMarkingRatio" DECIMAL(3,2),
+    "cutoffMarks" DECIMAL(6,2),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "test_sections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "test_sections_testSeriesId_order_key" ON "test_sections"("testSeriesId", "order");
+
+-- CreateIndex
+CREATE INDEX "questions_sectionId_idx" ON "questions"("sectionId");
+
+-- AddForeignKey
+ALTER TABLE "test_sections" ADD CONSTRAINT "test_sections_testSeriesId_fkey" FOREIGN KEY ("testSeriesId") REFERENCES "test_series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "questions" ADD CONSTRAINT "questions_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "test_sections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "live_tests" (
+    "id" TEXT NOT NULL,
+    "testSeriesId" TEXT NOT NULL,
+    "registrationOpensAt" TIMESTAMP(3) NOT NULL,
+    "registrationClosesAt" TIMESTAMP(3) NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "maxParticipants" INTEGER,
+    "cancelledAt" TIMESTAMP(3),
+    "resultsReleasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "live_tests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "live_test_registrations" (
+    "id" TEXT NOT NULL,
+    "liveTestId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "registeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "live_test_registrations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "live_tests_testSeriesId_key" ON "live_tests"("testSeriesId");
+
+-- CreateIndex
+CREATE INDEX "live_tests_startTime_idx" ON "live_tests"("startTime");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "live_test_registrations_liveTestId_userId_key" ON "live_test_registrations"("liveTestId", "userId");
+
+-- CreateIndex
+CREATE INDEX "live_test_registrations_userId_idx" ON "live_test_registrations"("userId");
+
+-- AddForeignKey
+ALTER TABLE "live_tests" ADD CONSTRAINT "live_tests_testSeriesId_fkey" FOREIGN KEY ("testSeriesId") REFERENCES "test_series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "live_test_registrations" ADD CONSTRAINT "live_test_registrations_liveTestId_fkey" FOREIGN KEY ("liveTestId") REFERENCES "live_tests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "live_test_registrations" ADD CONSTRAINT "live_test_registrations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
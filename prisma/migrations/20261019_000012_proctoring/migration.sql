@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "ProctoringEventType" AS ENUM ('TAB_SWITCH', 'WINDOW_BLUR', 'FULLSCREEN_EXIT', 'COPY_PASTE', 'WEBCAM_OFF', 'SUSPICIOUS_ACTIVITY');
+
+-- CreateEnum
+CREATE TYPE "ViolationSeverity" AS ENUM ('LOW', 'MEDIUM', 'HIGH');
+
+-- CreateEnum
+CREATE TYPE "ProctoringStatus" AS ENUM ('NONE', 'PENDING', 'CLEARED', 'FLAGGED', 'EXCLUDED');
+
+-- AlterTable
+ALTER TABLE "exams" ADD COLUMN     "proctoringEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "violationLimit" INTEGER;
+
+-- AlterTable
+ALTER TABLE "test_attempts" ADD COLUMN     "violationCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "violationLimitReachedAt" TIMESTAMP(3),
+ADD COLUMN     "proctoringStatus" "ProctoringStatus" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "proctoringNote" TEXT,
+ADD COLUMN     "proctoringReviewedBy" TEXT,
+ADD COLUMN     "proctoringReviewedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "proctoring_events" (
+    "id" TEXT NOT NULL,
+    "testAttemptId" TEXT NOT NULL,
+    "type" "ProctoringEventType" NOT NULL,
+    "severity" "ViolationSeverity" NOT NULL,
+    "description" TEXT,
+    "details" JSONB,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proctoring_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "test_attempts_proctoringStatus_idx" ON "test_attempts"("proctoringStatus");
+
+-- CreateIndex
+CREATE INDEX "proctoring_events_testAttemptId_occurredAt_idx" ON "proctoring_events"("testAttemptId", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "proctoring_events" ADD CONSTRAINT "proctoring_events_testAttemptId_fkey" FOREIGN KEY ("testAttemptId") REFERENCES "test_attempts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
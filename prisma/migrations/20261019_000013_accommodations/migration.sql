@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "AccommodationFontSize" AS ENUM ('NORMAL', 'LARGE', 'EXTRA_LARGE');
+
+-- AlterTable
+ALTER TABLE "test_attempts" ADD COLUMN     "extraTimePerHour" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "accommodations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "extraTimePerHour" INTEGER NOT NULL DEFAULT 0,
+    "fontSize" "AccommodationFontSize" NOT NULL DEFAULT 'NORMAL',
+    "highContrast" BOOLEAN NOT NULL DEFAULT false,
+    "screenReader" BOOLEAN NOT NULL DEFAULT false,
+    "reason" TEXT,
+    "grantedBy" TEXT NOT NULL,
+    "validUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "accommodations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accommodations_userId_key" ON "accommodations"("userId");
+
+-- AddForeignKey
+ALTER TABLE "accommodations" ADD CONSTRAINT "accommodations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
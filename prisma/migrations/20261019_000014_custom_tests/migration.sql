@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "test_series" ADD COLUMN     "isPersonal" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN     "sourceQuestionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "questions_sourceQuestionId_idx" ON "questions"("sourceQuestionId");
+
+-- AddForeignKey
+ALTER TABLE "questions" ADD CONSTRAINT "questions_sourceQuestionId_fkey" FOREIGN KEY ("sourceQuestionId") REFERENCES "questions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "test_attempts" ADD COLUMN     "isPractice" BOOLEAN NOT NULL DEFAULT false;
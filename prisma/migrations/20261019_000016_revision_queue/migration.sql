@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "RevisionReason" AS ENUM ('INCORRECT', 'MARKED');
+
+-- AlterTable
+ALTER TABLE "test_attempts" ADD COLUMN     "revisionQueuedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "revision_items" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "reason" "RevisionReason" NOT NULL,
+    "easeFactor" DECIMAL(4,2) NOT NULL DEFAULT 2.5,
+    "interval" INTEGER NOT NULL DEFAULT 0,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "lapses" INTEGER NOT NULL DEFAULT 0,
+    "dueAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReviewedAt" TIMESTAMP(3),
+    "lastQuality" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "revision_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "revision_items_userId_dueAt_idx" ON "revision_items"("userId", "dueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "revision_items_userId_questionId_key" ON "revision_items"("userId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "revision_items" ADD CONSTRAINT "revision_items_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "revision_items" ADD CONSTRAINT "revision_items_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "test_series" ADD COLUMN     "isAdaptive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "adaptiveQuestionCount" INTEGER,
+ADD COLUMN     "adaptiveTargetError" DECIMAL(3,2);
+
+-- AlterTable
+ALTER TABLE "test_attempts" ADD COLUMN     "abilityEstimate" DECIMAL(5,3),
+ADD COLUMN     "abilityStandardError" DECIMAL(5,3);
@@ -6,12 +6,13 @@
 
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { RootState } from '../index';
+import type { UIPreferences } from './uiSlice';
 
 // Types
 export interface Question {
   id: string;
   questionText: string;
-  type: 'SINGLE_CHOICE' | 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'ESSAY';
+  type: 'SINGLE_CHOICE' | 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'NUMERICAL' | 'FILL_BLANKS' | 'DESCRIPTIVE' | 'ESSAY';
   options: QuestionOption[];
   correctAnswers: string[];
   explanation?: string;
@@ -53,9 +54,42 @@ export interface Exam {
   };
   attemptCount: number;
   questionCount: number;
+  testSeries?: ExamTestSeries[];
   createdAt: string;
 }
 
+export interface TestSeriesUserStatus {
+  status: 'NOT_STARTED' | 'IN_PROGRESS' | 'COMPLETED';
+  attemptsUsed: number;
+  activeAttemptId: string | null;
+  lastAttemptId: string | null;
+  bestScore: number | null;
+  bestPercentage: number | null;
+  bestRank: number | null;
+  canAttempt: boolean;
+  limitReason: string | null;
+}
+
+export interface ExamTestSeries {
+  id: string;
+  title: string;
+  description: string | null;
+  slug: string;
+  type: 'FREE' | 'PREMIUM' | 'SUBSCRIPTION';
+  isFree: boolean;
+  price: number;
+  language: string;
+  duration: number;
+  totalQuestions: number;
+  totalMarks: number;
+  passingMarks: number;
+  allowRetakes: boolean;
+  maxAttempts: number | null;
+  totalAttempts: number;
+  averageScore: number | null;
+  userStatus: TestSeriesUserStatus | null;
+}
+
 export interface ExamAttempt {
   id: string;
   examId: string;
@@ -97,18 +131,119 @@ export interface ExamFilters {
   sortOrder: 'asc' | 'desc';
 }
 
+export interface AttemptSection {
+  id: string;
+  title: string;
+  order: number;
+  duration: number; // in minutes
+  questionCount: number;
+  status: 'COMPLETED' | 'IN_PROGRESS' | 'LOCKED';
+}
+
+export interface AttemptSectionState {
+  sections: AttemptSection[];
+  currentSectionIndex: number;
+  sectionEndsAt: string;
+  sectionTimeRemaining: number; // in seconds
+}
+
+export interface ProctoringState {
+  enabled: boolean;
+  violationCount: number;
+  violationLimit: number | null;
+  violationsRemaining: number | null; // before the attempt is submitted
+}
+
+export type ProctoringEventType =
+  | 'TAB_SWITCH'
+  | 'WINDOW_BLUR'
+  | 'FULLSCREEN_EXIT'
+  | 'COPY_PASTE'
+  | 'WEBCAM_OFF'
+  | 'SUSPICIOUS_ACTIVITY';
+
+export interface ProctoringEventReport {
+  type: ProctoringEventType;
+  occurredAt: string;
+  description?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ExamAccommodations {
+  extraTimePerHour: number; // compensatory minutes per hour, already in timeRemaining
+  fontSize: 'NORMAL' | 'LARGE' | 'EXTRA_LARGE';
+  highContrast: boolean;
+  screenReader: boolean;
+}
+
+// Feedback on a checked practice answer; answers are in session form (option ids)
+export interface PracticeFeedback {
+  questionId: string;
+  userAnswer: string[];
+  isCorrect: boolean;
+  gradingStatus: 'AUTO_GRADED' | 'PENDING' | 'GRADED';
+  marksAwarded: number;
+  correctAnswer: string[];
+  explanation: string | null;
+  communityAccuracy: number | null; // % of students who got it right
+}
+
+// Progress through an adaptive attempt, served one question at a time
+export interface AdaptiveProgress {
+  questionNumber: number; // of the question being served
+  questionCount: number; // planned; the attempt may stop earlier
+  finished: boolean; // a stop rule was met and the attempt is graded
+}
+
+// A saved question with the student's note and tags
+export interface ReviewBookmark {
+  id: string;
+  note: string | null;
+  tags: string[];
+}
+
 export interface CurrentExamSession {
   examId: string;
+  testSeriesId: string;
   attemptId: string;
-  questions: Question[];
+  questions: Question[]; // only the current section's in sectional tests
   currentQuestionIndex: number;
   answers: Record<string, string[]>;
-  timeRemaining: number; // in seconds
+  isPractice: boolean; // untimed, each answer checked as it is given
+  practiceFeedback: Record<string, PracticeFeedback>; // by question id
+  checkingQuestionId: string | null;
+  adaptive: AdaptiveProgress | null; // null unless the test is adaptive
+  timeRemaining: number | null; // in seconds; null for untimed practice attempts
+  sections: AttemptSection[]; // empty unless the test is sectional
+  currentSectionIndex: number;
+  sectionTimeRemaining: number | null; // in seconds
+  sectionExpired: boolean; // the server moved on; fetch the next section
+  proctoring: ProctoringState;
+  accommodations: ExamAccommodations;
   startTime: number;
+  questionTimes: Record<string, number>; // seconds spent on each question, by question id
+  questionShownAt: number | null; // when the current question was shown; null while paused
   isSubmitting: boolean;
   isPaused: boolean;
   flaggedQuestions: Set<string>;
   visitedQuestions: Set<string>;
+  isSaving: boolean;
+  lastSavedAt: string | null;
+}
+
+export interface SavedAttemptAnswer {
+  questionId: string;
+  userAnswer: unknown;
+  timeTaken: number;
+  isMarked: boolean;
+}
+
+export interface AttemptProgress {
+  currentQuestionIndex: number;
+  bookmarkedQuestions: string[];
+  timeSpent: number; // in seconds
+  lastSavedAt: string | null;
+  answers: SavedAttemptAnswer[];
 }
 
 export interface ExamState {
@@ -128,6 +263,7 @@ export interface ExamState {
   // Attempts and results
   attempts: ExamAttempt[];
   currentAttempt: ExamAttempt | null;
+  reviewBookmarks: Record<string, ReviewBookmark>; // by question id on the review screen
   
   // Loading states
   isLoading: boolean;
@@ -169,6 +305,7 @@ const initialState: ExamState = {
   
   attempts: [],
   currentAttempt: null,
+  reviewBookmarks: {},
   
   isLoading: false,
   isLoadingExam: false,
@@ -185,6 +322,99 @@ const initialState: ExamState = {
   viewMode: 'grid',
 };
 
+// Answer conversion helpers
+// Session answers hold option ids (or raw values for the other question types),
+// while the API stores option indices, so we translate in both directions.
+const toOptionIndex = (question: Question, optionId: string): number => {
+  const index = question.options.findIndex(option => option.id === optionId);
+  return index > -1 ? index : Number(optionId);
+};
+
+const toOptionId = (question: Question, index: number): string => {
+  return question.options[index]?.id ?? String(index);
+};
+
+const toSessionAnswer = (question: Question | undefined, userAnswer: unknown): string[] => {
+  if (userAnswer === null || userAnswer === undefined) {
+    return [];
+  }
+
+  const values = Array.isArray(userAnswer) ? userAnswer : [userAnswer];
+
+  if (question && (question.type === 'SINGLE_CHOICE' || question.type === 'MULTIPLE_CHOICE')) {
+    return values.map(value => toOptionId(question, Number(value)));
+  }
+
+  return values.map(value => String(value));
+};
+
+const toPracticeFeedback = (question: Question | undefined, feedback: Record<string, unknown>): PracticeFeedback => ({
+  questionId: feedback['questionId'] as string,
+  userAnswer: toSessionAnswer(question, feedback['userAnswer']),
+  isCorrect: feedback['isCorrect'] as boolean,
+  gradingStatus: feedback['gradingStatus'] as PracticeFeedback['gradingStatus'],
+  marksAwarded: feedback['marksAwarded'] as number,
+  correctAnswer: toSessionAnswer(question, feedback['correctAnswer']),
+  explanation: feedback['explanation'] as string | null,
+  communityAccuracy: feedback['communityAccuracy'] as number | null,
+});
+
+const toProgressAnswer = (question: Question, selected: string[]) => {
+  switch (question.type) {
+    case 'SINGLE_CHOICE':
+      return { type: 'MULTIPLE_CHOICE' as const, selectedOption: toOptionIndex(question, selected[0] ?? '') };
+    case 'MULTIPLE_CHOICE':
+      return { type: 'MULTIPLE_SELECT' as const, selectedOptions: selected.map(id => toOptionIndex(question, id)) };
+    case 'TRUE_FALSE':
+      return { type: 'TRUE_FALSE' as const, answer: selected[0] === 'true' };
+    case 'NUMERICAL':
+      return { type: 'NUMERICAL' as const, answer: Number(selected[0]) };
+    case 'FILL_BLANKS':
+      return { type: 'FILL_BLANKS' as const, answers: selected };
+    case 'DESCRIPTIVE':
+      return { type: 'DESCRIPTIVE' as const, answer: selected[0] ?? '' };
+    default:
+      return null;
+  }
+};
+
+// Raw answer value the submit endpoint grades, in displayed option indices
+const toSubmittedAnswer = (question: Question, selected: string[]) => {
+  const answer = toProgressAnswer(question, selected);
+  switch (answer?.type) {
+    case 'MULTIPLE_CHOICE':
+      return answer.selectedOption;
+    case 'MULTIPLE_SELECT':
+      return answer.selectedOptions;
+    case 'FILL_BLANKS':
+      return answer.answers;
+    case 'TRUE_FALSE':
+    case 'NUMERICAL':
+    case 'DESCRIPTIVE':
+      return answer.answer;
+    default:
+      return null;
+  }
+};
+
+// Seconds spent on each question, counting the time on the one shown now
+const getQuestionTimes = (session: CurrentExamSession, now: number = Date.now()): Record<string, number> => {
+  const times = { ...session.questionTimes };
+  const current = session.questions[session.currentQuestionIndex];
+
+  if (current && session.questionShownAt !== null) {
+    times[current.id] = (times[current.id] ?? 0) + Math.max(0, (now - session.questionShownAt) / 1000);
+  }
+
+  return times;
+};
+
+// Add the time on the question shown now to its total and restart its clock
+const recordQuestionTime = (session: CurrentExamSession, now: number = Date.now()) => {
+  session.questionTimes = getQuestionTimes(session, now);
+  session.questionShownAt = session.isPaused ? null : now;
+};
+
 // Async thunks
 export const fetchExams = createAsyncThunk(
   'exams/fetchExams',
@@ -246,7 +476,10 @@ export const fetchExam = createAsyncThunk(
 
 export const startExamAttempt = createAsyncThunk(
   'exams/startExamAttempt',
-  async (examId: string, { getState, rejectWithValue }) => {
+  async (
+    { examId, testSeriesId }: { examId: string; testSeriesId: string },
+    { getState, rejectWithValue }
+  ) => {
     try {
       const state = getState() as RootState;
       const token = state.auth.token;
@@ -255,7 +488,8 @@ export const startExamAttempt = createAsyncThunk(
         return rejectWithValue('Authentication required');
       }
 
-      const response = await fetch(`/api/exams/${examId}/attempt`, {
+      const query = new URLSearchParams({ testSeriesId });
+      const response = await fetch(`/api/exams/${examId}/attempt?${query.toString()}`, {
         method: 'POST',
         headers: {
           Authorization: `Bearer ${token}`,
@@ -269,11 +503,294 @@ export const startExamAttempt = createAsyncThunk(
         return rejectWithValue(data.error?.message || 'Failed to start exam');
       }
 
+      const { attempt } = data.data;
+      const accommodations = attempt.accommodations as ExamAccommodations;
+      const questions = attempt.questions as Question[];
+
       return {
-        attemptId: data.data.attemptId,
-        questions: data.data.questions,
-        exam: data.data.exam,
-        duration: data.data.duration,
+        examId,
+        testSeriesId,
+        attemptId: attempt.id as string,
+        questions,
+        isPractice: attempt.isPractice as boolean,
+        practiceFeedback: (attempt.practiceFeedback as Record<string, unknown>[]).map(feedback =>
+          toPracticeFeedback(questions.find(q => q.id === feedback['questionId']), feedback)
+        ),
+        adaptive: attempt.adaptive as Omit<AdaptiveProgress, 'finished'> | null,
+        timeRemaining: attempt.timeRemaining as number | null,
+        sectionState: attempt.sectionState as AttemptSectionState | null,
+        progress: attempt.progress as AttemptProgress,
+        proctoring: attempt.proctoring as ProctoringState,
+        accommodations,
+      };
+    } catch (error) {
+      return rejectWithValue('Network error occurred');
+    }
+  }
+);
+
+export const saveExamProgress = createAsyncThunk(
+  'exams/saveExamProgress',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as RootState;
+      const token = state.auth.token;
+      const session = state.exams.currentSession;
+
+      if (!token) {
+        return rejectWithValue('Authentication required');
+      }
+
+      if (!session) {
+        return rejectWithValue('No active exam session');
+      }
+
+      const questionTimes = getQuestionTimes(session);
+      const answers = session.questions.flatMap(question => {
+        const selected = session.answers[question.id];
+        if (!selected || selected.length === 0) {
+          return [];
+        }
+
+        const answer = toProgressAnswer(question, selected);
+        if (!answer) {
+          return [];
+        }
+
+        return [{
+          ...answer,
+          questionId: question.id,
+          timeSpent: Math.round(questionTimes[question.id] ?? 0),
+          bookmarked: session.flaggedQuestions.has(question.id),
+        }];
+      });
+
+      const query = new URLSearchParams({ testSeriesId: session.testSeriesId });
+      const response = await fetch(`/api/exams/${session.examId}/attempt?${query.toString()}`, {
+        method: 'PATCH',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          examId: session.examId,
+          currentQuestion: session.currentQuestionIndex,
+          answers,
+          timeSpent: Math.floor((Date.now() - session.startTime) / 1000),
+          bookmarkedQuestions: Array.from(session.flaggedQuestions),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        return rejectWithValue(data.error?.message || 'Failed to save progress');
+      }
+
+      return {
+        savedAt: data.data.savedAt as string,
+        timeRemaining: data.data.timeRemaining as number | null,
+        sectionState: data.data.sectionState as AttemptSectionState | null,
+      };
+    } catch (error) {
+      return rejectWithValue('Network error occurred');
+    }
+  }
+);
+
+// Finish the current section (or catch up after its timer ran out) and load the next one
+export const advanceSection = createAsyncThunk(
+  'exams/advanceSection',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as RootState;
+      const token = state.auth.token;
+      const session = state.exams.currentSession;
+
+      if (!token) {
+        return rejectWithValue('Authentication required');
+      }
+
+      if (!session || session.sections.length === 0) {
+        return rejectWithValue('No sectional exam session');
+      }
+
+      const query = new URLSearchParams({ testSeriesId: session.testSeriesId });
+      const response = await fetch(`/api/exams/${session.examId}/attempt/section?${query.toString()}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ fromSection: session.currentSectionIndex }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        return rejectWithValue(data.error?.message || 'Failed to move to the next section');
+      }
+
+      const { attempt } = data.data;
+
+      return {
+        questions: attempt.questions as Question[],
+        timeRemaining: attempt.timeRemaining as number | null,
+        sectionState: attempt.sectionState as AttemptSectionState,
+      };
+    } catch (error) {
+      return rejectWithValue('Network error occurred');
+    }
+  }
+);
+
+// Check the current answer to a question in a practice attempt
+export const checkPracticeAnswer = createAsyncThunk(
+  'exams/checkPracticeAnswer',
+  async (questionId: string, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as RootState;
+      const token = state.auth.token;
+      const session = state.exams.currentSession;
+
+      if (!token) {
+        return rejectWithValue('Authentication required');
+      }
+
+      if (!session || !session.isPractice) {
+        return rejectWithValue('No practice session');
+      }
+
+      const question = session.questions.find(q => q.id === questionId);
+      const answer = question ? toProgressAnswer(question, session.answers[questionId] ?? []) : null;
+      if (!question || !answer) {
+        return rejectWithValue('Answer the question before checking it');
+      }
+
+      const query = new URLSearchParams({ testSeriesId: session.testSeriesId });
+      const response = await fetch(`/api/exams/${session.examId}/attempt/check?${query.toString()}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          answer: {
+            ...answer,
+            questionId,
+            timeSpent: Math.round(getQuestionTimes(session)[questionId] ?? 0),
+            bookmarked: session.flaggedQuestions.has(questionId),
+          },
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        return rejectWithValue(data.error?.message || 'Failed to check answer');
+      }
+
+      return toPracticeFeedback(question, data.data.feedback);
+    } catch (error) {
+      return rejectWithValue('Network error occurred');
+    }
+  }
+);
+
+// Answer the current question of an adaptive attempt and load the next one
+export const answerAdaptiveQuestion = createAsyncThunk(
+  'exams/answerAdaptiveQuestion',
+  async (questionId: string, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as RootState;
+      const token = state.auth.token;
+      const session = state.exams.currentSession;
+
+      if (!token) {
+        return rejectWithValue('Authentication required');
+      }
+
+      if (!session || !session.adaptive) {
+        return rejectWithValue('No adaptive session');
+      }
+
+      const question = session.questions.find(q => q.id === questionId);
+      const answer = question ? toProgressAnswer(question, session.answers[questionId] ?? []) : null;
+      if (!question || !answer) {
+        return rejectWithValue('Answer the question before moving on');
+      }
+
+      const query = new URLSearchParams({ testSeriesId: session.testSeriesId });
+      const response = await fetch(`/api/exams/${session.examId}/attempt/answer?${query.toString()}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          answer: {
+            ...answer,
+            questionId,
+            timeSpent: Math.round(getQuestionTimes(session)[questionId] ?? 0),
+            bookmarked: session.flaggedQuestions.has(questionId),
+          },
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        return rejectWithValue(data.error?.message || 'Failed to answer question');
+      }
+
+      return {
+        finished: data.data.finished as boolean,
+        questionNumber: (data.data.questionNumber ?? session.adaptive.questionNumber) as number,
+        question: data.data.question as Question | null,
+      };
+    } catch (error) {
+      return rejectWithValue('Network error occurred');
+    }
+  }
+);
+
+// Send the proctoring events collected since the last report
+export const reportProctoringEvents = createAsyncThunk(
+  'exams/reportProctoringEvents',
+  async (events: ProctoringEventReport[], { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as RootState;
+      const token = state.auth.token;
+      const session = state.exams.currentSession;
+
+      if (!token) {
+        return rejectWithValue('Authentication required');
+      }
+
+      if (!session || !session.proctoring.enabled) {
+        return rejectWithValue('No proctored exam session');
+      }
+
+      const query = new URLSearchParams({ testSeriesId: session.testSeriesId });
+      const response = await fetch(`/api/exams/${session.examId}/attempt/proctoring?${query.toString()}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ events }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        return rejectWithValue(data.error?.message || 'Failed to report proctoring events');
+      }
+
+      return {
+        proctoring: data.data.proctoring as ProctoringState,
+        autoSubmitted: data.data.autoSubmitted as boolean,
+        message: (data.data.message as string | undefined) ?? null,
       };
     } catch (error) {
       return rejectWithValue('Network error occurred');
@@ -283,20 +800,39 @@ export const startExamAttempt = createAsyncThunk(
 
 export const submitExam = createAsyncThunk(
   'exams/submitExam',
-  async (
-    { attemptId, answers }: { attemptId: string; answers: Record<string, string[]> },
-    { getState, rejectWithValue }
-  ) => {
+  async (_, { getState, rejectWithValue }) => {
     try {
       const state = getState() as RootState;
       const token = state.auth.token;
+      const session = state.exams.currentSession;
 
       if (!token) {
         return rejectWithValue('Authentication required');
       }
 
-      const response = await fetch(`/api/exam-attempts/${attemptId}/submit`, {
-        method: 'POST',
+      if (!session) {
+        return rejectWithValue('No active exam session');
+      }
+
+      const questionTimes = getQuestionTimes(session);
+      const answers = session.questions.flatMap(question => {
+        const selected = session.answers[question.id];
+        const userAnswer = selected && selected.length > 0 ? toSubmittedAnswer(question, selected) : null;
+        if (userAnswer === null) {
+          return [];
+        }
+
+        return [{
+          questionId: question.id,
+          userAnswer,
+          timeTaken: Math.round(questionTimes[question.id] ?? 0),
+          isMarked: session.flaggedQuestions.has(question.id),
+        }];
+      });
+
+      const query = new URLSearchParams({ testSeriesId: session.testSeriesId });
+      const response = await fetch(`/api/exams/${session.examId}/attempt?${query.toString()}`, {
+        method: 'PUT',
         headers: {
           Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
@@ -347,6 +883,80 @@ export const fetchAttempts = createAsyncThunk(
   }
 );
 
+// Bookmark a question from the review screen, or update its note and tags
+export const bookmarkQuestion = createAsyncThunk(
+  'exams/bookmarkQuestion',
+  async (
+    { questionId, note, tags }: { questionId: string; note?: string; tags?: string[] },
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const state = getState() as RootState;
+      const token = state.auth.token;
+
+      if (!token) {
+        return rejectWithValue('Authentication required');
+      }
+
+      const response = await fetch('/api/bookmarks', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ questionId, note, tags }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        return rejectWithValue(data.error?.message || 'Failed to bookmark question');
+      }
+
+      const { id, note: savedNote, tags: savedTags } = data.data.bookmark;
+      return { questionId, bookmark: { id, note: savedNote, tags: savedTags } as ReviewBookmark };
+    } catch (error) {
+      return rejectWithValue('Network error occurred');
+    }
+  }
+);
+
+export const removeBookmark = createAsyncThunk(
+  'exams/removeBookmark',
+  async (questionId: string, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as RootState;
+      const token = state.auth.token;
+      const bookmark = state.exams.reviewBookmarks[questionId];
+
+      if (!token) {
+        return rejectWithValue('Authentication required');
+      }
+
+      if (!bookmark) {
+        return rejectWithValue('Question is not bookmarked');
+      }
+
+      const response = await fetch(`/api/bookmarks/${bookmark.id}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        return rejectWithValue(data.error?.message || 'Failed to remove bookmark');
+      }
+
+      return questionId;
+    } catch (error) {
+      return rejectWithValue('Network error occurred');
+    }
+  }
+);
+
 // Exam slice
 const examSlice = createSlice({
   name: 'exams',
@@ -396,9 +1006,23 @@ const examSlice = createSlice({
       state.showReview = action.payload;
     },
     
+    // Bookmarks returned with an attempt review
+    setReviewBookmarks: (
+      state,
+      action: PayloadAction<{ questionId: string; bookmark: ReviewBookmark | null }[]>
+    ) => {
+      state.reviewBookmarks = {};
+      action.payload.forEach(({ questionId, bookmark }) => {
+        if (bookmark) {
+          state.reviewBookmarks[questionId] = bookmark;
+        }
+      });
+    },
+    
     // Session actions
     setCurrentQuestion: (state, action: PayloadAction<number>) => {
       if (state.currentSession) {
+        recordQuestionTime(state.currentSession);
         state.currentSession.currentQuestionIndex = action.payload;
         
         // Mark question as visited
@@ -412,6 +1036,10 @@ const examSlice = createSlice({
     answerQuestion: (state, action: PayloadAction<{ questionId: string; selectedOptions: string[] }>) => {
       if (state.currentSession) {
         const { questionId, selectedOptions } = action.payload;
+        // Checked practice answers are final
+        if (state.currentSession.practiceFeedback[questionId]) {
+          return;
+        }
         state.currentSession.answers[questionId] = selectedOptions;
       }
     },
@@ -428,20 +1056,34 @@ const examSlice = createSlice({
     },
     
     updateTimeRemaining: (state, action: PayloadAction<number>) => {
-      if (state.currentSession) {
+      if (state.currentSession && state.currentSession.timeRemaining !== null) {
         state.currentSession.timeRemaining = action.payload;
       }
     },
     
+    updateSectionTimeRemaining: (state, action: PayloadAction<number>) => {
+      if (state.currentSession && state.currentSession.sectionTimeRemaining !== null) {
+        state.currentSession.sectionTimeRemaining = action.payload;
+        // The section closes when its timer runs out
+        if (action.payload <= 0 && state.currentSession.currentSectionIndex < state.currentSession.sections.length - 1) {
+          state.currentSession.sectionExpired = true;
+        }
+      }
+    },
+    
     pauseSession: (state) => {
       if (state.currentSession) {
         state.currentSession.isPaused = true;
+        recordQuestionTime(state.currentSession);
       }
     },
     
     resumeSession: (state) => {
       if (state.currentSession) {
-        state.currentSession.isPaused = false;
+        if (state.currentSession.isPaused) {
+          state.currentSession.isPaused = false;
+          state.currentSession.questionShownAt = Date.now();
+        }
       }
     },
     
@@ -504,23 +1146,57 @@ const examSlice = createSlice({
       })
       .addCase(startExamAttempt.fulfilled, (state, action) => {
         state.isStartingAttempt = false;
-        const { attemptId, questions, exam, duration } = action.payload;
+        const {
+          examId,
+          testSeriesId,
+          attemptId,
+          questions,
+          isPractice,
+          practiceFeedback,
+          adaptive,
+          timeRemaining,
+          sectionState,
+          progress,
+          proctoring,
+          accommodations,
+        } = action.payload;
+        
+        // Rehydrate saved answers when resuming an in-progress attempt
+        const answers: Record<string, string[]> = {};
+        progress.answers.forEach(saved => {
+          const question = questions.find(q => q.id === saved.questionId);
+          answers[saved.questionId] = toSessionAnswer(question, saved.userAnswer);
+        });
         
         state.currentSession = {
-          examId: exam.id,
+          examId,
+          testSeriesId,
           attemptId,
           questions,
-          currentQuestionIndex: 0,
-          answers: {},
-          timeRemaining: duration * 60, // Convert minutes to seconds
-          startTime: Date.now(),
+          currentQuestionIndex: progress.currentQuestionIndex,
+          answers,
+          isPractice,
+          practiceFeedback: Object.fromEntries(practiceFeedback.map(feedback => [feedback.questionId, feedback])),
+          checkingQuestionId: null,
+          adaptive: adaptive && { ...adaptive, finished: false },
+          timeRemaining, // Server-computed, in seconds
+          sections: sectionState?.sections ?? [],
+          currentSectionIndex: sectionState?.currentSectionIndex ?? 0,
+          sectionTimeRemaining: sectionState?.sectionTimeRemaining ?? null,
+          sectionExpired: false,
+          proctoring,
+          accommodations,
+          startTime: Date.now() - progress.timeSpent * 1000,
+          questionTimes: Object.fromEntries(progress.answers.map(saved => [saved.questionId, saved.timeTaken])),
+          questionShownAt: Date.now(),
           isSubmitting: false,
           isPaused: false,
-          flaggedQuestions: new Set(),
-          visitedQuestions: new Set(),
+          flaggedQuestions: new Set(progress.bookmarkedQuestions),
+          visitedQuestions: new Set(Object.keys(answers)),
+          isSaving: false,
+          lastSavedAt: progress.lastSavedAt,
         };
         
-        state.currentExam = exam;
         state.sessionError = null;
       })
       .addCase(startExamAttempt.rejected, (state, action) => {
@@ -528,6 +1204,133 @@ const examSlice = createSlice({
         state.sessionError = action.payload as string;
       });
 
+    // Save exam progress
+    builder
+      .addCase(saveExamProgress.pending, (state) => {
+        if (state.currentSession) {
+          state.currentSession.isSaving = true;
+        }
+      })
+      .addCase(saveExamProgress.fulfilled, (state, action) => {
+        if (state.currentSession) {
+          state.currentSession.isSaving = false;
+          state.currentSession.lastSavedAt = action.payload.savedAt;
+          state.currentSession.timeRemaining = action.payload.timeRemaining;
+
+          const { sectionState } = action.payload;
+          if (sectionState) {
+            state.currentSession.sectionTimeRemaining = sectionState.sectionTimeRemaining;
+            // The server closed the section on time; the next one has to be loaded
+            if (sectionState.currentSectionIndex > state.currentSession.currentSectionIndex) {
+              state.currentSession.sectionExpired = true;
+            }
+          }
+        }
+      })
+      .addCase(saveExamProgress.rejected, (state, action) => {
+        if (state.currentSession) {
+          state.currentSession.isSaving = false;
+        }
+        state.sessionError = action.payload as string;
+      });
+
+    // Advance section
+    builder
+      .addCase(advanceSection.fulfilled, (state, action) => {
+        if (state.currentSession) {
+          const { questions, timeRemaining, sectionState } = action.payload;
+          
+          recordQuestionTime(state.currentSession);
+          state.currentSession.questions = questions;
+          state.currentSession.currentQuestionIndex = 0;
+          state.currentSession.timeRemaining = timeRemaining;
+          state.currentSession.sections = sectionState.sections;
+          state.currentSession.currentSectionIndex = sectionState.currentSectionIndex;
+          state.currentSession.sectionTimeRemaining = sectionState.sectionTimeRemaining;
+          state.currentSession.sectionExpired = false;
+          
+          const firstQuestion = questions[0];
+          if (firstQuestion) {
+            state.currentSession.visitedQuestions.add(firstQuestion.id);
+          }
+        }
+      })
+      .addCase(advanceSection.rejected, (state, action) => {
+        state.sessionError = action.payload as string;
+      });
+
+    // Check practice answer
+    builder
+      .addCase(checkPracticeAnswer.pending, (state, action) => {
+        if (state.currentSession) {
+          state.currentSession.checkingQuestionId = action.meta.arg;
+        }
+      })
+      .addCase(checkPracticeAnswer.fulfilled, (state, action) => {
+        if (state.currentSession) {
+          const feedback = action.payload;
+          state.currentSession.checkingQuestionId = null;
+          state.currentSession.practiceFeedback[feedback.questionId] = feedback;
+          // A retried check reports the answer that was recorded first
+          state.currentSession.answers[feedback.questionId] = feedback.userAnswer;
+        }
+      })
+      .addCase(checkPracticeAnswer.rejected, (state, action) => {
+        if (state.currentSession) {
+          state.currentSession.checkingQuestionId = null;
+        }
+        state.sessionError = action.payload as string;
+      });
+
+    // Answer adaptive question
+    builder
+      .addCase(answerAdaptiveQuestion.pending, (state, action) => {
+        if (state.currentSession) {
+          state.currentSession.checkingQuestionId = action.meta.arg;
+        }
+      })
+      .addCase(answerAdaptiveQuestion.fulfilled, (state, action) => {
+        const session = state.currentSession;
+        if (!session?.adaptive) {
+          return;
+        }
+
+        const { finished, questionNumber, question } = action.payload;
+        session.checkingQuestionId = null;
+        session.adaptive.finished = finished;
+        session.adaptive.questionNumber = questionNumber;
+
+        if (question) {
+          recordQuestionTime(session);
+          session.questions = [question];
+          session.currentQuestionIndex = 0;
+          session.visitedQuestions.add(question.id);
+        }
+      })
+      .addCase(answerAdaptiveQuestion.rejected, (state, action) => {
+        if (state.currentSession) {
+          state.currentSession.checkingQuestionId = null;
+        }
+        state.sessionError = action.payload as string;
+      });
+
+    // Report proctoring events
+    builder
+      .addCase(reportProctoringEvents.fulfilled, (state, action) => {
+        if (!state.currentSession) {
+          return;
+        }
+
+        if (action.payload.autoSubmitted) {
+          // The server submitted the attempt for reaching the violation limit
+          state.currentSession = null;
+          state.sessionError = action.payload.message;
+          return;
+        }
+
+        state.currentSession.proctoring = action.payload.proctoring;
+      });
+
     // Submit exam
     builder
       .addCase(submitExam.pending, (state) => {
@@ -550,6 +1353,21 @@ const examSlice = createSlice({
         state.sessionError = action.payload as string;
       });
 
+    // Review bookmarks
+    builder
+      .addCase(bookmarkQuestion.fulfilled, (state, action) => {
+        state.reviewBookmarks[action.payload.questionId] = action.payload.bookmark;
+      })
+      .addCase(bookmarkQuestion.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(removeBookmark.fulfilled, (state, action) => {
+        delete state.reviewBookmarks[action.payload];
+      })
+      .addCase(removeBookmark.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
     // Fetch attempts
     builder
       .addCase(fetchAttempts.pending, (state) => {
@@ -576,10 +1394,12 @@ export const {
   toggleCategory,
   setShowInstructions,
   setShowReview,
+  setReviewBookmarks,
   setCurrentQuestion,
   answerQuestion,
   flagQuestion,
   updateTimeRemaining,
+  updateSectionTimeRemaining,
   pauseSession,
   resumeSession,
   clearSession,
@@ -591,6 +1411,7 @@ export const {
 export const selectExams = (state: RootState) => state.exams;
 export const selectExamList = (state: RootState) => state.exams.exams;
 export const selectCurrentExam = (state: RootState) => state.exams.currentExam;
+export const selectExamTestSeries = (state: RootState) => state.exams.currentExam?.testSeries ?? [];
 export const selectCurrentSession = (state: RootState) => state.exams.currentSession;
 export const selectExamFilters = (state: RootState) => state.exams.filters;
 export const selectAttempts = (state: RootState) => state.exams.attempts;
@@ -606,11 +1427,19 @@ export const selectCurrentQuestion = (state: RootState) => {
   return session.questions[session.currentQuestionIndex] || null;
 };
 
+export const selectCurrentSection = (state: RootState) => {
+  const session = state.exams.currentSession;
+  if (!session || session.sections.length === 0) return null;
+  
+  return session.sections[session.currentSectionIndex] || null;
+};
+
 export const selectQuestionProgress = (state: RootState) => {
   const session = state.exams.currentSession;
   if (!session) return { answered: 0, total: 0, flagged: 0 };
   
-  const answeredCount = Object.keys(session.answers).length;
+  // Answers to closed sections stay in the session but are not counted
+  const answeredCount = session.questions.filter(question => session.answers[question.id]?.length).length;
   const totalCount = session.questions.length;
   const flaggedCount = session.flaggedQuestions.size;
   
@@ -622,9 +1451,37 @@ export const selectQuestionProgress = (state: RootState) => {
   };
 };
 
+export const selectPracticeFeedback = (state: RootState, questionId: string) =>
+  state.exams.currentSession?.practiceFeedback[questionId] ?? null;
+
+export const selectAdaptiveProgress = (state: RootState) =>
+  state.exams.currentSession?.adaptive ?? null;
+
+// Display settings for the exam screen: granted accommodations only ever add
+// to the student's own preferences, and last as long as the session
+export const selectExamDisplaySettings = (state: RootState) => {
+  const { fontSize, accessibility } = state.ui.preferences;
+  const accommodations = state.exams.currentSession?.accommodations;
+  if (!accommodations) {
+    return { fontSize, highContrast: accessibility.highContrast, screenReader: accessibility.screenReader };
+  }
+
+  const fontSizes: UIPreferences['fontSize'][] = ['sm', 'md', 'lg', 'xl'];
+  const granted = ({ NORMAL: 'md', LARGE: 'lg', EXTRA_LARGE: 'xl' } as const)[accommodations.fontSize];
+
+  return {
+    fontSize: fontSizes.indexOf(granted) > fontSizes.indexOf(fontSize) ? granted : fontSize,
+    highContrast: accessibility.highContrast || accommodations.highContrast,
+    screenReader: accessibility.screenReader || accommodations.screenReader,
+  };
+};
+
+export const selectReviewBookmark = (state: RootState, questionId: string) =>
+  state.exams.reviewBookmarks[questionId] ?? null;
+
 export const selectTimeFormatted = (state: RootState) => {
   const session = state.exams.currentSession;
-  if (!session) return '00:00:00';
+  if (!session || session.timeRemaining === null) return '00:00:00';
   
   const timeRemaining = session.timeRemaining;
   const hours = Math.floor(timeRemaining / 3600);
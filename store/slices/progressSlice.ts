@@ -110,6 +110,13 @@ export interface LearningGoal {
   createdAt: string;
 }
 
+export interface RevisionQueueSummary {
+  due: number; // questions due for revision now
+  total: number; // questions in the revision queue
+  reviewedToday: number;
+  remainingToday: number; // reviews left under the daily limit
+}
+
 export interface ProgressState {
   // Course progress
   courseProgress: Record<string, CourseProgress>;
@@ -148,6 +155,9 @@ export interface ProgressState {
   streakDays: number;
   longestStreak: number;
   
+  // Spaced-repetition revision queue
+  revisionQueue: RevisionQueueSummary;
+  
   // Loading states
   isLoading: boolean;
   isSyncing: boolean;
@@ -193,6 +203,13 @@ const initialState: ProgressState = {
   streakDays: 0,
   longestStreak: 0,
   
+  revisionQueue: {
+    due: 0,
+    total: 0,
+    reviewedToday: 0,
+    remainingToday: 0,
+  },
+  
   isLoading: false,
   isSyncing: false,
   error: null,
@@ -233,6 +250,36 @@ export const fetchUserProgress = createAsyncThunk(
   }
 );
 
+export const fetchRevisionSummary = createAsyncThunk(
+  'progress/fetchRevisionSummary',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as RootState;
+      const token = state.auth.token;
+
+      if (!token) {
+        return rejectWithValue('Authentication required');
+      }
+
+      const response = await fetch('/api/revision/summary', {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        return rejectWithValue(data.error?.message || 'Failed to fetch revision queue');
+      }
+
+      return data.data.summary as RevisionQueueSummary;
+    } catch (error) {
+      return rejectWithValue('Network error occurred');
+    }
+  }
+);
+
 export const updateLessonProgress = createAsyncThunk(
   'progress/updateLessonProgress',
   async (
@@ -550,6 +597,7 @@ const progressSlice = createSlice({
         state.monthlyStats = data.monthlyStats || initialState.monthlyStats;
         state.streakDays = data.streakDays || 0;
         state.longestStreak = data.longestStreak || 0;
+        state.revisionQueue = data.revisionQueue || state.revisionQueue;
         
         state.error = null;
       })
@@ -557,6 +605,15 @@ const progressSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       });
+    
+    // Fetch revision queue summary
+    builder
+      .addCase(fetchRevisionSummary.fulfilled, (state, action) => {
+        state.revisionQueue = action.payload;
+      })
+      .addCase(fetchRevisionSummary.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
 
     // Update lesson progress
     builder
@@ -641,6 +698,7 @@ export const selectDailyGoal = (state: RootState) => state.progress.dailyGoal;
 export const selectStreakDays = (state: RootState) => state.progress.streakDays;
 export const selectWeeklyStats = (state: RootState) => state.progress.weeklyStats;
 export const selectMonthlyStats = (state: RootState) => state.progress.monthlyStats;
+export const selectRevisionQueue = (state: RootState) => state.progress.revisionQueue;
 
 // Complex selectors
 export const selectOverallProgress = (state: RootState) => {
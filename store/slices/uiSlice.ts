@@ -95,7 +95,7 @@ export interface Notification {
 export interface UIPreferences {
   theme: Theme;
   language: Language;
-  fontSize: 'sm' | 'md' | 'lg';
+  fontSize: 'sm' | 'md' | 'lg' | 'xl';
   density: 'comfortable' | 'compact';
   animations: boolean;
   sounds: boolean;
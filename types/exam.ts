@@ -350,8 +350,19 @@ export interface TestResult {
   percentile: number;
   subjectWiseResults: SubjectWiseResult[];
   topicWiseResults: TopicWiseResult[];
+  sectionWiseResults: SectionWiseResult[]; // empty unless the test is sectional
   completedAt: Date;
   certificate?: TestCertificate;
+  ability?: TestAbility; // adaptive tests only
+}
+
+/**
+ * Estimated ability from an adaptive test
+ */
+export interface TestAbility {
+  ability: number; // in logits, 0 is a question of average difficulty
+  standardError: number;
+  score: number; // chance of answering an average question correctly, 0-100
 }
 
 /**
@@ -387,13 +398,43 @@ export interface TopicWiseResult {
   accuracy: number; // percentage
 }
 
+/**
+ * Subtopic-wise test result
+ */
+export interface SubtopicWiseResult extends TopicWiseResult {
+  subtopic: string;
+}
+
+/**
+ * Section-wise test result with the sectional cut-off
+ */
+export interface SectionWiseResult {
+  sectionId: string;
+  title: string;
+  order: number;
+  totalQuestions: number;
+  attemptedQuestions: number;
+  correctAnswers: number;
+  score: number;
+  maxScore: number;
+  accuracy: number; // percentage
+  timeTaken: number; // minutes
+  cutoffMarks: number | null;
+  isCleared: boolean; // always true without a cut-off
+}
+
 /**
  * Test analytics for detailed insights
  */
 export interface TestAnalytics {
   attemptId: string;
+  subjectWiseResults: SubjectWiseResult[];
+  topicWiseResults: TopicWiseResult[];
+  subtopicWiseResults: SubtopicWiseResult[];
   timeDistribution: TimeDistribution;
+  questionTimes: QuestionTimeComparison[];
   difficultyAnalysis: DifficultyAnalysis;
+  attemptRateAnalysis: AttemptRateAnalysis;
   comparisonWithPeers: PeerComparison;
   recommendations: AnalyticsRecommendation[];
   strengths: string[];
@@ -422,6 +463,37 @@ export interface TimeDistribution {
   }[];
 }
 
+/**
+ * Time spent on a question compared with the topper and the average
+ */
+export interface QuestionTimeComparison {
+  questionId: string;
+  questionNumber: number;
+  subject: string;
+  topic: string;
+  status: 'CORRECT' | 'INCORRECT' | 'SKIPPED' | 'PENDING';
+  timeTaken: number; // seconds
+  averageTime: number | null; // seconds, among students who answered
+  topperTime: number | null; // seconds
+}
+
+/**
+ * Accuracy versus attempt rate (attempted / total questions), overall and by subject
+ */
+export interface AttemptRateAnalysis {
+  attemptRate: number; // percentage
+  accuracy: number; // percentage
+  averageAttemptRate: number; // percentage
+  averageAccuracy: number; // percentage
+  topperAttemptRate: number; // percentage
+  topperAccuracy: number; // percentage
+  subjects: {
+    subject: string;
+    attemptRate: number; // percentage
+    accuracy: number; // percentage
+  }[];
+}
+
 /**
  * Difficulty analysis
  */
@@ -753,6 +825,9 @@ export interface QuestionSearchFilters {
  * Question bank filters
  */
 export interface QuestionBankFilters extends QuestionSearchFilters {
+  testSeriesId?: string;
+  isVerified?: boolean;
+  includeInactive?: boolean;
   onlyMyQuestions?: boolean;
   onlyPublished?: boolean;
   lastUsed?: {